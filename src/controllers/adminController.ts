@@ -7,6 +7,10 @@ import { NewsArticle } from '../models/NewsArticle';
 import { Content } from '../models/Content';
 import { Thread } from '../models/Thread';
 import { User } from '../models/User';
+import { newsSchedulerService } from '../services/newsSchedulerService';
+import { providerRegistry } from '../services/providerRegistry';
+import { contentFilterService } from '../services/contentFilterService';
+import { searchIndexService } from '../services/searchIndexService';
 
 export const getKPIs = asyncHandler(async (_req: Request, res: Response) => {
   const todayStart = new Date();
@@ -56,4 +60,67 @@ export const getLogs = asyncHandler(async (req: Request, res: Response) => {
   res.status(StatusCodes.OK).json({ success: true, data: tail });
 });
 
+export const getNewsSchedules = asyncHandler(async (req: Request, res: Response) => {
+  const { limit = 50 } = req.query as any;
+  const schedules = await newsSchedulerService.getSchedules(Math.min(Number(limit) || 50, 200));
+  res.status(StatusCodes.OK).json({ success: true, data: schedules });
+});
+
+export const getProviderStatus = asyncHandler(async (_req: Request, res: Response) => {
+  res.status(StatusCodes.OK).json({ success: true, data: providerRegistry.getStatus() });
+});
+
+export const getContentFilterConfig = asyncHandler(async (_req: Request, res: Response) => {
+  const config = await contentFilterService.getConfig();
+  res.status(StatusCodes.OK).json({ success: true, data: config });
+});
+
+// Changes apply to the next post; nested spam/actions settings are merged
+export const updateContentFilterConfig = asyncHandler(async (req: Request, res: Response) => {
+  const config = await contentFilterService.updateConfig(req.body, (req as any).user._id.toString());
+  res.status(StatusCodes.OK).json({ success: true, data: config });
+});
+
+// Dry-run text through the pipeline without creating a post
+export const testContentFilter = asyncHandler(async (req: Request, res: Response) => {
+  const { text, kind = 'thread', category } = req.body;
+  const user = (req as any).user;
+  const result = await contentFilterService.evaluate({
+    kind,
+    authorId: user._id.toString(),
+    authorCreatedAt: user.createdAt,
+    text,
+    category,
+    dryRun: true
+  });
+  res.status(StatusCodes.OK).json({ success: true, data: result });
+});
 
+// Alias targets and the last reindex run of every search index
+export const getSearchStatus = asyncHandler(async (_req: Request, res: Response) => {
+  const status = await searchIndexService.getStatus();
+  res.status(StatusCodes.OK).json({ success: true, data: status });
+});
+
+// Rebuild an index from Mongo in the background; searches keep using the old index until it is ready
+export const reindexSearch = asyncHandler(async (req: Request, res: Response) => {
+  const { index } = req.params;
+  if (!searchIndexService.isSearchIndex(index)) {
+    return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Unknown search index' });
+  }
+
+  const result = await searchIndexService.startReindex(index, { keepOld: req.body.keepOld === true });
+  if ('error' in result) {
+    return res.status(result.error === 'in_progress' ? StatusCodes.CONFLICT : StatusCodes.SERVICE_UNAVAILABLE).json({
+      success: false,
+      message: result.error === 'in_progress' ? 'This index is already being rebuilt' : 'Elasticsearch is not available'
+    });
+  }
+
+  res.status(StatusCodes.ACCEPTED).json({ success: true, data: result.progress });
+});
+
+export const checkSearchConsistency = asyncHandler(async (_req: Request, res: Response) => {
+  const report = await searchIndexService.checkConsistency();
+  res.status(StatusCodes.OK).json({ success: true, data: report });
+});
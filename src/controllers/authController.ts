@@ -1,11 +1,77 @@
 import { Request, Response } from 'express';
 import { User } from '../models/User';
-import { generateToken, generateRefreshToken, verifyRefreshToken } from '../middleware/auth';
+import { AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
+import { sessionService, ClientInfo } from '../services/sessionService';
+import { twoFactorService, TwoFactorResult } from '../services/twoFactorService';
+import { mailService } from '../services/mailService';
+import { loginProtectionService } from '../services/loginProtectionService';
 import crypto from 'crypto';
-import nodemailer from 'nodemailer';
+
+// Device metadata stored with each session
+const clientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ip: req.ip
+});
+
+// Record the login and start a session; the final step of every sign-in flow
+const completeLogin = async (req: Request, user: any) => {
+  await user.updateLastLogin();
+
+  const { token, refreshToken } = await sessionService.create(user._id.toString(), clientInfo(req));
+
+  // Remove password from response
+  const userResponse = {
+    id: user._id,
+    name: user.name,
+    email: user.email,
+    avatar: user.avatar,
+    role: user.role,
+    isVerified: user.isVerified,
+    preferences: user.preferences,
+    stats: user.stats,
+    twoFactorEnabled: !!user.twoFactor?.enabled,
+    lastLogin: user.lastLogin,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  };
+
+  return { user: userResponse, token, refreshToken };
+};
+
+const TWO_FACTOR_ERRORS: Record<Exclude<TwoFactorResult, { ok: true }>['error'], { status: number; message: string }> = {
+  not_found: { status: StatusCodes.NOT_FOUND, message: 'User not found' },
+  not_enabled: { status: StatusCodes.BAD_REQUEST, message: 'Two-factor authentication is not enabled' },
+  already_enabled: { status: StatusCodes.CONFLICT, message: 'Two-factor authentication is already enabled' },
+  no_pending: { status: StatusCodes.BAD_REQUEST, message: 'Start two-factor setup first' },
+  invalid_code: { status: StatusCodes.UNAUTHORIZED, message: 'Invalid authentication code' },
+  too_many_attempts: { status: StatusCodes.TOO_MANY_REQUESTS, message: 'Too many invalid codes, try again later' },
+  required: { status: StatusCodes.FORBIDDEN, message: 'Your role requires two-factor authentication' }
+};
+
+const sendTwoFactorError = (res: Response, error: keyof typeof TWO_FACTOR_ERRORS) => {
+  const { status, message } = TWO_FACTOR_ERRORS[error];
+  return res.status(status).json({ success: false, message });
+};
+
+// One answer for locked accounts, locked IPs and throttling so none of them reveals whether the email exists
+const sendLoginBlocked = (res: Response, retryAfter = 60) => {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(StatusCodes.TOO_MANY_REQUESTS).json({
+    success: false,
+    message: `Too many failed login attempts. Try again in ${retryAfter < 60 ? `${retryAfter} seconds` : `${Math.ceil(retryAfter / 60)} minutes`}.`,
+    data: { retryAfter }
+  });
+};
+
+// Enrollment runs either signed in or, for staff without 2FA, with the login enroll challenge
+const enrollingUserId = (req: Request): string | null => {
+  const { user } = req as AuthRequest;
+  if (user) return user._id.toString();
+  return req.body.challengeToken ? twoFactorService.verifyChallenge(req.body.challengeToken, 'enroll') : null;
+};
 
 // Register new user
 export const register = asyncHandler(async (req: Request, res: Response) => {
@@ -34,13 +100,12 @@ export const register = asyncHandler(async (req: Request, res: Response) => {
 
   await user.save();
 
-  // Generate tokens
-  const token = generateToken(user._id.toString());
-  const refreshToken = generateRefreshToken(user._id.toString());
+  // Start a session
+  const { token, refreshToken } = await sessionService.create(user._id.toString(), clientInfo(req));
 
   // Send verification email
   try {
-    await sendVerificationEmail(user.email, verificationToken);
+    await mailService.sendVerificationEmail(user, verificationToken);
   } catch (error) {
     logger.error('Error sending verification email:', error);
     // Don't fail registration if email fails
@@ -74,10 +139,20 @@ export const register = asyncHandler(async (req: Request, res: Response) => {
 // Login user
 export const login = asyncHandler(async (req: Request, res: Response) => {
   const { email, password } = req.body;
+  const client = clientInfo(req);
+
+  // Locked accounts and IPs are refused before the password is looked at
+  const check = await loginProtectionService.check(email, client.ip);
+  if ('reason' in check) {
+    await loginProtectionService.recordBlocked(email, client, check.reason);
+    return sendLoginBlocked(res, check.retryAfter);
+  }
 
   // Find user by email
   const user = await User.findOne({ email }).select('+password');
   if (!user) {
+    const failure = await loginProtectionService.recordFailure(email, client, 'unknown_email');
+    if (failure.lockedOut) return sendLoginBlocked(res, failure.retryAfter);
     return res.status(StatusCodes.UNAUTHORIZED).json({
       success: false,
       message: 'Invalid email or password'
@@ -87,56 +162,64 @@ export const login = asyncHandler(async (req: Request, res: Response) => {
   // Check password
   const isPasswordValid = await user.comparePassword(password);
   if (!isPasswordValid) {
+    const failure = await loginProtectionService.recordFailure(email, client, 'invalid_password', user._id.toString());
+    if (failure.lockedOut) return sendLoginBlocked(res, failure.retryAfter);
     return res.status(StatusCodes.UNAUTHORIZED).json({
       success: false,
       message: 'Invalid email or password'
     });
   }
 
-  // Update last login
-  await user.updateLastLogin();
-
-  // Generate tokens
-  const token = generateToken(user._id.toString());
-  const refreshToken = generateRefreshToken(user._id.toString());
+  await loginProtectionService.recordSuccess(email);
 
-  // Remove password from response
-  const userResponse = {
-    id: user._id,
-    name: user.name,
-    email: user.email,
-    avatar: user.avatar,
-    role: user.role,
-    isVerified: user.isVerified,
-    preferences: user.preferences,
-    stats: user.stats,
-    lastLogin: user.lastLogin,
-    createdAt: user.createdAt,
-    updatedAt: user.updatedAt
-  };
+  // Staff roles and users who opted in finish signing in with a second factor
+  if (user.twoFactor?.enabled) {
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      message: 'Enter the code from your authenticator app',
+      data: {
+        twoFactorRequired: true,
+        challengeToken: twoFactorService.issueChallenge(user._id.toString(), 'login')
+      }
+    });
+  }
+  if (await twoFactorService.isRequiredFor(user)) {
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      message: 'Your role requires two-factor authentication. Set it up to continue.',
+      data: {
+        twoFactorSetupRequired: true,
+        challengeToken: twoFactorService.issueChallenge(user._id.toString(), 'enroll')
+      }
+    });
+  }
 
   res.status(StatusCodes.OK).json({
     success: true,
     message: 'Login successful',
-    data: {
-      user: userResponse,
-      token,
-      refreshToken
-    }
+    data: await completeLogin(req, user)
   });
 });
 
-// Logout user
+// Logout user; ends the session of the refresh token, or of the access token when none is sent
 export const logout = asyncHandler(async (req: Request, res: Response) => {
-  // In a more sophisticated setup, you might want to blacklist the token
-  // For now, we'll just return a success message
+  const { user, sessionId } = req as AuthRequest;
+  let owner = req.body.refreshToken ? sessionService.sessionIdOf(req.body.refreshToken) : null;
+  if (!owner && user && sessionId) {
+    owner = { userId: user._id.toString(), sessionId };
+  }
+
+  if (owner) {
+    await sessionService.revoke(owner.sessionId, owner.userId, 'logout');
+  }
+
   res.status(StatusCodes.OK).json({
     success: true,
     message: 'Logout successful'
   });
 });
 
-// Refresh token
+// Refresh token; every refresh token can be used once and is replaced by a new one
 export const refreshToken = asyncHandler(async (req: Request, res: Response) => {
   const { refreshToken } = req.body;
 
@@ -147,34 +230,191 @@ export const refreshToken = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  try {
-    const decoded = verifyRefreshToken(refreshToken);
-    const user = await User.findById(decoded.userId);
-    
-    if (!user) {
-      return res.status(StatusCodes.UNAUTHORIZED).json({
-        success: false,
-        message: 'Invalid refresh token'
-      });
+  const result = await sessionService.rotate(refreshToken, clientInfo(req));
+  if ('error' in result) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      message: result.error === 'reused'
+        ? 'Refresh token was already used; the session has been signed out'
+        : result.error === 'two_factor_required'
+          ? 'Your role requires two-factor authentication; sign in again to set it up'
+          : result.error === 'revoked' ? 'Session has been signed out' : 'Invalid refresh token'
+    });
+  }
+
+  const user = await User.findById(result.userId).select('_id');
+  if (!user) {
+    await sessionService.revokeAll(result.userId, 'account_deleted');
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      message: 'Invalid refresh token'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      token: result.token,
+      refreshToken: result.refreshToken
     }
+  });
+});
 
-    // Generate new tokens
-    const newToken = generateToken(user._id.toString());
-    const newRefreshToken = generateRefreshToken(user._id.toString());
+// List the current user's active sessions
+export const getSessions = asyncHandler(async (req: Request, res: Response) => {
+  const { user, sessionId } = req as AuthRequest;
+  const sessions = await sessionService.list(user._id.toString());
 
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: {
-        token: newToken,
-        refreshToken: newRefreshToken
-      }
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: sessions.map((session) => ({
+      ...session,
+      current: session._id.toString() === sessionId
+    }))
+  });
+});
+
+// Sign out one session, e.g. a lost device
+export const revokeSession = asyncHandler(async (req: Request, res: Response) => {
+  const revoked = await sessionService.revoke(req.params.sessionId, (req as AuthRequest).user._id.toString(), 'revoked');
+  if (!revoked) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Session not found'
     });
-  } catch (error) {
-    res.status(StatusCodes.UNAUTHORIZED).json({
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Session signed out'
+  });
+});
+
+// Sign out everywhere; keepCurrent leaves the requesting session signed in
+export const logoutAll = asyncHandler(async (req: Request, res: Response) => {
+  const { user, sessionId } = req as AuthRequest;
+  const keepCurrent = req.body.keepCurrent === true || req.body.keepCurrent === 'true';
+  const count = await sessionService.revokeAll(user._id.toString(), 'logout_all', keepCurrent ? sessionId : undefined);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: `Signed out of ${count} session(s)`,
+    data: { revoked: count }
+  });
+});
+
+// Second login step: TOTP code or backup code for the challenge issued by login
+export const verifyTwoFactorLogin = asyncHandler(async (req: Request, res: Response) => {
+  const { challengeToken, code, backupCode } = req.body;
+
+  const userId = twoFactorService.verifyChallenge(challengeToken, 'login');
+  if (!userId) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
       success: false,
-      message: 'Invalid refresh token'
+      message: 'Login challenge expired, please sign in again'
     });
   }
+
+  const result = await twoFactorService.verify(userId, { code, backupCode });
+  if ('error' in result) return sendTwoFactorError(res, result.error);
+
+  const user = await User.findById(userId);
+  if (!user) return sendTwoFactorError(res, 'not_found');
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      ...(await completeLogin(req, user)),
+      ...(result.method === 'backup_code' ? { remainingBackupCodes: result.remainingBackupCodes } : {})
+    }
+  });
+});
+
+// Two-factor status for the signed-in user
+export const getTwoFactorStatus = asyncHandler(async (req: Request, res: Response) => {
+  const user = await User.findById((req as AuthRequest).user._id).select('role twoFactor.enabled twoFactor.enabledAt +twoFactor.backupCodes');
+  if (!user) return sendTwoFactorError(res, 'not_found');
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      enabled: !!user.twoFactor?.enabled,
+      enabledAt: user.twoFactor?.enabledAt,
+      required: await twoFactorService.isRequiredFor(user),
+      remainingBackupCodes: user.twoFactor?.backupCodes?.length || 0
+    }
+  });
+});
+
+// Start enrollment: returns the secret and an otpauth:// URI to render as a QR code
+export const setupTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const userId = enrollingUserId(req);
+  if (!userId) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      message: 'Access denied. Please authenticate first.'
+    });
+  }
+
+  const result = await twoFactorService.beginEnrollment(userId);
+  if ('error' in result) return sendTwoFactorError(res, result.error);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      secret: result.secret,
+      otpauthUri: result.otpauthUri
+    }
+  });
+});
+
+// Finish enrollment with a first code; backup codes are only ever shown here.
+// When enrolling from the login challenge this also completes the sign-in
+export const enableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const userId = enrollingUserId(req);
+  if (!userId) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      message: 'Access denied. Please authenticate first.'
+    });
+  }
+
+  const result = await twoFactorService.confirmEnrollment(userId, req.body.code);
+  if ('error' in result) return sendTwoFactorError(res, result.error);
+
+  const signingIn = !(req as AuthRequest).user;
+  const user = signingIn ? await User.findById(userId) : null;
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Two-factor authentication enabled. Store your backup codes somewhere safe.',
+    data: {
+      backupCodes: result.backupCodes,
+      ...(user ? await completeLogin(req, user) : {})
+    }
+  });
+});
+
+export const disableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const result = await twoFactorService.disable((req as AuthRequest).user._id.toString(), req.body.code);
+  if ('error' in result) return sendTwoFactorError(res, result.error);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Two-factor authentication disabled'
+  });
+});
+
+// Replace all backup codes, e.g. after using several of them
+export const regenerateBackupCodes = asyncHandler(async (req: Request, res: Response) => {
+  const result = await twoFactorService.regenerateBackupCodes((req as AuthRequest).user._id.toString(), req.body.code);
+  if ('error' in result) return sendTwoFactorError(res, result.error);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { backupCodes: result.backupCodes }
+  });
 });
 
 // Forgot password
@@ -199,7 +439,7 @@ export const forgotPassword = asyncHandler(async (req: Request, res: Response) =
 
   // Send reset email
   try {
-    await sendPasswordResetEmail(user.email, resetToken);
+    await mailService.sendPasswordResetEmail(user, resetToken, 10);
   } catch (error) {
     logger.error('Error sending password reset email:', error);
     return res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
@@ -235,6 +475,10 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response) =>
   user.resetPasswordExpires = undefined;
   await user.save();
 
+  // Whoever knew the old password is signed out, and the owner is no longer locked out
+  await sessionService.revokeAll(user._id.toString(), 'password_changed');
+  await loginProtectionService.clearAccount(user.email);
+
   res.status(StatusCodes.OK).json({
     success: true,
     message: 'Password reset successful'
@@ -289,7 +533,7 @@ export const resendVerification = asyncHandler(async (req: Request, res: Respons
 
   // Send verification email
   try {
-    await sendVerificationEmail(user.email, verificationToken);
+    await mailService.sendVerificationEmail(user, verificationToken);
   } catch (error) {
     logger.error('Error sending verification email:', error);
     return res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
@@ -329,6 +573,9 @@ export const changePassword = asyncHandler(async (req: Request, res: Response) =
   user.password = newPassword;
   await user.save();
 
+  // Other devices must sign in with the new password
+  await sessionService.revokeAll(userId, 'password_changed', (req as AuthRequest).sessionId);
+
   res.status(StatusCodes.OK).json({
     success: true,
     message: 'Password changed successfully'
@@ -383,64 +630,10 @@ export const deleteAccount = asyncHandler(async (req: Request, res: Response) =>
   const userId = (req as any).user.id;
 
   await User.findByIdAndDelete(userId);
+  await sessionService.revokeAll(userId, 'account_deleted');
 
   res.status(StatusCodes.OK).json({
     success: true,
     message: 'Account deleted successfully'
   });
 });
-
-// Helper function to send verification email
-const sendVerificationEmail = async (email: string, token: string) => {
-  const transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST,
-    port: Number(process.env.SMTP_PORT),
-    secure: false,
-    auth: {
-      user: process.env.SMTP_USER,
-      pass: process.env.SMTP_PASS,
-    },
-  });
-
-  const verificationUrl = `${process.env.FRONTEND_URL}/verify-email/${token}`;
-
-  await transporter.sendMail({
-    from: process.env.SMTP_USER,
-    to: email,
-    subject: 'Verify Your Email - Sports Platform',
-    html: `
-      <h2>Welcome to Sports Platform!</h2>
-      <p>Please click the link below to verify your email address:</p>
-      <a href="${verificationUrl}">Verify Email</a>
-      <p>If you didn't create an account, please ignore this email.</p>
-    `,
-  });
-};
-
-// Helper function to send password reset email
-const sendPasswordResetEmail = async (email: string, token: string) => {
-  const transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST,
-    port: Number(process.env.SMTP_PORT),
-    secure: false,
-    auth: {
-      user: process.env.SMTP_USER,
-      pass: process.env.SMTP_PASS,
-    },
-  });
-
-  const resetUrl = `${process.env.FRONTEND_URL}/reset-password/${token}`;
-
-  await transporter.sendMail({
-    from: process.env.SMTP_USER,
-    to: email,
-    subject: 'Reset Your Password - Sports Platform',
-    html: `
-      <h2>Password Reset Request</h2>
-      <p>Please click the link below to reset your password:</p>
-      <a href="${resetUrl}">Reset Password</a>
-      <p>This link will expire in 10 minutes.</p>
-      <p>If you didn't request a password reset, please ignore this email.</p>
-    `,
-  });
-};
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../middleware/errorHandler';
+import { awardService, GrantAwardResult } from '../services/awardService';
+import { permissionService } from '../services/permissionService';
+import { Comment } from '../models/Comment';
+import { redisClient } from '../utils/redis';
+import { logger } from '../utils/logger';
+
+const GRANT_ERRORS: Record<Exclude<GrantAwardResult, { ok: true }>['error'], { status: number; message: string }> = {
+  not_found: { status: StatusCodes.NOT_FOUND, message: 'Post not found' },
+  unknown_award: { status: StatusCodes.BAD_REQUEST, message: 'Unknown award type' },
+  own_post: { status: StatusCodes.BAD_REQUEST, message: 'You cannot award your own post' },
+  insufficient_coins: { status: StatusCodes.PAYMENT_REQUIRED, message: 'Not enough coins for this award' }
+};
+
+// Listings embed award counts, so drop their cached pages
+const clearListingCache = async (pattern: string) => {
+  try {
+    const keys = await redisClient.keys(pattern);
+    if (keys && keys.length > 0) {
+      await Promise.all(keys.map(key => redisClient.del(key)));
+    }
+  } catch (e) {
+    logger.warn(`Could not clear cache for ${pattern}:`, e);
+  }
+};
+
+const sendGrantResult = (res: Response, result: GrantAwardResult) => {
+  if ('error' in result) {
+    const { status, message } = GRANT_ERRORS[result.error];
+    return res.status(status).json({ success: false, message });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Award given successfully',
+    data: {
+      balance: result.balance,
+      awardCounts: result.awardCounts
+    }
+  });
+};
+
+// Get the award catalogue
+export const getAwardTypes = asyncHandler(async (req: Request, res: Response) => {
+  const includeInactive = req.query.all === 'true' && await permissionService.userCan((req as any).user, 'awards.manage');
+  const awardTypes = await awardService.listTypes(includeInactive);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: awardTypes
+  });
+});
+
+// Create or update an award type (admin only)
+export const upsertAwardType = asyncHandler(async (req: Request, res: Response) => {
+  const key = (req.params.key || req.body.key).toLowerCase();
+  const { name, description, icon, cost, recipientCoins, isActive } = req.body;
+
+  const awardType = await awardService.upsertType(key, { name, description, icon, cost, recipientCoins, isActive });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: awardType
+  });
+});
+
+// Give an award to a thread
+export const awardThread = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { awardType } = req.body;
+  const userId = (req as any).user._id.toString();
+
+  const result = await awardService.grantAward(userId, 'thread', id, awardType);
+  if (result.ok) await clearListingCache('threads:*');
+
+  sendGrantResult(res, result);
+});
+
+// Give an award to a comment
+export const awardComment = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { awardType } = req.body;
+  const userId = (req as any).user._id.toString();
+
+  const result = await awardService.grantAward(userId, 'comment', id, awardType);
+  if (result.ok) {
+    const comment = await Comment.findById(id).select('thread article').lean();
+    await clearListingCache(`comments:${comment?.thread || comment?.article}:*`);
+  }
+
+  sendGrantResult(res, result);
+});
+
+// Get the current user's coin balance
+export const getCoinBalance = asyncHandler(async (req: Request, res: Response) => {
+  const balance = await awardService.getBalance((req as any).user.id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { balance }
+  });
+});
+
+// Get the current user's coin ledger
+export const getCoinTransactions = asyncHandler(async (req: Request, res: Response) => {
+  const { cursor, limit = 20 } = req.query;
+
+  const result = await awardService.listTransactions((req as any).user.id, {
+    cursor: cursor as string,
+    limit: Number(limit)
+  });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      transactions: result.transactions,
+      pagination: {
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        limit: Number(limit)
+      }
+    }
+  });
+});
@@ -5,6 +5,14 @@ import { Vote } from '../models/Vote';
 import { redisClient } from '../utils/redis';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+import { awardService } from '../services/awardService';
+import { moderationService } from '../services/moderationService';
+import { sanctionService } from '../services/sanctionService';
+import { commentTreeService } from '../services/commentTreeService';
+import { permissionService } from '../services/permissionService';
+import { contentFilterService, AUTO_FILTER_REASON } from '../services/contentFilterService';
+import { getIO, broadcastModerationReport } from '../utils/socket';
 
 // Get comments for a thread or article
 export const getComments = asyncHandler(async (req: Request, res: Response) => {
@@ -18,9 +26,13 @@ export const getComments = asyncHandler(async (req: Request, res: Response) => {
 
   const skip = (Number(page) - 1) * Number(limit);
   
+  const viewerId = (req as any).user?._id?.toString();
+  const visibility = await sanctionService.visibilityClause(viewerId);
+
   // Build filter object
   const filter: any = { 
-    isDeleted: false 
+    isDeleted: false,
+    ...visibility
   };
   
   if (threadId) {
@@ -61,7 +73,9 @@ export const getComments = asyncHandler(async (req: Request, res: Response) => {
 
   // Try to get from cache first
   const entityId = threadId || articleId;
-  const cacheKey = `comments:${entityId}:${parentId || 'root'}:${sort}:${page}:${limit}`;
+  // Shadow-banned viewers see their own hidden comments, so their listing is cached separately
+  const viewerScope = visibility.$or ? `:viewer:${viewerId}` : '';
+  const cacheKey = `comments:${entityId}:${parentId || 'root'}:${sort}:${page}:${limit}${viewerScope}`;
   const cachedData = await redisClient.get(cacheKey);
   
   if (cachedData) {
@@ -81,7 +95,7 @@ export const getComments = asyncHandler(async (req: Request, res: Response) => {
   const total = await Comment.countDocuments(filter);
 
   const result = {
-    comments,
+    comments: comments.map(comment => ({ ...comment, awardCounts: awardService.summarize(comment.awards) })),
     pagination: {
       current: Number(page),
       pages: Math.ceil(total / Number(limit)),
@@ -99,6 +113,32 @@ export const getComments = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+// Get the nested comment tree for a thread or article
+export const getCommentTree = asyncHandler(async (req: Request, res: Response) => {
+  const { threadId, articleId } = req.params;
+  const { sort = 'best', depth = 5, limit = 20, continuation } = req.query as any;
+
+  const result = await commentTreeService.getTree(threadId ? { thread: threadId } : { article: articleId }, {
+    sort,
+    maxDepth: Number(depth),
+    limit: Number(limit),
+    continuation,
+    viewerId: (req as any).user?._id?.toString()
+  });
+
+  if ('error' in result) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'Invalid or expired continuation token'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { comments: result.comments, more: result.more }
+  });
+});
+
 // Get comment by ID
 export const getCommentById = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -108,7 +148,12 @@ export const getCommentById = asyncHandler(async (req: Request, res: Response) =
     .populate('thread', 'title')
     .lean();
 
-  if (!comment || comment.isDeleted) {
+  const viewer = (req as any).user;
+  const isHidden = (comment?.shadowHidden || comment?.heldForReview) &&
+    !(await permissionService.userCan(viewer, 'moderation.queue')) &&
+    (comment.author as any)?._id?.toString() !== viewer?._id?.toString();
+
+  if (!comment || comment.isDeleted || isHidden) {
     return res.status(StatusCodes.NOT_FOUND).json({
       success: false,
       message: 'Comment not found'
@@ -133,6 +178,9 @@ export const createComment = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
+  // Mutes are per thread category; article comments count as news
+  let category = 'news';
+
   // Support article comments
   if (articleId) {
     const { NewsArticle } = await import('../models/NewsArticle');
@@ -159,11 +207,13 @@ export const createComment = asyncHandler(async (req: Request, res: Response) =>
         message: 'Thread is locked'
       });
     }
+    category = thread.category;
   }
 
   // If replying to a comment, check if parent exists
+  let parentComment = null;
   if (parentCommentId) {
-    const parentComment = await Comment.findById(parentCommentId);
+    parentComment = await Comment.findById(parentCommentId);
     if (!parentComment || parentComment.isDeleted) {
       return res.status(StatusCodes.NOT_FOUND).json({
         success: false,
@@ -172,20 +222,54 @@ export const createComment = asyncHandler(async (req: Request, res: Response) =>
     }
   }
 
+  const posting = await sanctionService.checkPosting(userId.toString(), category);
+  if ('message' in posting) {
+    // Cooldowns are rate limits; mutes are a refusal
+    if (posting.retryAfter) res.set('Retry-After', String(posting.retryAfter));
+    return res.status(posting.retryAfter ? StatusCodes.TOO_MANY_REQUESTS : StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: posting.message,
+      data: { retryAfter: posting.retryAfter, expiresAt: posting.expiresAt }
+    });
+  }
+
+  const filtered = await contentFilterService.evaluate({
+    kind: 'comment',
+    authorId: userId.toString(),
+    authorCreatedAt: (req as any).user.createdAt,
+    text: content,
+    category
+  });
+  if (filtered.action === 'reject') {
+    return res.status(StatusCodes.UNPROCESSABLE_ENTITY).json({
+      success: false,
+      message: 'Your comment was blocked by the content filter',
+      data: { reasons: filtered.verdicts.map(v => v.reason) }
+    });
+  }
+
   const comment = new Comment({
     content,
     author: userId,
     thread: threadId,
     article: articleId,
-    parentComment: parentCommentId
+    parentComment: parentCommentId,
+    shadowHidden: posting.shadowHidden,
+    heldForReview: filtered.action === 'hold'
   });
 
   await comment.save();
 
-  // Update thread or article comment count
+  if (filtered.action === 'hold') {
+    await moderationService.enqueueApproval('comment', { _id: comment._id, excerpt: comment.content, author: userId });
+  } else if (filtered.action === 'flag') {
+    await moderationService.enqueueReport('comment', comment, AUTO_FILTER_REASON);
+  }
+
+  // Update thread or article comment count; held comments are counted once approved
   if (threadId) {
     await Thread.findByIdAndUpdate(threadId, {
-      $inc: { commentCount: 1 },
+      $inc: { commentCount: comment.heldForReview ? 0 : 1 },
       $push: { comments: comment._id },
       lastActivity: new Date()
     });
@@ -204,9 +288,13 @@ export const createComment = asyncHandler(async (req: Request, res: Response) =>
   // Clear cache
   await redisClient.del(`comments:${threadId}:*`);
 
+  if (parentComment && !posting.shadowHidden && !comment.heldForReview) {
+    await notificationService.notifyCommentReply(parentComment, comment, (req as any).user);
+  }
+
   res.status(StatusCodes.CREATED).json({
     success: true,
-    message: 'Comment created successfully',
+    message: comment.heldForReview ? 'Comment submitted and held for review' : 'Comment created successfully',
     data: comment
   });
 });
@@ -226,8 +314,8 @@ export const updateComment = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  // Check if user is author or moderator
-  if (comment.author.toString() !== userId.toString() && !(req as any).user.isAdmin()) {
+  // Check if user is author or may edit any comment
+  if (comment.author.toString() !== userId.toString() && !(await permissionService.userCan((req as any).user, 'comment.edit_any'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'Not authorized to edit this comment'
@@ -269,8 +357,8 @@ export const deleteComment = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  // Check if user is author or moderator
-  if (comment.author.toString() !== userId.toString() && !(req as any).user.isAdmin()) {
+  // Check if user is author or may delete any comment
+  if (comment.author.toString() !== userId.toString() && !(await permissionService.userCan((req as any).user, 'comment.delete_any'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'Not authorized to delete this comment'
@@ -283,10 +371,12 @@ export const deleteComment = asyncHandler(async (req: Request, res: Response) =>
     deletedBy: userId
   });
 
-  // Update thread comment count
-  await Thread.findByIdAndUpdate(comment.thread, {
-    $inc: { commentCount: -1 }
-  });
+  // Update thread comment count, which never included a comment still held for review
+  if (!comment.heldForReview) {
+    await Thread.findByIdAndUpdate(comment.thread, {
+      $inc: { commentCount: -1 }
+    });
+  }
 
   // Clear cache
   await redisClient.del(`comments:${comment.thread}:*`);
@@ -360,6 +450,10 @@ export const voteComment = asyncHandler(async (req: Request, res: Response) => {
 
   await comment.save();
 
+  if (voteType === 'upvote') {
+    await awardService.rewardUpvote(comment.author.toString(), userId.toString(), 'comment', id);
+  }
+
   // Clear cache
   await redisClient.del(`comments:${comment.thread}:*`);
 
@@ -409,6 +503,22 @@ export const reportComment = asyncHandler(async (req: Request, res: Response) =>
   });
 
   await comment.save();
+  await moderationService.enqueueReport('comment', comment, reason);
+
+  // Push the report to moderators watching the live feed
+  const io = getIO();
+  if (io) {
+    broadcastModerationReport(io, {
+      targetType: 'comment',
+      targetId: comment._id.toString(),
+      excerpt: String(comment.content).slice(0, 200),
+      threadId: comment.thread?.toString(),
+      reason,
+      reportedBy: userId.toString(),
+      reportCount: comment.reports.length,
+      reportedAt: new Date()
+    });
+  }
 
   res.status(StatusCodes.OK).json({
     success: true,
@@ -464,20 +574,20 @@ export const getCommentReplies = asyncHandler(async (req: Request, res: Response
       sortObj = { score: -1, createdAt: -1 };
   }
 
-  const replies = await Comment.find({ 
-    parentComment: id, 
-    isDeleted: false 
-  })
+  const filter = {
+    parentComment: id,
+    isDeleted: false,
+    ...await sanctionService.visibilityClause((req as any).user?._id?.toString())
+  };
+
+  const replies = await Comment.find(filter)
     .populate('author', 'name avatar stats')
     .sort(sortObj)
     .skip(skip)
     .limit(Number(limit))
     .lean();
 
-  const total = await Comment.countDocuments({ 
-    parentComment: id, 
-    isDeleted: false 
-  });
+  const total = await Comment.countDocuments(filter);
 
   res.status(StatusCodes.OK).json({
     success: true,
@@ -516,21 +626,19 @@ export const resolveReport = asyncHandler(async (req: Request, res: Response) =>
   if (!comment) {
     return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Comment not found' });
   }
-  comment.reports = comment.reports.map((r: any) => ({ ...r, status: action }));
+  comment.reports = comment.reports.map((r: any) => ({ ...r, status: action === 'dismiss' ? 'dismissed' : 'resolved' }));
   await comment.save();
+  await moderationService.closeForTarget('comment', id, 'report', (req as any).user._id.toString(), action === 'dismiss' ? 'dismiss' : 'resolve');
   res.status(StatusCodes.OK).json({ success: true });
 });
 
 // Admin: Hide (soft delete) a comment
 export const adminHideComment = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const comment = await Comment.findById(id);
-  if (!comment || comment.isDeleted) {
+  const comment = await moderationService.hideComment(id);
+  if (!comment) {
     return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Comment not found' });
   }
-  comment.isDeleted = true;
-  comment.deletedAt = new Date();
-  await comment.save();
-  await Thread.findByIdAndUpdate(comment.thread, { $inc: { commentCount: -1 } });
+  await moderationService.closeForTarget('comment', id, 'report', (req as any).user._id.toString(), 'remove');
   res.status(StatusCodes.OK).json({ success: true });
 });
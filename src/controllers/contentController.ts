@@ -5,7 +5,9 @@ import { redisClient } from '../utils/redis';
 import { logger } from '../utils/logger';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
-import { searchContent as esSearchContent, indexDocument as esIndexDocument, deleteDocument as esDeleteDocument } from '../utils/elasticsearch';
+import { moderationService } from '../services/moderationService';
+import { permissionService } from '../services/permissionService';
+import { searchContent as esSearchContent } from '../utils/elasticsearch';
 
 // Get all content with pagination and filters
 export const getContent = asyncHandler(async (req: Request, res: Response) => {
@@ -123,33 +125,18 @@ export const createContent = asyncHandler(async (req: Request, res: Response) =>
   });
 
   await newContent.save();
+  await moderationService.enqueueApproval('content', {
+    _id: newContent._id,
+    title: newContent.title,
+    excerpt: newContent.content,
+    author: newContent.contributor
+  });
 
   // Update user stats
   await User.findByIdAndUpdate(contributor, { 
     $inc: { 'stats.contentSubmitted': 1 } 
   });
 
-  // Index in Elasticsearch
-  try {
-    await esIndexDocument('content', newContent._id.toString(), {
-      title: newContent.title,
-      content: newContent.content,
-      type: newContent.type,
-      category: newContent.category,
-      tags: newContent.tags,
-      status: newContent.status,
-      publishedAt: newContent.publishedAt,
-      createdAt: newContent.createdAt,
-      contributor: {
-        id: contributor,
-        name: (req as any).user.name,
-        email: (req as any).user.email
-      }
-    });
-  } catch (error) {
-    logger.error('Error indexing content in Elasticsearch:', error);
-  }
-
   res.status(StatusCodes.CREATED).json({
     success: true,
     data: newContent
@@ -171,9 +158,9 @@ export const updateContent = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  // Check if user owns the content or is admin/moderator
+  // Check if user owns the content or may edit anyone's
   if (existingContent.contributor.toString() !== userId && 
-      !['admin', 'moderator'].includes((req as any).user.role)) {
+      !(await permissionService.userCan((req as any).user, 'content.edit_any'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'You can only update your own content'
@@ -194,6 +181,14 @@ export const updateContent = asyncHandler(async (req: Request, res: Response) =>
     { new: true }
   ).populate('contributor', 'name email avatar');
 
+  // Edits go back through review
+  await moderationService.enqueueApproval('content', {
+    _id: updatedContent._id,
+    title: updatedContent.title,
+    excerpt: updatedContent.content,
+    author: existingContent.contributor
+  });
+
   // Clear cache
   await redisClient.del(`content:${id}`);
 
@@ -217,9 +212,9 @@ export const deleteContent = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  // Check if user owns the content or is admin
+  // Check if user owns the content or may delete anyone's
   if (content.contributor.toString() !== userId && 
-      (req as any).user.role !== 'admin') {
+      !(await permissionService.userCan((req as any).user, 'content.delete_any'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'You can only delete your own content'
@@ -233,13 +228,6 @@ export const deleteContent = asyncHandler(async (req: Request, res: Response) =>
     $inc: { 'stats.contentSubmitted': -1 } 
   });
 
-  // Remove from Elasticsearch
-  try {
-    await esDeleteDocument('content', id);
-  } catch (error) {
-    logger.error('Error removing content from Elasticsearch:', error);
-  }
-
   // Clear cache
   await redisClient.del(`content:${id}`);
 
@@ -252,32 +240,18 @@ export const deleteContent = asyncHandler(async (req: Request, res: Response) =>
 // Approve content (admin/moderator only)
 export const approveContent = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
+  const moderatorId = (req as any).user._id.toString();
 
-  const content = await Content.findById(id);
-  
-  if (!content) {
+  const updatedContent = await moderationService.approveContent(id, moderatorId);
+
+  if (!updatedContent) {
     return res.status(StatusCodes.NOT_FOUND).json({
       success: false,
       message: 'Content not found'
     });
   }
 
-  const updatedContent = await Content.findByIdAndUpdate(
-    id,
-    { 
-      status: 'approved',
-      publishedAt: new Date()
-    },
-    { new: true }
-  ).populate('contributor', 'name email avatar');
-
-  // Update user stats
-  await User.findByIdAndUpdate(content.contributor, { 
-    $inc: { 'stats.contentApproved': 1 } 
-  });
-
-  // Clear cache
-  await redisClient.del(`content:${id}`);
+  await moderationService.closeForTarget('content', id, 'approval', moderatorId, 'approve');
 
   res.status(StatusCodes.OK).json({
     success: true,
@@ -289,27 +263,18 @@ export const approveContent = asyncHandler(async (req: Request, res: Response) =
 export const rejectContent = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { reason } = req.body;
+  const moderatorId = (req as any).user._id.toString();
 
-  const content = await Content.findById(id);
-  
-  if (!content) {
+  const updatedContent = await moderationService.rejectContent(id, moderatorId, reason);
+
+  if (!updatedContent) {
     return res.status(StatusCodes.NOT_FOUND).json({
       success: false,
       message: 'Content not found'
     });
   }
 
-  const updatedContent = await Content.findByIdAndUpdate(
-    id,
-    { 
-      status: 'rejected',
-      rejectionReason: reason
-    },
-    { new: true }
-  ).populate('contributor', 'name email avatar');
-
-  // Clear cache
-  await redisClient.del(`content:${id}`);
+  await moderationService.closeForTarget('content', id, 'approval', moderatorId, 'reject', { reason });
 
   res.status(StatusCodes.OK).json({
     success: true,
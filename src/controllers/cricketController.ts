@@ -4,9 +4,10 @@ import { redisClient } from '../utils/redis';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
 import { sportsmonksService } from '../services/sportsmonksService';
-import { cricketApiService } from '../services/cricketApiService';
-import { transformSportsMonksMatchToFrontend } from '../utils/sportsmonksTransformers';
-import { transformApiMatchToFrontend } from '../utils/matchTransformers';
+import { providerRegistry } from '../services/providerRegistry';
+import { ballEventService } from '../services/ballEventService';
+import { scorecardService } from '../services/scorecardService';
+import { NormalizedMatch } from '../services/sportsDataProvider';
 import { logger } from '../utils/logger';
 
 // Get all cricket matches with pagination and filters
@@ -74,419 +75,173 @@ export const getCricketMatches = asyncHandler(async (req: Request, res: Response
   });
 });
 
-// Get live cricket matches
-export const getLiveCricketMatches = asyncHandler(async (req: Request, res: Response) => {
-  try {
-    // Try to get from cache first
-    const cachedData = await redisClient.get('live_cricket_matches');
-    
-    if (cachedData) {
-      return res.status(StatusCodes.OK).json({
-        success: true,
-        data: JSON.parse(cachedData)
-      });
-    }
+// Apply the list filters shared by fixtures and results, then paginate
+const filterAndPaginate = (matches: NormalizedMatch[], query: any, sortDirection: 1 | -1) => {
+  const { page = 1, limit = 20, format, series, startDate, endDate } = query;
+  let filtered = matches;
 
-    logger.info('Fetching live cricket matches from SportsMonks...');
-    
-    try {
-      // Try SportsMonks first
-      const apiMatches = await sportsmonksService.getLiveMatches('cricket');
-      
-      // Transform API response to frontend format
-      const transformedMatches = apiMatches.map((match: any) => 
-        transformSportsMonksMatchToFrontend(match, 'cricket')
-      );
-      
-      // Filter only live matches
-      const liveMatches = transformedMatches.filter(match => 
-        match.status === 'live'
-      );
-      
-      logger.info(`Received ${liveMatches.length} live cricket matches from SportsMonks`);
-      
-      // Cache duration: 30 seconds in development, 15 minutes in production
-      const cacheDuration = process.env.NODE_ENV === 'production' ? 900 : 30;
-      await redisClient.set('live_cricket_matches', JSON.stringify(liveMatches), cacheDuration);
-
-      res.status(StatusCodes.OK).json({
-        success: true,
-        data: liveMatches
-      });
-    } catch (sportsmonksError: any) {
-      // If SportsMonks fails (403 = plan doesn't include cricket), fallback to Cricket Data API
-      if (sportsmonksError.response?.status === 403) {
-        logger.warn('SportsMonks cricket not available (403), falling back to Cricket Data API');
-        
-        try {
-          const cricketDataMatches = await cricketApiService.getLiveMatches();
-          const transformedMatches = cricketDataMatches.map(transformApiMatchToFrontend);
-          const liveMatches = transformedMatches.filter(match => 
-            match.status === 'live' || (match.matchStarted && !match.matchEnded)
-          );
-          
-          const cacheDuration = process.env.NODE_ENV === 'production' ? 900 : 30;
-          await redisClient.set('live_cricket_matches', JSON.stringify(liveMatches), cacheDuration);
-          
-          res.status(StatusCodes.OK).json({
-            success: true,
-            data: liveMatches,
-            source: 'cricket_data_api'
-          });
-        } catch (cricketDataError: any) {
-          logger.error('Both SportsMonks and Cricket Data API failed, using database fallback');
-          throw cricketDataError; // Will be caught by outer catch
-        }
-      } else {
-        throw sportsmonksError; // Re-throw if not a 403
-      }
-    }
-  } catch (error: any) {
-    logger.error('Error fetching live cricket matches:', {
-      message: error.message,
-      response: error.response?.data,
-      status: error.response?.status,
-    });
-    
-    // Final fallback to database
-    const dbMatches = await CricketMatch.find({ status: 'live' })
-      .sort({ startTime: -1 })
-      .lean();
-    
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: dbMatches,
-      warning: 'Using database fallback - APIs unavailable',
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+  if (format) {
+    filtered = filtered.filter(m => m.format === format);
+  }
+
+  if (series) {
+    const seriesRegex = new RegExp(series as string, 'i');
+    filtered = filtered.filter(m => m.series && seriesRegex.test(m.series));
+  }
+
+  if (startDate || endDate) {
+    filtered = filtered.filter(m => {
+      const matchDate = new Date(m.startTime);
+      if (startDate && matchDate < new Date(startDate as string)) return false;
+      if (endDate && matchDate > new Date(endDate as string)) return false;
+      return true;
     });
   }
-});
 
-// Get cricket fixtures (upcoming matches)
-export const getCricketFixtures = asyncHandler(async (req: Request, res: Response) => {
-  const { 
-    page = 1, 
-    limit = 20, 
-    format, 
-    series, 
-    startDate, 
-    endDate 
-  } = req.query;
+  filtered = [...filtered].sort((a, b) =>
+    sortDirection * (new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+  );
 
-  try {
-    // Try to get from cache first
-    const cacheKey = `cricket_fixtures:${JSON.stringify(req.query)}`;
-    const cachedData = await redisClient.get(cacheKey);
-    
-    if (cachedData) {
-      return res.status(StatusCodes.OK).json({
-        success: true,
-        data: JSON.parse(cachedData)
-      });
+  const skip = (Number(page) - 1) * Number(limit);
+  const total = filtered.length;
+
+  return {
+    items: filtered.slice(skip, skip + Number(limit)),
+    pagination: {
+      current: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      total,
+      limit: Number(limit)
     }
+  };
+};
 
-    logger.info('Fetching upcoming cricket matches from SportsMonks...');
-    
-    // Fetch from SportsMonks API
-    const apiMatches = await sportsmonksService.getUpcomingMatches('cricket');
-    
-    // Transform API response to frontend format
-    const transformedMatches = apiMatches.map((match: any) => 
-      transformSportsMonksMatchToFrontend(match, 'cricket')
-    );
-    
-    // Filter only upcoming matches
-    // The transformer sets status based on matchStarted/matchEnded, but we also check dates
-    const now = new Date();
-    const upcomingMatches = transformedMatches.filter(match => {
-      const matchDate = new Date(match.startTime);
-      return match.status === 'upcoming' || 
-             (!match.matchStarted && !match.matchEnded && matchDate > now);
-    });
+const DATABASE_WARNING = 'Using database fallback - APIs unavailable';
 
-    // Apply filters if provided
-    let filteredMatches = upcomingMatches;
-    
-    if (format) {
-      filteredMatches = filteredMatches.filter(m => m.format === format);
-    }
-    
-    if (series) {
-      const seriesRegex = new RegExp(series as string, 'i');
-      filteredMatches = filteredMatches.filter(m => 
-        m.series && seriesRegex.test(m.series)
-      );
-    }
-    
-    if (startDate || endDate) {
-      filteredMatches = filteredMatches.filter(m => {
-        const matchDate = new Date(m.startTime);
-        if (startDate && matchDate < new Date(startDate as string)) return false;
-        if (endDate && matchDate > new Date(endDate as string)) return false;
-        return true;
-      });
-    }
+// Get live cricket matches
+export const getLiveCricketMatches = asyncHandler(async (req: Request, res: Response) => {
+  // Try to get from cache first
+  const cachedData = await redisClient.get('live_cricket_matches:normalized');
 
-    // Sort by start time (ascending - earliest first)
-    filteredMatches.sort((a, b) => 
-      new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-    );
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
+  }
 
-    // Apply pagination
-    const skip = (Number(page) - 1) * Number(limit);
-    const paginatedMatches = filteredMatches.slice(skip, skip + Number(limit));
-    const total = filteredMatches.length;
-
-    const result = {
-      fixtures: paginatedMatches,
-      pagination: {
-        current: Number(page),
-        pages: Math.ceil(total / Number(limit)),
-        total,
-        limit: Number(limit)
-      }
-    };
+  const { data, source } = await providerRegistry.execute('cricket', provider => provider.fetchLive('cricket'));
+  logger.info(`Received ${data.length} live cricket matches from ${source}`);
 
-    // Cache duration: 15 minutes in production, 5 minutes in development
-    const cacheDuration = process.env.NODE_ENV === 'production' ? 900 : 300;
-    await redisClient.set(cacheKey, JSON.stringify(result), cacheDuration);
+  // Database results are not cached so the next request retries the APIs
+  if (source !== 'database') {
+    // Cache duration: 30 seconds in development, 15 minutes in production
+    const cacheDuration = process.env.NODE_ENV === 'production' ? 900 : 30;
+    await redisClient.set('live_cricket_matches:normalized', JSON.stringify({ data, source }), cacheDuration);
+  }
 
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: result
-    });
-  } catch (error: any) {
-    logger.error('Error fetching fixtures from API:', error);
-    
-    // Log the error details for debugging
-    if (error.response) {
-      logger.error('API Error Response:', {
-        status: error.response.status,
-        data: error.response.data,
-        url: error.config?.url
-      });
-    }
-    
-    // Fallback to database if API fails
-    const skip = (Number(page) - 1) * Number(limit);
-    
-    const filter: any = { status: 'upcoming' };
-    
-    if (format) filter.format = format;
-    if (series) filter.series = new RegExp(series as string, 'i');
-    
-    if (startDate || endDate) {
-      filter.startTime = {};
-      if (startDate) filter.startTime.$gte = new Date(startDate as string);
-      if (endDate) filter.startTime.$lte = new Date(endDate as string);
-    }
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
+  });
+});
 
-    const fixtures = await CricketMatch.find(filter)
-      .sort({ startTime: 1 })
-      .skip(skip)
-      .limit(Number(limit))
-      .lean();
+// Get cricket fixtures (upcoming matches)
+export const getCricketFixtures = asyncHandler(async (req: Request, res: Response) => {
+  // Try to get from cache first
+  const cacheKey = `cricket_fixtures:normalized:${JSON.stringify(req.query)}`;
+  const cachedData = await redisClient.get(cacheKey);
 
-    const total = await CricketMatch.countDocuments(filter);
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
+  }
 
-    // Return empty result with error message if no data
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: {
-        fixtures: fixtures || [],
-        pagination: {
-          current: Number(page),
-          pages: Math.ceil(total / Number(limit)),
-          total: total || 0,
-          limit: Number(limit)
-        }
-      },
-      warning: 'API unavailable - using database fallback',
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined
-    });
+  const { data: matches, source } = await providerRegistry.execute('cricket', provider => provider.fetchUpcoming('cricket'));
+  const { items, pagination } = filterAndPaginate(matches, req.query, 1);
+  const result = { fixtures: items, pagination };
+
+  if (source !== 'database') {
+    // Cache duration: 15 minutes in production, 5 minutes in development
+    const cacheDuration = process.env.NODE_ENV === 'production' ? 900 : 300;
+    await redisClient.set(cacheKey, JSON.stringify({ data: result, source }), cacheDuration);
   }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: result,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
+  });
 });
 
 // Get cricket results (completed matches)
 export const getCricketResults = asyncHandler(async (req: Request, res: Response) => {
-  const { 
-    page = 1, 
-    limit = 20, 
-    format, 
-    series, 
-    startDate, 
-    endDate 
-  } = req.query;
-
-  try {
-    // Try to get from cache first
-    const cacheKey = `cricket_results:${JSON.stringify(req.query)}`;
-    const cachedData = await redisClient.get(cacheKey);
-    
-    if (cachedData) {
-      return res.status(StatusCodes.OK).json({
-        success: true,
-        data: JSON.parse(cachedData)
-      });
-    }
-
-    // Fetch from external API
-    logger.info('Fetching completed cricket matches from SportsMonks...');
-    
-    const apiMatches = await sportsmonksService.getCompletedMatches('cricket');
-    
-    // Transform API response to frontend format
-    const transformedMatches = apiMatches.map((match: any) => 
-      transformSportsMonksMatchToFrontend(match, 'cricket')
-    );
-    
-    // Filter only completed matches
-    const completedMatches = transformedMatches.filter(match => 
-      match.status === 'completed' || match.matchEnded
-    );
-
-    // Apply filters if provided
-    let filteredMatches = completedMatches;
-    
-    if (format) {
-      filteredMatches = filteredMatches.filter(m => m.format === format);
-    }
-    
-    if (series) {
-      const seriesRegex = new RegExp(series as string, 'i');
-      filteredMatches = filteredMatches.filter(m => 
-        m.series && seriesRegex.test(m.series)
-      );
-    }
-    
-    if (startDate || endDate) {
-      filteredMatches = filteredMatches.filter(m => {
-        const matchDate = new Date(m.startTime);
-        if (startDate && matchDate < new Date(startDate as string)) return false;
-        if (endDate && matchDate > new Date(endDate as string)) return false;
-        return true;
-      });
-    }
+  // Try to get from cache first
+  const cacheKey = `cricket_results:normalized:${JSON.stringify(req.query)}`;
+  const cachedData = await redisClient.get(cacheKey);
 
-    // Sort by start time (descending - most recent first)
-    filteredMatches.sort((a, b) => 
-      new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
-    );
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
+  }
 
-    // Apply pagination
-    const skip = (Number(page) - 1) * Number(limit);
-    const paginatedMatches = filteredMatches.slice(skip, skip + Number(limit));
-    const total = filteredMatches.length;
-
-    const result = {
-      results: paginatedMatches,
-      pagination: {
-        current: Number(page),
-        pages: Math.ceil(total / Number(limit)),
-        total,
-        limit: Number(limit)
-      }
-    };
+  const { data: matches, source } = await providerRegistry.execute('cricket', provider => provider.fetchCompleted('cricket'));
+  const { items, pagination } = filterAndPaginate(matches, req.query, -1);
+  const result = { results: items, pagination };
 
+  if (source !== 'database') {
     // Cache duration: 1 hour in production, 15 minutes in development
     const cacheDuration = process.env.NODE_ENV === 'production' ? 3600 : 900;
-    await redisClient.set(cacheKey, JSON.stringify(result), cacheDuration);
-
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: result
-    });
-  } catch (error: any) {
-    logger.error('Error fetching results from API:', error);
-    
-    // Fallback to database if API fails
-    const skip = (Number(page) - 1) * Number(limit);
-    
-    const filter: any = { status: 'completed' };
-    
-    if (format) filter.format = format;
-    if (series) filter.series = new RegExp(series as string, 'i');
-    
-    if (startDate || endDate) {
-      filter.startTime = {};
-      if (startDate) filter.startTime.$gte = new Date(startDate as string);
-      if (endDate) filter.startTime.$lte = new Date(endDate as string);
-    }
-
-    const results = await CricketMatch.find(filter)
-      .sort({ startTime: -1 })
-      .skip(skip)
-      .limit(Number(limit))
-      .lean();
-
-    const total = await CricketMatch.countDocuments(filter);
-
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: {
-        results: results || [],
-        pagination: {
-          current: Number(page),
-          pages: Math.ceil(total / Number(limit)),
-          total: total || 0,
-          limit: Number(limit)
-        }
-      },
-      warning: 'API unavailable - using database fallback'
-    });
+    await redisClient.set(cacheKey, JSON.stringify({ data: result, source }), cacheDuration);
   }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: result,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
+  });
 });
 
 // Get cricket match by ID
 export const getCricketMatchById = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
 
-  try {
-    // Try to get from cache first
-    const cacheKey = `cricket_match:${id}`;
-    const cachedData = await redisClient.get(cacheKey);
-    
-    if (cachedData) {
-      return res.status(StatusCodes.OK).json({
-        success: true,
-        data: JSON.parse(cachedData)
-      });
-    }
-
-    // Fetch from external API
-    logger.info(`Fetching cricket match details from SportsMonks for ${id}...`);
-    
-    const apiMatch = await sportsmonksService.getMatchDetails(id, 'cricket');
-    
-    // Transform API response to frontend format
-    const transformedMatch = transformSportsMonksMatchToFrontend(apiMatch, 'cricket');
+  // Try to get from cache first
+  const cacheKey = `cricket_match:normalized:${id}`;
+  const cachedData = await redisClient.get(cacheKey);
 
-    // Cache for 1 minute (live matches change frequently)
-    await redisClient.set(cacheKey, JSON.stringify(transformedMatch), 60);
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
+  }
 
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: transformedMatch
+  // A provider that does not know the match falls through to the next one
+  const { data: match, source } = await providerRegistry.execute(
+    'cricket',
+    provider => provider.fetchMatch(id, 'cricket'),
+    { accept: found => !!found }
+  );
+
+  if (!match) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Cricket match not found'
     });
-  } catch (error: any) {
-    logger.error(`Error fetching match details for ${id}:`, error);
-    
-    // Fallback to database
-    const match = await CricketMatch.findById(id).lean();
-
-    if (!match) {
-      return res.status(StatusCodes.NOT_FOUND).json({
-        success: false,
-        message: 'Cricket match not found'
-      });
-    }
+  }
 
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: match,
-      warning: 'Using database fallback - API unavailable'
-    });
+  if (source !== 'database') {
+    // Cache for 1 minute (live matches change frequently)
+    await redisClient.set(cacheKey, JSON.stringify({ data: match, source }), 60);
   }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: match,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
+  });
 });
 
 // Get cricket match commentary
@@ -510,6 +265,11 @@ export const getCricketMatchCommentary = asyncHandler(async (req: Request, res:
     
     const commentary = await sportsmonksService.getCommentary(id, 'cricket');
 
+    // Keep the ball-by-ball store current while clients follow the commentary
+    ballEventService.ingestCommentary(id, commentary).catch(error =>
+      logger.warn(`Failed to store ball events for ${id}:`, error.message)
+    );
+
     // Cache for 30 seconds (commentary updates frequently)
     await redisClient.set(cacheKey, JSON.stringify(commentary), 30);
 
@@ -528,6 +288,73 @@ export const getCricketMatchCommentary = asyncHandler(async (req: Request, res:
   }
 });
 
+// Get batting and bowling cards per innings for a cricket match
+export const getCricketMatchScorecard = asyncHandler(async (req: Request, res: Response) => {
+  const matchId = await ballEventService.resolveMatchId(req.params.id);
+  const scorecard = await scorecardService.getScorecard(matchId);
+
+  if (!scorecard) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Scorecard not available for this match'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: scorecard
+  });
+});
+
+// Get over-by-over summaries for a cricket match
+export const getCricketMatchOvers = asyncHandler(async (req: Request, res: Response) => {
+  const matchId = await ballEventService.resolveMatchId(req.params.id);
+  const innings = req.query.innings ? Number(req.query.innings) : undefined;
+
+  const timeline = await ballEventService.getTimeline(matchId);
+  const data = timeline
+    .filter(entry => !innings || entry.innings === innings)
+    .map(({ innings, battingTeam, overs }) => ({ innings, battingTeam, overs }));
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data
+  });
+});
+
+// Get manhattan and worm chart series for a cricket match
+export const getCricketMatchCharts = asyncHandler(async (req: Request, res: Response) => {
+  const matchId = await ballEventService.resolveMatchId(req.params.id);
+  const data = await ballEventService.getChartSeries(matchId);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data
+  });
+});
+
+// Get partnership breakdowns for a cricket match
+export const getCricketMatchPartnerships = asyncHandler(async (req: Request, res: Response) => {
+  const matchId = await ballEventService.resolveMatchId(req.params.id);
+  const timeline = await ballEventService.getTimeline(matchId);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: timeline.map(({ innings, battingTeam, partnerships }) => ({ innings, battingTeam, partnerships }))
+  });
+});
+
+// Get fall of wickets for a cricket match
+export const getCricketMatchFallOfWickets = asyncHandler(async (req: Request, res: Response) => {
+  const matchId = await ballEventService.resolveMatchId(req.params.id);
+  const timeline = await ballEventService.getTimeline(matchId);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: timeline.map(({ innings, battingTeam, fallOfWickets }) => ({ innings, battingTeam, fallOfWickets }))
+  });
+});
+
 // Get cricket series
 export const getCricketSeries = asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 20 } = req.query;
@@ -3,8 +3,9 @@ import { FootballMatch } from '../models/FootballMatch';
 import { redisClient } from '../utils/redis';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
-import { sportsmonksService } from '../services/sportsmonksService';
-import { transformSportsMonksMatchToFrontend } from '../utils/sportsmonksTransformers';
+import { providerRegistry } from '../services/providerRegistry';
+import { standingsService } from '../services/standingsService';
+import { NormalizedMatch } from '../services/sportsDataProvider';
 import { logger } from '../utils/logger';
 
 // Get all football matches with pagination and filters
@@ -72,226 +73,131 @@ export const getFootballMatches = asyncHandler(async (req: Request, res: Respons
   });
 });
 
+// Apply the list filters shared by fixtures and results, then paginate
+const filterAndPaginate = (matches: NormalizedMatch[], query: any, sortDirection: 1 | -1) => {
+  const { page = 1, limit = 20, league, season, startDate, endDate } = query;
+  let filtered = matches;
+
+  if (league) {
+    const leagueRegex = new RegExp(league as string, 'i');
+    filtered = filtered.filter(m => m.league && leagueRegex.test(m.league));
+  }
+
+  if (season) {
+    filtered = filtered.filter(m => m.season === season);
+  }
+
+  if (startDate || endDate) {
+    filtered = filtered.filter(m => {
+      const matchDate = new Date(m.startTime);
+      if (startDate && matchDate < new Date(startDate as string)) return false;
+      if (endDate && matchDate > new Date(endDate as string)) return false;
+      return true;
+    });
+  }
+
+  filtered = [...filtered].sort((a, b) =>
+    sortDirection * (new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+  );
+
+  const skip = (Number(page) - 1) * Number(limit);
+  const total = filtered.length;
+
+  return {
+    items: filtered.slice(skip, skip + Number(limit)),
+    pagination: {
+      current: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      total,
+      limit: Number(limit)
+    }
+  };
+};
+
+const DATABASE_WARNING = 'Using database fallback - APIs unavailable';
+
 // Get live football matches
 export const getLiveFootballMatches = asyncHandler(async (req: Request, res: Response) => {
-  try {
-    // Try to get from cache first
-    const cachedData = await redisClient.get('live_football_matches');
-    
-    if (cachedData) {
-      return res.status(StatusCodes.OK).json({
-        success: true,
-        data: JSON.parse(cachedData)
-      });
-    }
+  // Try to get from cache first
+  const cachedData = await redisClient.get('live_football_matches:normalized');
+
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
+  }
+
+  const { data, source } = await providerRegistry.execute('football', provider => provider.fetchLive('football'));
+  logger.info(`Received ${data.length} live football matches from ${source}`);
 
-    logger.info('Fetching live football matches from SportsMonks...');
-    
-    // Fetch from SportsMonks API
-    const apiMatches = await sportsmonksService.getLiveMatches('football');
-    
-    // Transform API response to frontend format
-    const transformedMatches = apiMatches.map((match: any) => 
-      transformSportsMonksMatchToFrontend(match, 'football')
-    );
-    
-    // Filter only live matches
-    const liveMatches = transformedMatches.filter(match => 
-      match.status === 'live'
-    );
-    
-    logger.info(`Received ${liveMatches.length} live football matches from SportsMonks`);
-    
+  // Database results are not cached so the next request retries the APIs
+  if (source !== 'database') {
     // Cache for 30 seconds
     const cacheDuration = process.env.NODE_ENV === 'production' ? 900 : 30;
-    await redisClient.set('live_football_matches', JSON.stringify(liveMatches), cacheDuration);
-
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: liveMatches
-    });
-  } catch (error: any) {
-    logger.error('Error fetching live football matches from SportsMonks:', {
-      message: error.message,
-      response: error.response?.data,
-      status: error.response?.status,
-    });
-    
-    // Fallback to database if API fails
-    const dbMatches = await FootballMatch.find({ status: 'live' })
-      .sort({ startTime: -1 })
-      .lean();
-    
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: dbMatches,
-      warning: 'Using database fallback - SportsMonks API unavailable',
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined
-    });
+    await redisClient.set('live_football_matches:normalized', JSON.stringify({ data, source }), cacheDuration);
   }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
+  });
 });
 
 // Get football fixtures (upcoming matches)
 export const getFootballFixtures = asyncHandler(async (req: Request, res: Response) => {
-  const { 
-    page = 1, 
-    limit = 20, 
-    league, 
-    season, 
-    startDate, 
-    endDate 
-  } = req.query;
+  // Try to get from cache first
+  const cacheKey = `football_fixtures:normalized:${JSON.stringify(req.query)}`;
+  const cachedData = await redisClient.get(cacheKey);
 
-  const skip = (Number(page) - 1) * Number(limit);
-  
-  const filter: any = { status: 'scheduled' };
-  
-  if (league) filter.league = new RegExp(league as string, 'i');
-  if (season) filter.season = season;
-  
-  if (startDate || endDate) {
-    filter.startTime = {};
-    if (startDate) filter.startTime.$gte = new Date(startDate as string);
-    if (endDate) filter.startTime.$lte = new Date(endDate as string);
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
   }
 
-  const fixtures = await FootballMatch.find(filter)
-    .sort({ startTime: 1 })
-    .skip(skip)
-    .limit(Number(limit))
-    .lean();
+  const { data: matches, source } = await providerRegistry.execute('football', provider => provider.fetchUpcoming('football'));
+  const { items, pagination } = filterAndPaginate(matches, req.query, 1);
+  const result = { fixtures: items, pagination };
 
-  const total = await FootballMatch.countDocuments(filter);
+  if (source !== 'database') {
+    // Cache for 15 minutes
+    await redisClient.set(cacheKey, JSON.stringify({ data: result, source }), 900);
+  }
 
   res.status(StatusCodes.OK).json({
     success: true,
-    data: {
-      fixtures,
-      pagination: {
-        current: Number(page),
-        pages: Math.ceil(total / Number(limit)),
-        total,
-        limit: Number(limit)
-      }
-    }
+    data: result,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
   });
 });
 
 // Get football results (completed matches)
 export const getFootballResults = asyncHandler(async (req: Request, res: Response) => {
-  try {
-    const { 
-      page = 1, 
-      limit = 20
-    } = req.query;
-
-    // Try to get from cache first
-    const cacheKey = `football_results:${page}:${limit}`;
-    const cachedData = await redisClient.get(cacheKey);
-    
-    if (cachedData) {
-      return res.status(StatusCodes.OK).json({
-        success: true,
-        data: JSON.parse(cachedData)
-      });
-    }
+  // Try to get from cache first
+  const cacheKey = `football_results:normalized:${JSON.stringify(req.query)}`;
+  const cachedData = await redisClient.get(cacheKey);
 
-    logger.info('Fetching completed football matches from SportsMonks...');
-    
-    // Fetch from SportsMonks API
-    const apiMatches = await sportsmonksService.getCompletedMatches('football');
-    
-    // Transform API response to frontend format
-    const transformedMatches = apiMatches.map((match: any) => 
-      transformSportsMonksMatchToFrontend(match, 'football')
-    );
-    
-    // Sort by start time (most recent first) - show all available matches
-    // For production: Show matches from last 2 years to ensure we have data
-    const twoYearsAgo = new Date();
-    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-    
-    const recentMatches = transformedMatches.filter((match: any) => {
-      if (!match.startTime) return false;
-      const matchDate = new Date(match.startTime);
-      // Include matches from the last 2 years
-      return matchDate >= twoYearsAgo;
-    });
-    
-    recentMatches.sort((a: any, b: any) => {
-      const dateA = new Date(a.startTime || 0).getTime();
-      const dateB = new Date(b.startTime || 0).getTime();
-      return dateB - dateA; // Most recent first
-    });
+  if (cachedData) {
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
+  }
 
-    // Paginate
-    const skip = (Number(page) - 1) * Number(limit);
-    const paginatedResults = recentMatches.slice(skip, skip + Number(limit));
-
-    const result = {
-      results: paginatedResults,
-      pagination: {
-        current: Number(page),
-        pages: Math.ceil(recentMatches.length / Number(limit)),
-        total: recentMatches.length,
-        limit: Number(limit)
-      }
-    };
+  const { data: matches, source } = await providerRegistry.execute('football', provider => provider.fetchCompleted('football'));
+  const { items, pagination } = filterAndPaginate(matches, req.query, -1);
+  const result = { results: items, pagination };
 
+  if (source !== 'database') {
     // Cache for 1 hour
-    await redisClient.set(cacheKey, JSON.stringify(result), 3600);
-
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: result
-    });
-  } catch (error: any) {
-    logger.error('SportsMonks Football API failed, falling back to database:', error);
-    
-    // Fallback to database
-    const { 
-      page = 1, 
-      limit = 20, 
-      league, 
-      season, 
-      startDate, 
-      endDate 
-    } = req.query;
-
-    const skip = (Number(page) - 1) * Number(limit);
-    
-    const filter: any = { status: 'finished' };
-    
-    if (league) filter.league = new RegExp(league as string, 'i');
-    if (season) filter.season = season;
-    
-    if (startDate || endDate) {
-      filter.startTime = {};
-      if (startDate) filter.startTime.$gte = new Date(startDate as string);
-      if (endDate) filter.startTime.$lte = new Date(endDate as string);
-    }
-
-    const results = await FootballMatch.find(filter)
-      .sort({ startTime: -1 })
-      .skip(skip)
-      .limit(Number(limit))
-      .lean();
-
-    const total = await FootballMatch.countDocuments(filter);
-
-    res.status(StatusCodes.OK).json({
-      success: true,
-      data: {
-        results,
-        pagination: {
-          current: Number(page),
-          pages: Math.ceil(total / Number(limit)),
-          total,
-          limit: Number(limit)
-        }
-      }
-    });
+    await redisClient.set(cacheKey, JSON.stringify({ data: result, source }), 3600);
   }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: result,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
+  });
 });
 
 // Get football match by ID
@@ -299,16 +205,20 @@ export const getFootballMatchById = asyncHandler(async (req: Request, res: Respo
   const { id } = req.params;
 
   // Try to get from cache first
-  const cachedData = await redisClient.get(`football_match:${id}`);
-  
+  const cacheKey = `football_match:normalized:${id}`;
+  const cachedData = await redisClient.get(cacheKey);
+
   if (cachedData) {
-    return res.status(StatusCodes.OK).json({
-      success: true,
-      data: JSON.parse(cachedData)
-    });
+    const { data, source } = JSON.parse(cachedData);
+    return res.status(StatusCodes.OK).json({ success: true, data, source });
   }
 
-  const match = await FootballMatch.findById(id).lean();
+  // A provider that does not know the match falls through to the next one
+  const { data: match, source } = await providerRegistry.execute(
+    'football',
+    provider => provider.fetchMatch(id, 'football'),
+    { accept: found => !!found }
+  );
 
   if (!match) {
     return res.status(StatusCodes.NOT_FOUND).json({
@@ -317,12 +227,16 @@ export const getFootballMatchById = asyncHandler(async (req: Request, res: Respo
     });
   }
 
-  // Cache for 1 minute
-  await redisClient.set(`football_match:${id}`, JSON.stringify(match), 60);
+  if (source !== 'database') {
+    // Cache for 1 minute
+    await redisClient.set(cacheKey, JSON.stringify({ data: match, source }), 60);
+  }
 
   res.status(StatusCodes.OK).json({
     success: true,
-    data: match
+    data: match,
+    source,
+    warning: source === 'database' ? DATABASE_WARNING : undefined
   });
 });
 
@@ -350,6 +264,26 @@ export const getFootballLeagues = asyncHandler(async (req: Request, res: Respons
   });
 });
 
+// Get league standings computed from finished matches
+export const getFootballLeagueStandings = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { season } = req.query;
+
+  const standings = await standingsService.getStandings(id, season as string | undefined);
+
+  if (!standings) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'No finished matches found for this league'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: standings
+  });
+});
+
 // Get football teams
 export const getFootballTeams = asyncHandler(async (req: Request, res: Response) => {
   // Try to get from cache first
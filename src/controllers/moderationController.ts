@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../middleware/errorHandler';
+import { moderationService, ModerationResult } from '../services/moderationService';
+import { permissionService } from '../services/permissionService';
+
+const MODERATION_ERRORS: Record<Exclude<ModerationResult, { ok: true }>['error'], { status: number; message: string }> = {
+  not_found: { status: StatusCodes.NOT_FOUND, message: 'Moderation item not found' },
+  not_pending: { status: StatusCodes.CONFLICT, message: 'Moderation item has already been resolved' },
+  claimed: { status: StatusCodes.CONFLICT, message: 'Moderation item is claimed by another moderator' },
+  invalid_action: { status: StatusCodes.BAD_REQUEST, message: 'Action does not apply to this item' },
+  invalid_assignee: { status: StatusCodes.BAD_REQUEST, message: 'Assignee is not allowed to work the moderation queue' },
+  target_missing: { status: StatusCodes.GONE, message: 'The reported item no longer exists' }
+};
+
+const sendResult = (res: Response, result: ModerationResult) => {
+  if ('error' in result) {
+    const { status, message } = MODERATION_ERRORS[result.error];
+    return res.status(status).json({ success: false, message });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: result.item
+  });
+};
+
+// List the moderation queue (reports and pending approvals)
+export const getModerationQueue = asyncHandler(async (req: Request, res: Response) => {
+  const moderatorId = (req as any).user._id.toString();
+  const data = await moderationService.listQueue(moderatorId, req.query as any);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data
+  });
+});
+
+// Claim an item so other moderators leave it alone
+export const claimModerationItem = asyncHandler(async (req: Request, res: Response) => {
+  const result = await moderationService.claim(req.params.itemId, (req as any).user._id.toString());
+  sendResult(res, result);
+});
+
+export const releaseModerationItem = asyncHandler(async (req: Request, res: Response) => {
+  const result = await moderationService.release(req.params.itemId, (req as any).user._id.toString());
+  sendResult(res, result);
+});
+
+// Assign an item to another moderator
+export const assignModerationItem = asyncHandler(async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const canReassign = await permissionService.userCan(user, 'moderation.reassign');
+  const result = await moderationService.assign(req.params.itemId, user._id.toString(), req.body.assignee, canReassign);
+  sendResult(res, result);
+});
+
+// Approve, reject, dismiss or remove a single item
+export const actOnModerationItem = asyncHandler(async (req: Request, res: Response) => {
+  const { action, reason } = req.body;
+  const result = await moderationService.act(req.params.itemId, (req as any).user._id.toString(), action, { reason });
+  sendResult(res, result);
+});
+
+// Apply one action to many items; each item succeeds or fails on its own
+export const bulkModerationAction = asyncHandler(async (req: Request, res: Response) => {
+  const { itemIds, action, reason } = req.body;
+  const data = await moderationService.bulk(itemIds, (req as any).user._id.toString(), action, reason);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data
+  });
+});
+
+// Moderation action log, newest first
+export const getModerationLog = asyncHandler(async (req: Request, res: Response) => {
+  const { cursor, limit, moderator, targetType, targetId } = req.query as any;
+  const { actions, nextCursor, hasMore } = await moderationService.listActions({ cursor, limit, moderator, targetType, targetId });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      actions,
+      pagination: {
+        nextCursor,
+        hasMore,
+        limit: Math.min(Math.max(Number(limit) || 50, 1), 100)
+      }
+    }
+  });
+});
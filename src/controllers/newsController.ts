@@ -2,10 +2,12 @@ import { Request, Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { NewsArticle } from '../models/NewsArticle';
 import { NewsRevision } from '../models/NewsRevision';
+import { User } from '../models/User';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
-import { indexDocument as esIndexDocument, deleteDocument as esDeleteDocument, searchContent as esSearch } from '../utils/elasticsearch';
+import { moderationService } from '../services/moderationService';
+import { searchNews as esSearchNews } from '../utils/elasticsearch';
 
 function buildSlug(date: Date, rawSlug: string) {
   const yyyy = date.getUTCFullYear();
@@ -75,23 +77,6 @@ export const createArticle = asyncHandler(async (req: AuthRequest, res: Response
     note: 'create' 
   });
 
-  // Index in Elasticsearch since article is published
-  try {
-    await esIndexDocument('news_articles', article._id.toString(), {
-      id: article._id.toString(),
-      title: article.title,
-      summary: article.summary,
-      body: article.body,
-      slug: article.slug,
-      type: article.type,
-      category: article.category,
-      tags: article.tags,
-      publishedAt: article.publishedAt,
-    });
-  } catch (e) {
-    logger.warn('Failed to index news article in ES', e);
-  }
-
   res.status(StatusCodes.CREATED).json({ success: true, data: article });
 });
 
@@ -119,6 +104,7 @@ export const submitForReview = asyncHandler(async (req: Request, res: Response)
   const { id } = req.params;
   const article = await NewsArticle.findByIdAndUpdate(id, { state: 'in_review' }, { new: true });
   if (!article) return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Article not found' });
+  await moderationService.enqueueApproval('news', { _id: article._id, title: article.title, excerpt: article.summary || article.body, author: article.author });
   res.status(StatusCodes.OK).json({ success: true, data: article });
 });
 
@@ -128,6 +114,7 @@ export const scheduleArticle = asyncHandler(async (req: Request, res: Response)
   const date = scheduledAt ? new Date(scheduledAt) : null;
   const article = await NewsArticle.findByIdAndUpdate(id, { state: date ? 'scheduled' : 'draft', scheduledAt: date }, { new: true });
   if (!article) return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Article not found' });
+  await moderationService.closeForTarget('news', id, 'approval', (req as any).user._id.toString(), date ? 'approve' : 'reject', { onlyIfPending: true });
   res.status(StatusCodes.OK).json({ success: true, data: article });
 });
 
@@ -135,22 +122,7 @@ export const publishArticle = asyncHandler(async (req: Request, res: Response) =
   const { id } = req.params;
   const article = await NewsArticle.findByIdAndUpdate(id, { state: 'published', publishedAt: new Date(), scheduledAt: null }, { new: true });
   if (!article) return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Article not found' });
-
-  try {
-    await esIndexDocument('news_articles', article._id.toString(), {
-      id: article._id.toString(),
-      title: article.title,
-      summary: article.summary,
-      body: article.body,
-      slug: article.slug,
-      type: article.type,
-      category: article.category,
-      tags: article.tags,
-      publishedAt: article.publishedAt,
-    });
-  } catch (e) {
-    logger.warn('Failed to index news article in ES', e);
-  }
+  await moderationService.closeForTarget('news', id, 'approval', (req as any).user._id.toString(), 'approve', { onlyIfPending: true });
 
   res.status(StatusCodes.OK).json({ success: true, data: article });
 });
@@ -160,8 +132,6 @@ export const unpublishArticle = asyncHandler(async (req: Request, res: Response)
   const article = await NewsArticle.findByIdAndUpdate(id, { state: 'draft', publishedAt: null }, { new: true });
   if (!article) return res.status(StatusCodes.NOT_FOUND).json({ success: false, message: 'Article not found' });
 
-  try { await esDeleteDocument('news_articles', id); } catch (e) { logger.warn('Failed to delete ES doc', e); }
-
   res.status(StatusCodes.OK).json({ success: true, data: article });
 });
 
@@ -217,19 +187,57 @@ export const trending = asyncHandler(async (_req: Request, res: Response) => {
   res.status(StatusCodes.OK).json({ success: true, data: items });
 });
 
+// Faceted full-text search; facets count matches for each value with the other filters applied
 export const searchNews = asyncHandler(async (req: Request, res: Response) => {
-  const { q = '' } = req.query as any;
-  if (!q || String(q).trim().length < 2) return res.status(StatusCodes.BAD_REQUEST).json({ success: false, message: 'q required' });
+  const { q, category, type, tag, author, dateFrom, dateTo, sort = 'relevance', page = 1, limit = 20 } = req.query as any;
+  const filters = { category, type, tag, author, dateFrom, dateTo };
+  const pagination = (total: number) => ({
+    current: Number(page),
+    pages: Math.ceil(total / Number(limit)),
+    total,
+    limit: Number(limit)
+  });
+
   try {
-    const results = await esSearch(String(q), 'news_articles');
-    return res.status(StatusCodes.OK).json({ success: true, data: results });
+    const results = await esSearchNews(String(q), filters, { size: Number(limit), from: (Number(page) - 1) * Number(limit), sort });
+
+    // Author buckets hold user ids; attach names for display
+    const authorIds = results.facets.author.map((bucket) => bucket.value);
+    const authors = authorIds.length ? await User.find({ _id: { $in: authorIds } }).select('name').lean() : [];
+    const names = new Map(authors.map((a) => [a._id.toString(), a.name]));
+
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      data: {
+        articles: results.hits,
+        facets: { ...results.facets, author: results.facets.author.map((bucket) => ({ ...bucket, name: names.get(bucket.value) })) },
+        took: results.took,
+        pagination: pagination(results.total)
+      }
+    });
   } catch (e) {
+    // Without Elasticsearch there are no facets or highlights, only filtered text matches
     logger.warn('ES search fallback to Mongo', e);
-    const items = await NewsArticle.find({ $text: { $search: String(q) }, state: 'published', isDeleted: false }, { score: { $meta: 'textScore' }})
-      .sort({ score: { $meta: 'textScore' }})
-      .limit(20)
-      .lean();
-    return res.status(StatusCodes.OK).json({ success: true, data: items });
+    const filter: any = { $text: { $search: String(q) }, state: 'published', isDeleted: false };
+    if (category) filter.category = category;
+    if (type) filter.type = type;
+    if (tag) filter.tags = String(tag).toLowerCase();
+    if (author) filter.author = author;
+    if (dateFrom || dateTo) filter.publishedAt = { ...(dateFrom ? { $gte: new Date(String(dateFrom)) } : {}), ...(dateTo ? { $lte: new Date(String(dateTo)) } : {}) };
+
+    const [items, total] = await Promise.all([
+      NewsArticle.find(filter, { score: { $meta: 'textScore' }, body: 0 })
+        .populate('author', 'name avatar')
+        .sort(sort === 'newest' ? { publishedAt: -1 } : { score: { $meta: 'textScore' } })
+        .skip((Number(page) - 1) * Number(limit))
+        .limit(Number(limit))
+        .lean(),
+      NewsArticle.countDocuments(filter)
+    ]);
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      data: { articles: items, facets: null, pagination: pagination(total) }
+    });
   }
 });
 
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../middleware/errorHandler';
+import { permissionService, PERMISSIONS, RoleResult } from '../services/permissionService';
+
+const ROLE_ERRORS: Record<Exclude<RoleResult, { ok: true }>['error'], { status: number; message: string }> = {
+  not_found: { status: StatusCodes.NOT_FOUND, message: 'Role not found' },
+  system_role: { status: StatusCodes.BAD_REQUEST, message: 'Built-in roles cannot be deleted' },
+  in_use: { status: StatusCodes.CONFLICT, message: 'Role is still assigned to users' },
+  unknown_permission: { status: StatusCodes.BAD_REQUEST, message: 'Unknown permission' },
+  forbidden: { status: StatusCodes.FORBIDDEN, message: 'You cannot grant permissions you do not hold' }
+};
+
+type AssignRoleResult = Awaited<ReturnType<typeof permissionService.assignRole>>;
+
+export const ROLE_ASSIGN_ERRORS: Record<Exclude<AssignRoleResult, { ok: true }>['error'], { status: number; message: string }> = {
+  not_found: { status: StatusCodes.NOT_FOUND, message: 'User not found' },
+  unknown_role: { status: StatusCodes.BAD_REQUEST, message: 'Unknown role' },
+  last_admin: { status: StatusCodes.CONFLICT, message: 'The last admin cannot be demoted' },
+  forbidden: { status: StatusCodes.FORBIDDEN, message: 'You cannot assign or change a role with permissions you do not hold' }
+};
+
+// List roles with their permissions and how many users hold each
+export const getRoles = asyncHandler(async (req: Request, res: Response) => {
+  const roles = await permissionService.listRoles();
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: roles
+  });
+});
+
+// The permission catalogue roles are built from
+export const getPermissions = asyncHandler(async (req: Request, res: Response) => {
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description }))
+  });
+});
+
+// Create a role or replace its permissions
+export const upsertRole = asyncHandler(async (req: Request, res: Response) => {
+  const { description, permissions, requireTwoFactor } = req.body;
+  const result = await permissionService.upsertRole(req.params.name, { description, permissions, requireTwoFactor }, (req as any).user);
+
+  if ('error' in result) {
+    const { status, message } = ROLE_ERRORS[result.error];
+    return res.status(status).json({ success: false, message });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: result.role
+  });
+});
+
+export const deleteRole = asyncHandler(async (req: Request, res: Response) => {
+  const result = await permissionService.deleteRole(req.params.name);
+
+  if ('error' in result) {
+    const { status, message } = ROLE_ERRORS[result.error];
+    return res.status(status).json({ success: false, message });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Role deleted'
+  });
+});
+
+// Change a user's role
+export const assignUserRole = asyncHandler(async (req: Request, res: Response) => {
+  const result = await permissionService.assignRole(req.params.id, req.body.role, (req as any).user);
+
+  if ('error' in result) {
+    const { status, message } = ROLE_ASSIGN_ERRORS[result.error];
+    return res.status(status).json({ success: false, message });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: result.user
+  });
+});
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../middleware/errorHandler';
+import { sanctionService, SanctionResult } from '../services/sanctionService';
+import { User } from '../models/User';
+
+const SANCTION_ERRORS: Record<Exclude<SanctionResult, { ok: true }>['error'], { status: number; message: string }> = {
+  not_found: { status: StatusCodes.NOT_FOUND, message: 'Sanction not found' },
+  forbidden: { status: StatusCodes.FORBIDDEN, message: 'You are not allowed to issue or lift this sanction' },
+  invalid: { status: StatusCodes.BAD_REQUEST, message: 'Suspensions need a duration and cooldowns need a cooldown period' },
+  not_active: { status: StatusCodes.CONFLICT, message: 'Sanction is no longer active' },
+  appeal_exists: { status: StatusCodes.CONFLICT, message: 'This sanction has already been appealed' },
+  no_appeal: { status: StatusCodes.CONFLICT, message: 'There is no pending appeal for this sanction' }
+};
+
+const sendResult = (res: Response, result: SanctionResult, status: number = StatusCodes.OK) => {
+  if ('error' in result) {
+    const { status: errorStatus, message } = SANCTION_ERRORS[result.error];
+    return res.status(errorStatus).json({ success: false, message });
+  }
+
+  res.status(status).json({
+    success: true,
+    data: result.sanction
+  });
+};
+
+// Issue a sanction against a user (moderator/admin)
+export const issueSanction = asyncHandler(async (req: Request, res: Response) => {
+  const { type, reason, durationMinutes, category, cooldownSeconds } = req.body;
+  const user = await User.findById(req.params.id).select('_id').lean();
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  const result = await sanctionService.issue(req.params.id, (req as any).user, {
+    type,
+    reason,
+    durationMinutes: durationMinutes ? Number(durationMinutes) : undefined,
+    category,
+    cooldownSeconds: cooldownSeconds ? Number(cooldownSeconds) : undefined
+  });
+  sendResult(res, result, StatusCodes.CREATED);
+});
+
+export const getUserSanctions = asyncHandler(async (req: Request, res: Response) => {
+  const sanctions = await sanctionService.listForUser(req.params.id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: sanctions
+  });
+});
+
+// Lift a sanction before it expires
+export const revokeSanction = asyncHandler(async (req: Request, res: Response) => {
+  const result = await sanctionService.revoke(req.params.sanctionId, (req as any).user, req.body.reason);
+  sendResult(res, result);
+});
+
+export const getPendingAppeals = asyncHandler(async (_req: Request, res: Response) => {
+  const appeals = await sanctionService.listPendingAppeals();
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: appeals
+  });
+});
+
+export const reviewSanctionAppeal = asyncHandler(async (req: Request, res: Response) => {
+  const { accept, response } = req.body;
+  const result = await sanctionService.reviewAppeal(req.params.sanctionId, (req as any).user, accept === true || accept === 'true', response);
+  sendResult(res, result);
+});
+
+// Admin view of a user with their sanction and moderation history
+export const getUserAdminProfile = asyncHandler(async (req: Request, res: Response) => {
+  const user = await User.findById(req.params.id).select('-password').lean();
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  const history = await sanctionService.getHistory(req.params.id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      user,
+      ...history
+    }
+  });
+});
+
+// The signed-in user's own sanctions, reachable while suspended so they can appeal
+export const getMySanctions = asyncHandler(async (req: Request, res: Response) => {
+  const userId = (req as any).user._id.toString();
+  const [sanctions, active] = await Promise.all([
+    sanctionService.listForUser(userId),
+    sanctionService.getActive(userId)
+  ]);
+
+  // Shadow-bans are never disclosed to the user
+  const activeIds = new Set(active.filter((s) => s.type !== 'shadow_ban').map((s) => s._id.toString()));
+  const visible = sanctions
+    .filter((s: any) => s.type !== 'shadow_ban')
+    .map(({ issuedBy: _issuedBy, revokedBy: _revokedBy, ...s }: any) => ({ ...s, isActive: activeIds.has(s._id.toString()) }));
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: visible
+  });
+});
+
+export const appealSanction = asyncHandler(async (req: Request, res: Response) => {
+  const userId = (req as any).user._id.toString();
+  const result = await sanctionService.submitAppeal(req.params.sanctionId, userId, req.body.note);
+  sendResult(res, result, StatusCodes.CREATED);
+});
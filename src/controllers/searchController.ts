@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../middleware/errorHandler';
+import { searchService, SearchGroup } from '../services/searchService';
+
+const parseTypes = (types: unknown): SearchGroup[] | undefined =>
+  types ? (String(types).split(',').map((type) => type.trim()) as SearchGroup[]) : undefined;
+
+// Search news, threads, community content, teams, players and matches at once
+export const globalSearch = asyncHandler(async (req: Request, res: Response) => {
+  const { q, types, limit = 5 } = req.query as any;
+
+  const result = await searchService.search(String(q), { types: parseTypes(types), limit: Number(limit) });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { query: q, ...result }
+  });
+});
+
+// Typeahead completions for the search box
+export const suggest = asyncHandler(async (req: Request, res: Response) => {
+  const { q, types, limit = 8 } = req.query as any;
+
+  const result = await searchService.suggest(String(q), { types: parseTypes(types), size: Number(limit) });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { query: q, ...result }
+  });
+});
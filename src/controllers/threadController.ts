@@ -6,6 +6,15 @@ import { redisClient } from '../utils/redis';
 import { logger } from '../utils/logger';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+import { pollService } from '../services/pollService';
+import { awardService } from '../services/awardService';
+import { moderationService } from '../services/moderationService';
+import { sanctionService } from '../services/sanctionService';
+import { threadRankingService } from '../services/threadRankingService';
+import { permissionService } from '../services/permissionService';
+import { contentFilterService, AUTO_FILTER_REASON } from '../services/contentFilterService';
+import { getIO, broadcastModerationReport, broadcastPollUpdate } from '../utils/socket';
 
 // Get all threads with pagination, filtering, and sorting
 export const getThreads = asyncHandler(async (req: Request, res: Response) => {
@@ -13,7 +22,7 @@ export const getThreads = asyncHandler(async (req: Request, res: Response) => {
     page = 1, 
     limit = 20, 
     category, 
-    sort = 'hot', // hot, new, top, controversial
+    sort = 'hot', // hot, new, rising, top, controversial
     time = 'all', // all, day, week, month, year
     search,
     tags,
@@ -22,8 +31,12 @@ export const getThreads = asyncHandler(async (req: Request, res: Response) => {
 
   const skip = (Number(page) - 1) * Number(limit);
   
-  // Build filter object
-  const filter: any = { isDeleted: false };
+  // Build filter object; the visibility clause is part of the cache key, so
+  // shadow-banned viewers get their own listing that includes their posts
+  const filter: any = {
+    isDeleted: false,
+    $and: [await sanctionService.visibilityClause((req as any).user?._id?.toString())]
+  };
   
   if (category) filter.category = category;
   if (author) filter.author = author;
@@ -67,6 +80,9 @@ export const getThreads = asyncHandler(async (req: Request, res: Response) => {
     case 'top':
       sortObj = { isPinned: -1, score: -1, createdAt: -1 };
       break;
+    case 'rising':
+      sortObj = { isPinned: -1, lastActivity: -1, score: -1 };
+      break;
     case 'controversial':
       sortObj = { isPinned: -1, upvotes: -1, downvotes: -1 };
       break;
@@ -85,17 +101,43 @@ export const getThreads = asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  const threads = await Thread.find(filter)
-    .populate('author', 'name avatar stats')
-    .sort(sortObj)
-    .skip(skip)
-    .limit(Number(limit))
-    .lean();
-
-  const total = await Thread.countDocuments(filter);
+  // Plain category listings page through the precomputed rankings. Search, tag and author
+  // filters, shadow-banned viewers and rankings not computed yet sort in Mongo instead.
+  const ranking = sort === 'top' ? `top:${time}` : String(sort);
+  const isRankable = threadRankingService.isRanked(ranking) && !search && !tags && !author &&
+    (sort === 'top' || time === 'all') &&
+    !((req as any).user && await sanctionService.isShadowBanned((req as any).user._id.toString()));
+  const ranked = isRankable
+    ? await threadRankingService.page(ranking as any, category as string | undefined, skip, Number(limit))
+    : null;
+
+  let threads: any[];
+  let total: number;
+  if (ranked) {
+    // Threads removed since the last run drop out here and are gone from the next ranking
+    const found = await Thread.find({ ...filter, _id: { $in: ranked.ids } })
+      .populate('author', 'name avatar stats')
+      .lean();
+    const byId = new Map(found.map((thread) => [thread._id.toString(), thread]));
+    threads = ranked.ids.map((id) => byId.get(id)).filter(Boolean);
+    total = ranked.total;
+  } else {
+    threads = await Thread.find(filter)
+      .populate('author', 'name avatar stats')
+      .sort(sortObj)
+      .skip(skip)
+      .limit(Number(limit))
+      .lean();
+    total = await Thread.countDocuments(filter);
+  }
 
+  // Listings are cached for everyone, so polls show only what anonymous viewers may see
   const result = {
-    threads,
+    threads: threads.map(thread => ({
+      ...thread,
+      poll: pollService.present(thread.poll),
+      awardCounts: awardService.summarize(thread.awards)
+    })),
     pagination: {
       current: Number(page),
       pages: Math.ceil(total / Number(limit)),
@@ -125,13 +167,20 @@ export const getThreadById = asyncHandler(async (req: Request, res: Response) =>
     .populate('author', 'name avatar stats')
     .lean();
 
-  if (!thread || thread.isDeleted) {
+  const viewer = (req as any).user;
+  const isStaff = await permissionService.userCan(viewer, 'moderation.queue');
+
+  // Shadow-hidden and held threads are visible to their author and staff only
+  if (!thread || thread.isDeleted ||
+      ((thread.shadowHidden || thread.heldForReview) && !isStaff && (thread.author as any)?._id?.toString() !== viewer?._id?.toString())) {
     return res.status(StatusCodes.NOT_FOUND).json({
       success: false,
       message: 'Thread not found'
     });
   }
 
+  const poll = await pollService.presentForUser(thread, viewer?._id?.toString());
+
   // Get comments with sorting
   let commentSort: any = {};
   switch (sort) {
@@ -150,7 +199,8 @@ export const getThreadById = asyncHandler(async (req: Request, res: Response) =>
 
   const comments = await Comment.find({ 
     thread: id, 
-    isDeleted: false 
+    isDeleted: false,
+    ...(isStaff ? {} : await sanctionService.visibilityClause(viewer?._id?.toString()))
   })
     .populate('author', 'name avatar stats')
     .sort(commentSort)
@@ -160,7 +210,7 @@ export const getThreadById = asyncHandler(async (req: Request, res: Response) =>
   res.status(StatusCodes.OK).json({
     success: true,
     data: {
-      thread,
+      thread: { ...thread, poll, awardCounts: awardService.summarize(thread.awards) },
       comments
     }
   });
@@ -178,6 +228,32 @@ export const createThread = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
+  const posting = await sanctionService.checkPosting(userId.toString(), category);
+  if ('message' in posting) {
+    // Cooldowns are rate limits; mutes are a refusal
+    if (posting.retryAfter) res.set('Retry-After', String(posting.retryAfter));
+    return res.status(posting.retryAfter ? StatusCodes.TOO_MANY_REQUESTS : StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: posting.message,
+      data: { retryAfter: posting.retryAfter, expiresAt: posting.expiresAt }
+    });
+  }
+
+  const filtered = await contentFilterService.evaluate({
+    kind: 'thread',
+    authorId: userId.toString(),
+    authorCreatedAt: (req as any).user.createdAt,
+    text: `${title}\n${content}`,
+    category
+  });
+  if (filtered.action === 'reject') {
+    return res.status(StatusCodes.UNPROCESSABLE_ENTITY).json({
+      success: false,
+      message: 'Your post was blocked by the content filter',
+      data: { reasons: filtered.verdicts.map(v => v.reason) }
+    });
+  }
+
   logger.info('Creating thread:', { title, category, userId });
 
   const thread = new Thread({
@@ -188,12 +264,20 @@ export const createThread = asyncHandler(async (req: Request, res: Response) =>
     tags: tags || [],
     flair,
     media,
-    poll
+    poll,
+    shadowHidden: posting.shadowHidden,
+    heldForReview: filtered.action === 'hold'
   });
 
   await thread.save();
   logger.info('Thread saved:', { threadId: thread._id, title: thread.title });
 
+  if (filtered.action === 'hold') {
+    await moderationService.enqueueApproval('thread', { _id: thread._id, title: thread.title, excerpt: thread.content, author: userId });
+  } else if (filtered.action === 'flag') {
+    await moderationService.enqueueReport('thread', thread, AUTO_FILTER_REASON);
+  }
+
   // Populate author info
   await thread.populate('author', 'name avatar stats');
 
@@ -208,9 +292,19 @@ export const createThread = asyncHandler(async (req: Request, res: Response) =>
     logger.warn('Could not clear thread cache:', e);
   }
 
+  // Shadow-hidden and held posts must not announce themselves
+  if (!posting.shadowHidden && !thread.heldForReview) {
+    await notificationService.notifyFollowersOfPost((req as any).user, {
+      kind: 'thread',
+      id: thread._id.toString(),
+      title: thread.title,
+      link: `/threads/${thread._id}`
+    });
+  }
+
   res.status(StatusCodes.CREATED).json({
     success: true,
-    message: 'Thread created successfully',
+    message: thread.heldForReview ? 'Thread submitted and held for review' : 'Thread created successfully',
     data: thread
   });
 });
@@ -230,8 +324,8 @@ export const updateThread = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  // Check if user is author or moderator
-  if (thread.author.toString() !== userId.toString() && !(req as any).user.isAdmin()) {
+  // Check if user is author or may edit any thread
+  if (thread.author.toString() !== userId.toString() && !(await permissionService.userCan((req as any).user, 'thread.edit_any'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'Not authorized to edit this thread'
@@ -286,8 +380,8 @@ export const deleteThread = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  // Check if user is author or admin
-  if (thread.author.toString() !== userId.toString() && !(req as any).user.isAdmin()) {
+  // Check if user is author or may delete any thread
+  if (thread.author.toString() !== userId.toString() && !(await permissionService.userCan((req as any).user, 'thread.delete_any'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'Not authorized to delete this thread'
@@ -379,6 +473,11 @@ export const voteThread = asyncHandler(async (req: Request, res: Response) => {
 
   await thread.save();
 
+  if (voteType === 'upvote') {
+    await notificationService.notifyVoteMilestone(thread);
+    await awardService.rewardUpvote(thread.author.toString(), userId.toString(), 'thread', id);
+  }
+
   // Clear cache - delete all thread-related cache keys
   try {
     const keys = await redisClient.keys('threads:*');
@@ -400,6 +499,103 @@ export const voteThread = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+// Vote in a thread poll, or change an existing ballot before the poll expires
+export const votePoll = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { options } = req.body as { options: number[] };
+  const userId = (req as any).user._id.toString();
+
+  const thread = await Thread.findById(id).select('poll isDeleted isLocked').lean();
+
+  if (!thread || thread.isDeleted) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Thread not found'
+    });
+  }
+
+  if (!thread.poll?.question) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'This thread has no poll'
+    });
+  }
+
+  if (thread.isLocked) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: 'Thread is locked'
+    });
+  }
+
+  if (pollService.isExpired(thread.poll)) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'This poll has closed'
+    });
+  }
+
+  const selected = [...new Set(options)];
+  if (selected.some(index => index >= thread.poll!.options.length)) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'Invalid poll option'
+    });
+  }
+
+  if (!thread.poll.allowMultiple && selected.length > 1) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'This poll allows only one option'
+    });
+  }
+
+  const changed = await pollService.castBallot(id, userId, selected);
+
+  const updated = await Thread.findById(id).select('poll').lean();
+  const poll = pollService.present(updated!.poll, selected);
+
+  if (changed) {
+    const io = getIO();
+    if (io) broadcastPollUpdate(io, id, updated!.poll!, userId);
+
+    // Thread listings embed poll counts
+    try {
+      const keys = await redisClient.keys('threads:*');
+      if (keys && keys.length > 0) {
+        await Promise.all(keys.map(key => redisClient.del(key)));
+      }
+    } catch (e) {
+      logger.warn('Could not clear thread cache:', e);
+    }
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: changed ? 'Vote recorded successfully' : 'Vote unchanged',
+    data: poll
+  });
+});
+
+// Get a thread poll with the results the current user may see
+export const getThreadPoll = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const thread = await Thread.findById(id).select('poll isDeleted').lean();
+
+  if (!thread || thread.isDeleted || !thread.poll?.question) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Poll not found'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: await pollService.presentForUser(thread, (req as any).user?._id?.toString())
+  });
+});
+
 // Pin/Unpin thread (admin only)
 export const pinThread = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -503,6 +699,21 @@ export const reportThread = asyncHandler(async (req: Request, res: Response) =>
   });
 
   await thread.save();
+  await moderationService.enqueueReport('thread', thread, reason);
+
+  // Push the report to moderators watching the live feed
+  const io = getIO();
+  if (io) {
+    broadcastModerationReport(io, {
+      targetType: 'thread',
+      targetId: thread._id.toString(),
+      title: thread.title,
+      reason,
+      reportedBy: userId.toString(),
+      reportCount: thread.reports.length,
+      reportedAt: new Date()
+    });
+  }
 
   res.status(StatusCodes.OK).json({
     success: true,
@@ -4,6 +4,13 @@ import { Content } from '../models/Content';
 import { redisClient } from '../utils/redis';
 import { StatusCodes } from 'http-status-codes';
 import { asyncHandler } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+import { followService } from '../services/followService';
+import { permissionService } from '../services/permissionService';
+import { twoFactorService } from '../services/twoFactorService';
+import { mailService } from '../services/mailService';
+import { loginProtectionService } from '../services/loginProtectionService';
+import { ROLE_ASSIGN_ERRORS } from './roleController';
 
 // Get all users (admin only)
 export const getUsers = asyncHandler(async (req: Request, res: Response) => {
@@ -80,11 +87,11 @@ export const getUserById = asyncHandler(async (req: Request, res: Response) => {
 export const updateUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { name, avatar, role, isVerified } = req.body;
-  const currentUserId = (req as any).user.id;
-  const currentUserRole = (req as any).user.role;
+  const currentUser = (req as any).user;
+  const currentUserId = currentUser.id;
 
   // Check if user can update this profile
-  if (id !== currentUserId && !['admin', 'moderator'].includes(currentUserRole)) {
+  if (id !== currentUserId && !(await permissionService.userCan(currentUser, 'users.edit'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'You can only update your own profile'
@@ -99,10 +106,9 @@ export const updateUser = asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  // Only admin can change role and verification status
-  if (currentUserRole === 'admin') {
-    if (role) user.role = role;
-    if (isVerified !== undefined) user.isVerified = isVerified;
+  // Verification status and role need their own permissions
+  if (isVerified !== undefined && await permissionService.userCan(currentUser, 'users.manage')) {
+    user.isVerified = isVerified;
   }
 
   if (name) user.name = name;
@@ -113,6 +119,18 @@ export const updateUser = asyncHandler(async (req: Request, res: Response) => {
   // Clear cache
   await redisClient.del(`user:${id}`);
 
+  if (role && role !== user.role && await permissionService.userCan(currentUser, 'roles.assign')) {
+    const result = await permissionService.assignRole(id, role, currentUser);
+    if ('error' in result) {
+      const { status, message } = ROLE_ASSIGN_ERRORS[result.error];
+      return res.status(status).json({ success: false, message });
+    }
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      data: result.user
+    });
+  }
+
   res.status(StatusCodes.OK).json({
     success: true,
     data: user
@@ -123,10 +141,9 @@ export const updateUser = asyncHandler(async (req: Request, res: Response) => {
 export const deleteUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const currentUserId = (req as any).user.id;
-  const currentUserRole = (req as any).user.role;
 
   // Check if user can delete this profile
-  if (id !== currentUserId && currentUserRole !== 'admin') {
+  if (id !== currentUserId && !(await permissionService.userCan((req as any).user, 'users.manage'))) {
     return res.status(StatusCodes.FORBIDDEN).json({
       success: false,
       message: 'You can only delete your own profile'
@@ -156,6 +173,104 @@ export const deleteUser = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+// Lets the unsubscribe page check its link before asking for confirmation; changes nothing,
+// since mail scanners and prefetchers follow GET links
+export const checkUnsubscribeToken = asyncHandler(async (req: Request, res: Response) => {
+  if (!mailService.verifyUnsubscribeToken(req.params.token)) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'Invalid unsubscribe link'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { valid: true }
+  });
+});
+
+// Unsubscribe link from digest and moderation emails; no login needed, the token is signed
+export const unsubscribeEmail = asyncHandler(async (req: Request, res: Response) => {
+  const unsubscribed = await mailService.unsubscribe(req.params.token);
+  if (!unsubscribed) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'Invalid unsubscribe link'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'You will no longer receive email notifications'
+  });
+});
+
+// Recovery for users who lost both their authenticator and backup codes
+export const resetUserTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const result = await twoFactorService.reset(req.params.id, (req as any).user._id.toString(), req.body.reason);
+
+  if ('error' in result) {
+    return res.status(result.error === 'not_found' ? StatusCodes.NOT_FOUND : StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: result.error === 'not_found' ? 'User not found' : 'Two-factor authentication is not enabled for this user'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Two-factor authentication reset; the user has been signed out everywhere'
+  });
+});
+
+// Lift a login lockout before it expires
+export const unlockUser = asyncHandler(async (req: Request, res: Response) => {
+  const result = await loginProtectionService.unlock(req.params.id, (req as any).user._id.toString(), req.body.reason);
+
+  if ('error' in result) {
+    return res.status(result.error === 'not_found' ? StatusCodes.NOT_FOUND : StatusCodes.CONFLICT).json({
+      success: false,
+      message: result.error === 'not_found' ? 'User not found' : 'This account is not locked'
+    });
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Account unlocked'
+  });
+});
+
+// Failed login history with the current lock state
+export const getUserLoginAttempts = asyncHandler(async (req: Request, res: Response) => {
+  const { page = 1, limit = 20 } = req.query;
+
+  const user = await User.findById(req.params.id).select('email').lean();
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  const [{ attempts, total }, lock] = await Promise.all([
+    loginProtectionService.listAttempts(req.params.id, Number(page), Number(limit)),
+    loginProtectionService.lockStatus(user.email)
+  ]);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      ...lock,
+      attempts,
+      pagination: {
+        current: Number(page),
+        pages: Math.ceil(total / Number(limit)),
+        total,
+        limit: Number(limit)
+      }
+    }
+  });
+});
+
 // Get user statistics
 export const getUserStats = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -315,23 +430,25 @@ export const followUser = asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  // Check if already following
-  const currentUser = await User.findById(currentUserId);
-  if (currentUser?.preferences.favoriteTeams?.includes(id)) {
+  if (await followService.isBlockedEitherWay(currentUserId, id)) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: 'You cannot follow this user'
+    });
+  }
+
+  const followed = await followService.follow(currentUserId, id);
+  if (!followed) {
     return res.status(StatusCodes.BAD_REQUEST).json({
       success: false,
       message: 'You are already following this user'
     });
   }
 
-  // Add to following list
-  await User.findByIdAndUpdate(currentUserId, {
-    $addToSet: { 'preferences.favoriteTeams': id }
-  });
-
   res.status(StatusCodes.OK).json({
     success: true,
-    message: 'User followed successfully'
+    message: 'User followed successfully',
+    data: await followService.getRelationship(currentUserId, id)
   });
 });
 
@@ -340,9 +457,7 @@ export const unfollowUser = asyncHandler(async (req: Request, res: Response) =>
   const { id } = req.params;
   const currentUserId = (req as any).user.id;
 
-  await User.findByIdAndUpdate(currentUserId, {
-    $pull: { 'preferences.favoriteTeams': id }
-  });
+  await followService.unfollow(currentUserId, id);
 
   res.status(StatusCodes.OK).json({
     success: true,
@@ -353,30 +468,26 @@ export const unfollowUser = asyncHandler(async (req: Request, res: Response) =>
 // Get followers
 export const getFollowers = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { page = 1, limit = 20 } = req.query;
-  const skip = (Number(page) - 1) * Number(limit);
+  const { cursor, limit = 20 } = req.query;
 
-  const followers = await User.find({
-    'preferences.favoriteTeams': id
-  })
-    .select('name email avatar stats')
-    .sort({ createdAt: -1 })
-    .skip(skip)
-    .limit(Number(limit))
-    .lean();
+  const user = await User.findById(id).select('followerCount');
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
 
-  const total = await User.countDocuments({
-    'preferences.favoriteTeams': id
-  });
+  const result = await followService.listUsers(id, 'followers', { cursor: cursor as string, limit: Number(limit) });
 
   res.status(StatusCodes.OK).json({
     success: true,
     data: {
-      followers,
+      followers: result.users,
       pagination: {
-        current: Number(page),
-        pages: Math.ceil(total / Number(limit)),
-        total,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        total: user.followerCount,
         limit: Number(limit)
       }
     }
@@ -386,10 +497,9 @@ export const getFollowers = asyncHandler(async (req: Request, res: Response) =>
 // Get following
 export const getFollowing = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { page = 1, limit = 20 } = req.query;
-  const skip = (Number(page) - 1) * Number(limit);
+  const { cursor, limit = 20 } = req.query;
 
-  const user = await User.findById(id).select('preferences.favoriteTeams');
+  const user = await User.findById(id).select('followingCount');
   if (!user) {
     return res.status(StatusCodes.NOT_FOUND).json({
       success: false,
@@ -397,25 +507,134 @@ export const getFollowing = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  const following = await User.find({
-    _id: { $in: user.preferences.favoriteTeams }
-  })
-    .select('name email avatar stats')
-    .sort({ createdAt: -1 })
-    .skip(skip)
-    .limit(Number(limit))
-    .lean();
+  const result = await followService.listUsers(id, 'following', { cursor: cursor as string, limit: Number(limit) });
 
-  const total = user.preferences.favoriteTeams.length;
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      following: result.users,
+      pagination: {
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        total: user.followingCount,
+        limit: Number(limit)
+      }
+    }
+  });
+});
+
+// Get relationship between the current user and another user
+export const getRelationship = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const currentUserId = (req as any).user.id;
+
+  const relationship = await followService.getRelationship(currentUserId, id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: relationship
+  });
+});
+
+// Block user
+export const blockUser = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const currentUserId = (req as any).user.id;
+
+  if (id === currentUserId) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'You cannot block yourself'
+    });
+  }
+
+  const user = await User.findById(id).select('_id');
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  await followService.block(currentUserId, id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'User blocked successfully'
+  });
+});
+
+// Unblock user
+export const unblockUser = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const currentUserId = (req as any).user.id;
+
+  await followService.unblock(currentUserId, id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'User unblocked successfully'
+  });
+});
+
+// Mute user (hides their posts from the following feed and silences their notifications)
+export const muteUser = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const currentUserId = (req as any).user.id;
+
+  if (id === currentUserId) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'You cannot mute yourself'
+    });
+  }
+
+  const user = await User.findById(id).select('_id');
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  await followService.mute(currentUserId, id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'User muted successfully'
+  });
+});
+
+// Unmute user
+export const unmuteUser = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const currentUserId = (req as any).user.id;
+
+  await followService.unmute(currentUserId, id);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'User unmuted successfully'
+  });
+});
+
+// Get feed of threads, content and news from followed users
+export const getFollowingFeed = asyncHandler(async (req: Request, res: Response) => {
+  const currentUserId = (req as any).user.id;
+  const { cursor, limit = 20 } = req.query;
+
+  const result = await followService.getFollowingFeed(currentUserId, {
+    cursor: cursor as string,
+    limit: Number(limit)
+  });
 
   res.status(StatusCodes.OK).json({
     success: true,
     data: {
-      following,
+      items: result.items,
       pagination: {
-        current: Number(page),
-        pages: Math.ceil(total / Number(limit)),
-        total,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
         limit: Number(limit)
       }
     }
@@ -447,50 +666,90 @@ export const updatePreferences = asyncHandler(async (req: Request, res: Response
   });
 });
 
-// Get user notifications
+// Get user notifications (cursor-paginated, newest first)
 export const getNotifications = asyncHandler(async (req: Request, res: Response) => {
-  const _userId = (req as any).user.id;
-  const { page = 1, limit = 20 } = req.query;
-  const _skip = (Number(page) - 1) * Number(limit);
-
-  // This would typically come from a notifications collection
-  // For now, we'll return a mock response
-  const notifications = [];
+  const userId = (req as any).user.id;
+  const { cursor, limit = 20, unread } = req.query;
+
+  const [result, unreadCount] = await Promise.all([
+    notificationService.list(userId, {
+      cursor: cursor as string,
+      limit: Number(limit),
+      unreadOnly: unread === 'true',
+    }),
+    notificationService.unreadCount(userId),
+  ]);
 
   res.status(StatusCodes.OK).json({
     success: true,
     data: {
-      notifications,
+      notifications: result.notifications,
+      unreadCount,
       pagination: {
-        current: Number(page),
-        pages: 0,
-        total: 0,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
         limit: Number(limit)
       }
     }
   });
 });
 
+// Get unread notification count
+export const getUnreadNotificationCount = asyncHandler(async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  const unreadCount = await notificationService.unreadCount(userId);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { unreadCount }
+  });
+});
+
 // Mark notification as read
 export const markNotificationAsRead = asyncHandler(async (req: Request, res: Response) => {
-  const { id: _id } = req.params;
-  const _userId = (req as any).user.id;
+  const { id } = req.params;
+  const userId = (req as any).user.id;
+
+  const notification = await notificationService.markAsRead(userId, id);
+  if (!notification) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Notification not found'
+    });
+  }
 
-  // This would typically update a notifications collection
-  // For now, we'll return a success response
   res.status(StatusCodes.OK).json({
     success: true,
-    message: 'Notification marked as read'
+    message: 'Notification marked as read',
+    data: notification
+  });
+});
+
+// Mark all notifications as read
+export const markAllNotificationsAsRead = asyncHandler(async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  const updated = await notificationService.markAllAsRead(userId);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'All notifications marked as read',
+    data: { updated }
   });
 });
 
 // Delete notification
 export const deleteNotification = asyncHandler(async (req: Request, res: Response) => {
-  const { id: _id } = req.params;
-  const _userId = (req as any).user.id;
+  const { id } = req.params;
+  const userId = (req as any).user.id;
+
+  const deleted = await notificationService.remove(userId, id);
+  if (!deleted) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Notification not found'
+    });
+  }
 
-  // This would typically delete from a notifications collection
-  // For now, we'll return a success response
   res.status(StatusCodes.OK).json({
     success: true,
     message: 'Notification deleted'
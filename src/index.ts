@@ -21,9 +21,11 @@ import authRoutes from './routes/auth';
 import userRoutes from './routes/user';
 import threadRoutes from './routes/thread';
 import commentRoutes from './routes/comment';
+import awardRoutes from './routes/award';
 import newsRoutes from './routes/news';
 import mediaRoutes from './routes/media';
 import adminRoutes from './routes/admin';
+import searchRoutes from './routes/search';
 import testRoutes from './routes/test';
 
 // Import middleware
@@ -33,7 +35,13 @@ import { connectDatabase } from './utils/database';
 import { connectRedis } from './utils/redis';
 import { connectElasticsearch } from './utils/elasticsearch';
 import { logger } from './utils/logger';
-import { initializeSocketIO } from './utils/socket';
+import { initializeSocketIO, setupRedisPubSub, closeRedisPubSub } from './utils/socket';
+import { newsSchedulerService } from './services/newsSchedulerService';
+import { mailService } from './services/mailService';
+import { threadRankingService } from './services/threadRankingService';
+import { liveIngestionService } from './services/liveIngestionService';
+import { providerRegistry } from './services/providerRegistry';
+import { permissionService } from './services/permissionService';
 
 const app = express();
 const server = createServer(app);
@@ -152,9 +160,11 @@ app.use('/api/football', footballRoutes);
 app.use('/api/content', contentRoutes);
 app.use('/api/threads', threadRoutes);
 app.use('/api/comments', commentRoutes);
+app.use('/api/awards', awardRoutes);
 app.use('/api/news', newsRoutes);
 app.use('/api/media', mediaRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/search', searchRoutes);
 app.use('/api/test', testRoutes);
 
 // Initialize Socket.IO
@@ -173,6 +183,21 @@ const initializeApp = async () => {
     await connectElasticsearch();
     
     logger.info('All database connections established');
+
+    // Built-in roles must exist before permission checks run
+    await permissionService.ensureDefaultRoles();
+
+    // Share Socket.IO rooms across workers and subscribe to live score changes
+    await setupRedisPubSub(io);
+
+    // Background jobs
+    newsSchedulerService.start();
+    mailService.start();
+    threadRankingService.start();
+    providerRegistry.startHealthChecks();
+    if (process.env.LIVE_INGESTION_ENABLED === 'true') {
+      liveIngestionService.start();
+    }
     
     // Start server
     server.listen(PORT, () => {
@@ -189,6 +214,12 @@ const initializeApp = async () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  newsSchedulerService.stop();
+  mailService.stop();
+  threadRankingService.stop();
+  liveIngestionService.stop();
+  providerRegistry.stopHealthChecks();
+  closeRedisPubSub();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -197,6 +228,12 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  newsSchedulerService.stop();
+  mailService.stop();
+  threadRankingService.stop();
+  liveIngestionService.stop();
+  providerRegistry.stopHealthChecks();
+  closeRedisPubSub();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
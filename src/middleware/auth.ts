@@ -2,13 +2,28 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/User';
 import { logger } from '../utils/logger';
+import { sanctionService } from '../services/sanctionService';
+import { permissionService, WILDCARD_PERMISSION } from '../services/permissionService';
+import { sessionService } from '../services/sessionService';
 import { StatusCodes } from 'http-status-codes';
 
 export interface AuthRequest extends Request {
   user?: any;
+  sessionId?: string; // Session the access token was issued for
 }
 
-export const authenticate = async (
+// Verify an access token and load its user; shared by HTTP and socket authentication
+export const resolveAccessToken = async (token: string): Promise<{ user: any; decoded: any }> => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+  if (decoded.sid && await sessionService.isRevoked(decoded.sid)) {
+    throw new jwt.JsonWebTokenError('Session has been revoked');
+  }
+  const user = await User.findById(decoded.userId).select('-password');
+  return { user, decoded };
+};
+
+// Suspended and banned users are turned away unless the route exists for them (e.g. appeals)
+const authenticateUser = (options: { allowSanctioned?: boolean } = {}) => async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -29,11 +44,8 @@ export const authenticate = async (
       return;
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    
-    // Get user from database
-    const user = await User.findById(decoded.userId).select('-password');
+    // Verify token and get user from database
+    const { user, decoded } = await resolveAccessToken(token);
     
     if (!user) {
       res.status(StatusCodes.UNAUTHORIZED).json({
@@ -51,7 +63,29 @@ export const authenticate = async (
       return;
     }
 
+    if (!options.allowSanctioned) {
+      const block = await sanctionService.getAccessBlock(user._id.toString());
+      if (block) {
+        res.status(StatusCodes.FORBIDDEN).json({
+          success: false,
+          message: block.type === 'ban'
+            ? 'Your account has been banned.'
+            : `Your account is suspended until ${new Date(block.expiresAt as Date).toISOString()}.`,
+          data: {
+            sanction: {
+              id: block._id,
+              type: block.type,
+              reason: block.reason,
+              expiresAt: block.expiresAt
+            }
+          }
+        });
+        return;
+      }
+    }
+
     req.user = user;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
     logger.error('Authentication error:', error);
@@ -79,6 +113,9 @@ export const authenticate = async (
   }
 };
 
+export const authenticate = authenticateUser();
+export const authenticateAllowSanctioned = authenticateUser({ allowSanctioned: true });
+
 export const authorize = (...roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -101,6 +138,39 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+// Passes when the user's role grants at least one of the listed permissions
+export const requirePermission = (...permissions: string[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(StatusCodes.UNAUTHORIZED).json({
+        success: false,
+        message: 'Access denied. Please authenticate first.'
+      });
+      return;
+    }
+
+    try {
+      const granted = await permissionService.permissionsFor(req.user.role);
+      if (!granted.includes(WILDCARD_PERMISSION) && !permissions.some((p) => granted.includes(p))) {
+        res.status(StatusCodes.FORBIDDEN).json({
+          success: false,
+          message: 'Access denied. Insufficient permissions.'
+        });
+        return;
+      }
+    } catch (error) {
+      logger.error('Permission check error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Authorization failed.'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
 export const optionalAuth = async (
   req: AuthRequest,
   res: Response,
@@ -114,11 +184,11 @@ export const optionalAuth = async (
     }
 
     if (token) {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-      const user = await User.findById(decoded.userId).select('-password');
+      const { user, decoded } = await resolveAccessToken(token);
       
       if (user && user.isVerified) {
         req.user = user;
+        req.sessionId = decoded.sid;
       }
     }
 
@@ -129,19 +199,20 @@ export const optionalAuth = async (
   }
 };
 
-export const generateToken = (userId: string): string => {
+export const generateToken = (userId: string, sessionId?: string): string => {
   return jwt.sign(
-    { userId },
+    { userId, sid: sessionId },
     process.env.JWT_SECRET || 'default-secret-key',
     { expiresIn: process.env.JWT_EXPIRES_IN || '15m' } as jwt.SignOptions
   );
 };
 
-export const generateRefreshToken = (userId: string): string => {
+// Refresh tokens belong to a session; tokenId (jti) changes on every rotation
+export const generateRefreshToken = (userId: string, sessionId: string, tokenId: string): string => {
   return jwt.sign(
-    { userId },
+    { userId, sid: sessionId },
     process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-key',
-    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' } as jwt.SignOptions
+    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d', jwtid: tokenId } as jwt.SignOptions
   );
 };
 
@@ -1,4 +1,5 @@
 import { body, param, query } from 'express-validator';
+import { handleValidationErrors } from './validation';
 
 // Thread creation validation
 export const validateThreadCreation = [
@@ -64,7 +65,75 @@ export const validateThreadCreation = [
   body('poll.allowMultiple')
     .optional()
     .isBoolean()
-    .withMessage('Poll allowMultiple must be a boolean')
+    .withMessage('Poll allowMultiple must be a boolean'),
+  
+  body('poll.resultsVisibility')
+    .optional()
+    .isIn(['always', 'after_vote', 'after_expiry'])
+    .withMessage('Poll resultsVisibility must be one of: always, after_vote, after_expiry')
+];
+
+// Poll vote validation
+export const validatePollVote = [
+  body('options')
+    .isArray({ min: 1, max: 10 })
+    .withMessage('Options must be an array of 1 to 10 option indexes'),
+  
+  body('options.*')
+    .isInt({ min: 0, max: 9 })
+    .withMessage('Each option must be a valid option index')
+    .toInt(),
+  handleValidationErrors
+];
+
+// Award validation
+export const validateAward = [
+  body('awardType')
+    .isString()
+    .trim()
+    .toLowerCase()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Award type is required'),
+  handleValidationErrors
+];
+
+// Award catalogue validation (admin)
+export const validateAwardType = [
+  param('key')
+    .optional()
+    .matches(/^[a-z0-9-]{1,50}$/i)
+    .withMessage('Award key may only contain letters, numbers and dashes'),
+  body('key')
+    .if((_value: any, { req }: any) => !req.params.key)
+    .matches(/^[a-z0-9-]{1,50}$/i)
+    .withMessage('Award key may only contain letters, numbers and dashes'),
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Name must be between 1 and 50 characters'),
+  body('description')
+    .optional()
+    .isLength({ max: 200 })
+    .withMessage('Description must be at most 200 characters'),
+  body('icon')
+    .trim()
+    .notEmpty()
+    .withMessage('Icon is required'),
+  body('cost')
+    .isInt({ min: 1 })
+    .withMessage('Cost must be a positive integer')
+    .toInt(),
+  body('recipientCoins')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Recipient coins must be a non-negative integer')
+    .toInt(),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+    .toBoolean(),
+  handleValidationErrors
 ];
 
 // Thread update validation
@@ -169,8 +238,8 @@ export const validateThreadSearch = [
   
   query('sort')
     .optional()
-    .isIn(['hot', 'new', 'top', 'controversial'])
-    .withMessage('Sort must be one of: hot, new, top, controversial'),
+    .isIn(['hot', 'new', 'rising', 'top', 'controversial'])
+    .withMessage('Sort must be one of: hot, new, rising, top, controversial'),
   
   query('time')
     .optional()
@@ -220,3 +289,28 @@ export const validateCommentSearch = [
     .isInt({ min: 1, max: 100 })
     .withMessage('Limit must be between 1 and 100')
 ];
+
+// Comment tree validation
+export const validateCommentTree = [
+  query('sort')
+    .optional()
+    .isIn(['best', 'new', 'old', 'controversial'])
+    .withMessage('Sort must be one of: best, new, old, controversial'),
+
+  query('depth')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Depth must be between 1 and 10'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('continuation')
+    .optional()
+    .isBase64({ urlSafe: true })
+    .withMessage('Invalid continuation token'),
+
+  handleValidationErrors
+];
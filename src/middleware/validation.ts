@@ -129,6 +129,32 @@ export const validateMatchId = [
   handleValidationErrors
 ];
 
+// Match routes served from ball-by-ball data accept provider match IDs as well as Mongo IDs
+export const validateMatchRef = [
+  param('id')
+    .matches(/^[A-Za-z0-9_-]{1,64}$/)
+    .withMessage('Invalid match ID format'),
+  query('innings')
+    .optional()
+    .isInt({ min: 1, max: 4 })
+    .withMessage('Innings must be between 1 and 4'),
+  handleValidationErrors
+];
+
+// Leagues are identified by name (as listed by /leagues) or provider competition ID
+export const validateLeagueRef = [
+  param('id')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('League identifier must be between 1 and 100 characters'),
+  query('season')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Season must be between 1 and 20 characters'),
+  handleValidationErrors
+];
+
 export const validateCricketMatch = [
   body('matchId')
     .notEmpty()
@@ -227,6 +253,85 @@ export const validateSearch = [
   handleValidationErrors
 ];
 
+export const validateNewsSearch = [
+  query('q')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Search query must be between 2 and 100 characters'),
+  query('category')
+    .optional()
+    .isIn(['cricket', 'football', 'general'])
+    .withMessage('Category must be cricket, football, or general'),
+  query('type')
+    .optional()
+    .isIn(['breaking', 'match_report', 'analysis', 'feature', 'interview', 'opinion'])
+    .withMessage('Invalid article type'),
+  query('tag')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Tag must be between 1 and 50 characters'),
+  query('author')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid author ID'),
+  query('dateFrom')
+    .optional()
+    .isISO8601()
+    .withMessage('dateFrom must be a valid ISO 8601 date'),
+  query('dateTo')
+    .optional()
+    .isISO8601()
+    .withMessage('dateTo must be a valid ISO 8601 date'),
+  query('sort')
+    .optional()
+    .isIn(['relevance', 'newest'])
+    .withMessage('Sort must be relevance or newest'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+  handleValidationErrors
+];
+
+const SEARCH_TYPES = ['news', 'threads', 'content', 'teams', 'players', 'matches'];
+
+// `types` is a comma-separated subset of the result groups, e.g. types=news,teams
+const searchTypes = () => query('types')
+  .optional()
+  .custom((value) => String(value).split(',').every((type) => SEARCH_TYPES.includes(type.trim())))
+  .withMessage(`Types must be a comma-separated list of: ${SEARCH_TYPES.join(', ')}`);
+
+export const validateGlobalSearch = [
+  query('q')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Search query must be between 2 and 100 characters'),
+  searchTypes(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Limit must be between 1 and 20'),
+  handleValidationErrors
+];
+
+export const validateSuggest = [
+  query('q')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Prefix must be between 1 and 50 characters'),
+  searchTypes(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Limit must be between 1 and 10'),
+  handleValidationErrors
+];
+
 export const validateDateRange = [
   query('startDate')
     .optional()
@@ -309,3 +414,290 @@ export const validateCricketTeamPayload = [
     .withMessage('Timeline must be an array'),
   handleValidationErrors
 ];
+
+// Moderation queue validation
+export const validateModerationQueue = [
+  query('targetType')
+    .optional()
+    .isIn(['thread', 'comment', 'content', 'news'])
+    .withMessage('Target type must be thread, comment, content or news'),
+  query('kind')
+    .optional()
+    .isIn(['report', 'approval'])
+    .withMessage('Kind must be report or approval'),
+  query('status')
+    .optional()
+    .isIn(['pending', 'resolved', 'dismissed'])
+    .withMessage('Status must be pending, resolved or dismissed'),
+  query('claimed')
+    .optional()
+    .isIn(['me', 'unclaimed', 'any'])
+    .withMessage('Claimed must be me, unclaimed or any'),
+  query('minReports')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Minimum reports must be a positive integer'),
+  query('sort')
+    .optional()
+    .isIn(['oldest', 'newest', 'reports'])
+    .withMessage('Sort must be oldest, newest or reports'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors
+];
+
+export const validateModerationItemId = [
+  param('itemId')
+    .isMongoId()
+    .withMessage('Invalid moderation item ID'),
+  handleValidationErrors
+];
+
+export const validateModerationAssign = [
+  param('itemId')
+    .isMongoId()
+    .withMessage('Invalid moderation item ID'),
+  body('assignee')
+    .isMongoId()
+    .withMessage('Assignee must be a valid user ID'),
+  handleValidationErrors
+];
+
+export const validateModerationAction = [
+  param('itemId')
+    .isMongoId()
+    .withMessage('Invalid moderation item ID'),
+  body('action')
+    .isIn(['approve', 'reject', 'dismiss', 'remove'])
+    .withMessage('Action must be approve, reject, dismiss or remove'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+export const validateModerationBulk = [
+  body('itemIds')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Item IDs must be an array of 1 to 100 entries'),
+  body('itemIds.*')
+    .isMongoId()
+    .withMessage('Invalid moderation item ID'),
+  body('action')
+    .isIn(['approve', 'reject', 'dismiss', 'remove'])
+    .withMessage('Action must be approve, reject, dismiss or remove'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+// Sanction validation
+export const validateSanction = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('type')
+    .isIn(['suspension', 'ban', 'shadow_ban', 'mute', 'cooldown'])
+    .withMessage('Type must be suspension, ban, shadow_ban, mute or cooldown'),
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+  body('durationMinutes')
+    .optional()
+    .isInt({ min: 1, max: 525600 })
+    .withMessage('Duration must be between 1 minute and 1 year'),
+  body('category')
+    .optional()
+    .isIn(['cricket', 'football', 'general', 'news', 'discussion'])
+    .withMessage('Invalid category'),
+  body('cooldownSeconds')
+    .optional()
+    .isInt({ min: 1, max: 86400 })
+    .withMessage('Cooldown must be between 1 second and 1 day'),
+  handleValidationErrors
+];
+
+export const validateSanctionId = [
+  param('sanctionId')
+    .isMongoId()
+    .withMessage('Invalid sanction ID'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+export const validateSanctionAppeal = [
+  param('sanctionId')
+    .isMongoId()
+    .withMessage('Invalid sanction ID'),
+  body('note')
+    .trim()
+    .isLength({ min: 10, max: 2000 })
+    .withMessage('Appeal must be between 10 and 2000 characters'),
+  handleValidationErrors
+];
+
+export const validateAppealReview = [
+  param('sanctionId')
+    .isMongoId()
+    .withMessage('Invalid sanction ID'),
+  body('accept')
+    .isBoolean()
+    .withMessage('Accept must be true or false'),
+  body('response')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Response cannot exceed 1000 characters'),
+  handleValidationErrors
+];
+
+// Content filter validation
+const FILTER_ACTIONS = ['allow', 'flag', 'hold', 'reject'];
+
+export const validateContentFilterConfig = [
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be true or false'),
+  body('bannedTerms')
+    .optional()
+    .isArray({ max: 5000 })
+    .withMessage('Banned terms must be an array'),
+  body('bannedTerms.*.term')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Each banned term must be between 1 and 100 characters'),
+  body('bannedTerms.*.action')
+    .optional()
+    .isIn(FILTER_ACTIONS)
+    .withMessage('Term action must be allow, flag, hold or reject'),
+  body(['blockedDomains', 'allowedDomains'])
+    .optional()
+    .isArray({ max: 5000 })
+    .withMessage('Domain lists must be arrays'),
+  body(['blockedDomains.*', 'allowedDomains.*'])
+    .isFQDN({ require_tld: true })
+    .withMessage('Domain lists may only contain domain names'),
+  body(['spam.duplicateWindowMinutes', 'spam.maxLinks', 'spam.newAccountHours', 'spam.newAccountMaxPostsPerHour'])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Spam thresholds must be non-negative integers'),
+  body('spam.maxLinkRatio')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Link ratio must be between 0 and 1'),
+  body(['actions.bannedWord', 'actions.blockedDomain', 'actions.unlistedDomain', 'actions.duplicate', 'actions.linkDensity', 'actions.velocity'])
+    .optional()
+    .isIn(FILTER_ACTIONS)
+    .withMessage('Actions must be allow, flag, hold or reject'),
+  handleValidationErrors
+];
+
+export const validateContentFilterTest = [
+  body('text')
+    .isString()
+    .isLength({ min: 1, max: 40000 })
+    .withMessage('Text is required'),
+  body('kind')
+    .optional()
+    .isIn(['thread', 'comment'])
+    .withMessage('Kind must be thread or comment'),
+  handleValidationErrors
+];
+
+export const validateSessionId = [
+  param('sessionId')
+    .isMongoId()
+    .withMessage('Invalid session ID'),
+  handleValidationErrors
+];
+
+export const validateTwoFactorCode = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  handleValidationErrors
+];
+
+export const validateTwoFactorLogin = [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+  body('backupCode')
+    .optional()
+    .isString()
+    .isLength({ min: 8, max: 32 })
+    .withMessage('Invalid backup code'),
+  body()
+    .custom((value) => !!(value.code || value.backupCode))
+    .withMessage('Provide a code or a backup code'),
+  handleValidationErrors
+];
+
+export const validateRoleName = [
+  param('name')
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z][a-z0-9_-]{1,31}$/)
+    .withMessage('Role name must be 2-32 lowercase letters, digits, dashes or underscores'),
+  handleValidationErrors
+];
+
+export const validateRole = [
+  ...validateRoleName.slice(0, -1),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters'),
+  body('permissions')
+    .isArray()
+    .withMessage('Permissions must be an array'),
+  body('permissions.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Permissions must be names'),
+  body('requireTwoFactor')
+    .optional()
+    .isBoolean()
+    .withMessage('requireTwoFactor must be a boolean'),
+  handleValidationErrors
+];
+
+export const validateRoleAssignment = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('role')
+    .isString()
+    .trim()
+    .toLowerCase()
+    .notEmpty()
+    .withMessage('Role is required'),
+  handleValidationErrors
+];
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAwardType extends Document {
+  key: string; // Stored on thread/comment awards as `type`
+  name: string;
+  description?: string;
+  icon: string;
+  cost: number;
+  recipientCoins: number; // Coins credited to the author who receives the award
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AwardTypeSchema = new Schema<IAwardType>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: /^[a-z0-9-]+$/,
+    maxlength: 50
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  icon: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  cost: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  recipientCoins: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'award_types'
+});
+
+export const AwardType = mongoose.model<IAwardType>('AwardType', AwardTypeSchema);
@@ -0,0 +1,146 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ExtraType = 'wide' | 'noball' | 'bye' | 'legbye' | 'penalty';
+
+export type WicketKind =
+  | 'bowled'
+  | 'caught'
+  | 'lbw'
+  | 'run-out'
+  | 'stumped'
+  | 'hit-wicket'
+  | 'retired'
+  | 'other';
+
+interface IBallPlayer {
+  id: string;
+  name: string;
+}
+
+export interface IBallEvent extends Document {
+  matchId: string;
+  innings: number;
+  battingTeam?: string;
+  over: number; // Completed overs before this delivery (0-based)
+  ball: number; // Legal ball number within the over (1-6); extras repeat the number
+  sequence: number; // Provider ordering, used to order extras bowled at the same ball number
+  batter: IBallPlayer;
+  nonStriker?: IBallPlayer;
+  bowler: IBallPlayer;
+  runs: {
+    batter: number;
+    extras: number;
+    total: number;
+  };
+  extras?: {
+    type: ExtraType;
+    runs: number;
+  };
+  isLegal: boolean;
+  isBoundary: boolean;
+  wicket?: {
+    kind: WicketKind;
+    playerOut: IBallPlayer;
+    fielder?: IBallPlayer;
+  };
+  commentary?: string;
+  source: string;
+  providerEventId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BallPlayerSchema = new Schema<IBallPlayer>({
+  id: { type: String, required: true },
+  name: { type: String, required: true }
+}, { _id: false });
+
+const BallEventSchema = new Schema<IBallEvent>({
+  matchId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  innings: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  battingTeam: {
+    type: String
+  },
+  over: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  ball: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  sequence: {
+    type: Number,
+    required: true
+  },
+  batter: {
+    type: BallPlayerSchema,
+    required: true
+  },
+  nonStriker: {
+    type: BallPlayerSchema
+  },
+  bowler: {
+    type: BallPlayerSchema,
+    required: true
+  },
+  runs: {
+    batter: { type: Number, default: 0 },
+    extras: { type: Number, default: 0 },
+    total: { type: Number, default: 0 }
+  },
+  extras: {
+    type: {
+      type: String,
+      enum: ['wide', 'noball', 'bye', 'legbye', 'penalty']
+    },
+    runs: { type: Number }
+  },
+  isLegal: {
+    type: Boolean,
+    default: true
+  },
+  isBoundary: {
+    type: Boolean,
+    default: false
+  },
+  wicket: {
+    kind: {
+      type: String,
+      enum: ['bowled', 'caught', 'lbw', 'run-out', 'stumped', 'hit-wicket', 'retired', 'other']
+    },
+    playerOut: { type: BallPlayerSchema },
+    fielder: { type: BallPlayerSchema }
+  },
+  commentary: {
+    type: String,
+    maxlength: 1000
+  },
+  source: {
+    type: String,
+    required: true
+  },
+  providerEventId: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'ball_events'
+});
+
+// Re-ingesting the same commentary must not duplicate deliveries
+BallEventSchema.index({ matchId: 1, source: 1, providerEventId: 1 }, { unique: true });
+BallEventSchema.index({ matchId: 1, innings: 1, over: 1, ball: 1, sequence: 1 });
+
+export const BallEvent = mongoose.model<IBallEvent>('BallEvent', BallEventSchema);
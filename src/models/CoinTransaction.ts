@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type CoinTransactionReason =
+  | 'upvote_received'
+  | 'content_approved'
+  | 'award_given'
+  | 'award_received'
+  | 'refund'
+  | 'admin_adjustment';
+
+export interface ICoinTransaction extends Document {
+  user: mongoose.Types.ObjectId;
+  amount: number; // Positive for credits, negative for debits
+  balanceAfter: number;
+  reason: CoinTransactionReason;
+  counterparty?: mongoose.Types.ObjectId; // Voter, award giver or recipient
+  reference?: {
+    kind: 'thread' | 'comment' | 'content';
+    id: string;
+  };
+  awardType?: string;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CoinTransactionSchema = new Schema<ICoinTransaction>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  balanceAfter: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  reason: {
+    type: String,
+    enum: ['upvote_received', 'content_approved', 'award_given', 'award_received', 'refund', 'admin_adjustment'],
+    required: true
+  },
+  counterparty: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reference: {
+    kind: {
+      type: String,
+      enum: ['thread', 'comment', 'content']
+    },
+    id: {
+      type: String
+    }
+  },
+  awardType: {
+    type: String
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, {
+  timestamps: true,
+  collection: 'coin_transactions'
+});
+
+// Ledger pages per user, newest first
+CoinTransactionSchema.index({ user: 1, _id: -1 });
+
+// Keeps earnings idempotent (one credit per voter per post, one per approval): a second
+// reward insert fails with a duplicate key however many requests race
+// (databases built with the earlier non-unique version need `user_1_reason_1_reference.id_1_counterparty_1` dropped first)
+export const REWARD_REASONS: CoinTransactionReason[] = ['upvote_received', 'content_approved'];
+
+CoinTransactionSchema.index(
+  { user: 1, reason: 1, 'reference.id': 1, counterparty: 1 },
+  { unique: true, partialFilterExpression: { reason: { $in: REWARD_REASONS } } }
+);
+
+export const CoinTransaction = mongoose.model<ICoinTransaction>('CoinTransaction', CoinTransactionSchema);
@@ -12,6 +12,8 @@ export interface IComment extends Document {
   score: number;
   isDeleted: boolean;
   deletedAt?: Date;
+  shadowHidden: boolean; // Posted while the author was shadow-banned; only the author sees it
+  heldForReview: boolean; // Held by the content filter until a moderator approves it
   deletedBy?: mongoose.Types.ObjectId;
   editedAt?: Date;
   editedBy?: mongoose.Types.ObjectId;
@@ -89,6 +91,14 @@ const CommentSchema = new Schema<IComment>({
   deletedAt: {
     type: Date
   },
+  shadowHidden: {
+    type: Boolean,
+    default: false
+  },
+  heldForReview: {
+    type: Boolean,
+    default: false
+  },
   deletedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
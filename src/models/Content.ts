@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { searchIndexPlugin, SearchSource } from '../utils/searchIndexing';
 
 export interface IContent extends Document {
   title: string;
@@ -24,6 +25,8 @@ export interface IContent extends Document {
   publishedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
+
+  toSearchDocument(): Record<string, any>;
 }
 
 const ContentSchema = new Schema<IContent>({
@@ -213,4 +216,34 @@ ContentSchema.statics.search = function(query: string, limit = 20) {
     .limit(limit);
 };
 
+// Document shape stored in the content Elasticsearch index
+ContentSchema.methods.toSearchDocument = function() {
+  const contributor: any = this.contributor;
+  return {
+    title: this.title,
+    content: this.content,
+    type: this.type,
+    category: this.category,
+    tags: this.tags,
+    status: this.status,
+    featured: this.featured,
+    views: this.views,
+    likes: this.likes,
+    publishedAt: this.publishedAt,
+    createdAt: this.createdAt,
+    contributor: { id: (contributor?._id || contributor)?.toString(), name: contributor?.name },
+    suggest: { input: [this.title], weight: 10 }
+  };
+};
+
+// Pending, rejected and draft content never reaches search
+export const CONTENT_SEARCH_SOURCE: SearchSource = {
+  index: 'content',
+  filter: { status: 'approved' },
+  populate: { path: 'contributor', select: 'name' },
+  fields: ['title', 'content', 'type', 'category', 'tags', 'status', 'featured', 'views', 'likes', 'publishedAt', 'createdAt', 'contributor']
+};
+
+ContentSchema.plugin(searchIndexPlugin, CONTENT_SEARCH_SOURCE);
+
 export const Content = mongoose.model<IContent>('Content', ContentSchema);
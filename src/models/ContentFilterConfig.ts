@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FilterAction = 'allow' | 'flag' | 'hold' | 'reject';
+
+export interface IBannedTerm {
+  term: string;
+  action?: FilterAction; // Overrides actions.bannedWord for this term
+}
+
+export interface IContentFilterConfig extends Document {
+  key: string;
+  enabled: boolean;
+  bannedTerms: IBannedTerm[];
+  blockedDomains: string[];
+  allowedDomains: string[]; // When non-empty, links to any other domain trigger actions.unlistedDomain
+  spam: {
+    duplicateWindowMinutes: number;
+    maxLinks: number;
+    maxLinkRatio: number; // Links per word
+    newAccountHours: number;
+    newAccountMaxPostsPerHour: number;
+  };
+  actions: {
+    bannedWord: FilterAction;
+    blockedDomain: FilterAction;
+    unlistedDomain: FilterAction;
+    duplicate: FilterAction;
+    linkDensity: FilterAction;
+    velocity: FilterAction;
+  };
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const actionField = (defaultAction: FilterAction) => ({
+  type: String,
+  enum: ['allow', 'flag', 'hold', 'reject'],
+  default: defaultAction
+});
+
+const ContentFilterConfigSchema = new Schema<IContentFilterConfig>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    default: 'default'
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  bannedTerms: [{
+    _id: false,
+    term: { type: String, required: true, trim: true, lowercase: true, maxlength: 100 },
+    action: { type: String, enum: ['allow', 'flag', 'hold', 'reject'] }
+  }],
+  blockedDomains: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  allowedDomains: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  spam: {
+    duplicateWindowMinutes: { type: Number, default: 60, min: 0 },
+    maxLinks: { type: Number, default: 5, min: 0 },
+    maxLinkRatio: { type: Number, default: 0.25, min: 0 },
+    newAccountHours: { type: Number, default: 24, min: 0 },
+    newAccountMaxPostsPerHour: { type: Number, default: 5, min: 0 }
+  },
+  actions: {
+    bannedWord: actionField('reject'),
+    blockedDomain: actionField('reject'),
+    unlistedDomain: actionField('hold'),
+    duplicate: actionField('reject'),
+    linkDensity: actionField('hold'),
+    velocity: actionField('hold')
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'content_filter_config'
+});
+
+export const ContentFilterConfig = mongoose.model<IContentFilterConfig>('ContentFilterConfig', ContentFilterConfigSchema);
@@ -1,4 +1,50 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SearchSource, searchIndexPlugin } from '../utils/searchIndexing';
+
+export interface IBattingEntry {
+  id: string;
+  name: string;
+  runs: number;
+  balls: number;
+  fours: number;
+  sixes: number;
+  strikeRate: number;
+  notOut: boolean;
+  dismissal?: string; // e.g. "c Smith b Jones"
+}
+
+export interface IBowlingEntry {
+  id: string;
+  name: string;
+  overs: string; // e.g. "3.4"
+  maidens: number;
+  runs: number;
+  wickets: number;
+  economy: number;
+  wides: number;
+  noBalls: number;
+}
+
+export interface IInningsScorecard {
+  number: number;
+  team: string;
+  batting: IBattingEntry[];
+  bowling: IBowlingEntry[];
+  extras: {
+    byes: number;
+    legByes: number;
+    wides: number;
+    noBalls: number;
+    penalties: number;
+    total: number;
+  };
+  total: {
+    runs: number;
+    wickets: number;
+    overs: string;
+  };
+  didNotBat: string[];
+}
 
 export interface ICricketMatch extends Document {
   matchId: string;
@@ -69,8 +115,11 @@ export interface ICricketMatch extends Document {
     overs?: number;
     economy?: number;
   }>;
+  scorecard?: IInningsScorecard[];
   createdAt: Date;
   updatedAt: Date;
+
+  toSearchDocument(): Record<string, any>;
 }
 
 const CricketMatchSchema = new Schema<ICricketMatch>({
@@ -170,6 +219,49 @@ const CricketMatchSchema = new Schema<ICricketMatch>({
     wickets: { type: Number, default: 0 },
     overs: { type: Number, default: 0 },
     economy: { type: Number, default: 0 }
+  }],
+  scorecard: [{
+    _id: false,
+    number: { type: Number, required: true },
+    team: { type: String, required: true },
+    batting: [{
+      _id: false,
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+      runs: { type: Number, default: 0 },
+      balls: { type: Number, default: 0 },
+      fours: { type: Number, default: 0 },
+      sixes: { type: Number, default: 0 },
+      strikeRate: { type: Number, default: 0 },
+      notOut: { type: Boolean, default: true },
+      dismissal: { type: String }
+    }],
+    bowling: [{
+      _id: false,
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+      overs: { type: String, default: '0' },
+      maidens: { type: Number, default: 0 },
+      runs: { type: Number, default: 0 },
+      wickets: { type: Number, default: 0 },
+      economy: { type: Number, default: 0 },
+      wides: { type: Number, default: 0 },
+      noBalls: { type: Number, default: 0 }
+    }],
+    extras: {
+      byes: { type: Number, default: 0 },
+      legByes: { type: Number, default: 0 },
+      wides: { type: Number, default: 0 },
+      noBalls: { type: Number, default: 0 },
+      penalties: { type: Number, default: 0 },
+      total: { type: Number, default: 0 }
+    },
+    total: {
+      runs: { type: Number, default: 0 },
+      wickets: { type: Number, default: 0 },
+      overs: { type: String, default: '0' }
+    },
+    didNotBat: [{ type: String }]
   }]
 }, {
   timestamps: true,
@@ -203,4 +295,30 @@ CricketMatchSchema.methods.getCurrentRunRate = function() {
   return 0;
 };
 
+// Document shape stored in the cricket_matches Elasticsearch index
+CricketMatchSchema.methods.toSearchDocument = function() {
+  return {
+    matchId: this.matchId,
+    series: this.series,
+    teams: {
+      home: { id: this.teams?.home?.id, name: this.teams?.home?.name, shortName: this.teams?.home?.shortName },
+      away: { id: this.teams?.away?.id, name: this.teams?.away?.name, shortName: this.teams?.away?.shortName }
+    },
+    venue: { name: this.venue?.name, city: this.venue?.city, country: this.venue?.country },
+    status: this.status,
+    format: this.format,
+    startTime: this.startTime,
+    endTime: this.endTime
+  };
+};
+
+// Live score updates leave the indexed fields alone, so only fixture and status changes are synced
+export const CRICKET_MATCH_SEARCH_SOURCE: SearchSource = {
+  index: 'cricket_matches',
+  filter: {},
+  fields: ['matchId', 'series', 'teams', 'venue', 'status', 'format', 'startTime', 'endTime']
+};
+
+CricketMatchSchema.plugin(searchIndexPlugin, CRICKET_MATCH_SEARCH_SOURCE);
+
 export const CricketMatch = mongoose.model<ICricketMatch>('CricketMatch', CricketMatchSchema);
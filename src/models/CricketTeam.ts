@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { searchIndexPlugin, SearchSource } from '../utils/searchIndexing';
 
 export interface ICricketTeamHighlight {
   name: string;
@@ -83,6 +84,8 @@ export interface ICricketTeam extends Document {
   newsTags?: string[];
   createdAt: Date;
   updatedAt: Date;
+
+  toSearchDocument(): Record<string, any>;
 }
 
 const CricketTeamSchema = new Schema<ICricketTeam>({
@@ -171,5 +174,29 @@ const CricketTeamSchema = new Schema<ICricketTeam>({
 CricketTeamSchema.index({ slug: 1 });
 CricketTeamSchema.index({ matchKey: 1 });
 
+// Document shape stored in the cricket_teams Elasticsearch index
+CricketTeamSchema.methods.toSearchDocument = function() {
+  return {
+    slug: this.slug,
+    name: this.name,
+    shortName: this.shortName,
+    flag: this.flag,
+    board: this.board,
+    summary: this.summary,
+    keyPlayers: (this.keyPlayers || []).map((player: ICricketTeamKeyPlayer) => player.name),
+    ranking: this.ranking,
+    // Teams outrank articles and threads in typeahead
+    suggest: { input: [this.name, this.shortName], weight: 50 }
+  };
+};
+
+export const CRICKET_TEAM_SEARCH_SOURCE: SearchSource = {
+  index: 'cricket_teams',
+  filter: {},
+  fields: ['slug', 'name', 'shortName', 'flag', 'board', 'summary', 'keyPlayers', 'ranking']
+};
+
+CricketTeamSchema.plugin(searchIndexPlugin, CRICKET_TEAM_SEARCH_SOURCE);
+
 export const CricketTeam = mongoose.model<ICricketTeam>('CricketTeam', CricketTeamSchema);
 
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// account mail is always delivered; the other categories honour preferences.notifications.email
+export type EmailCategory = 'account' | 'digest' | 'moderation';
+
+export type EmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface IEmailMessage extends Document {
+  to: string;
+  user?: mongoose.Types.ObjectId;
+  template: string;
+  category: EmailCategory;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  status: EmailStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailMessageSchema = new Schema<IEmailMessage>({
+  to: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  template: {
+    type: String,
+    required: true
+  },
+  category: {
+    type: String,
+    enum: ['account', 'digest', 'moderation'],
+    required: true
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  html: {
+    type: String,
+    required: true
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  headers: {
+    type: Map,
+    of: String
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'failed', 'skipped'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastError: String,
+  sentAt: Date
+}, {
+  timestamps: true,
+  collection: 'email_outbox'
+});
+
+// Worker pick-up: due messages, oldest first
+EmailMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+EmailMessageSchema.index({ user: 1, createdAt: -1 });
+
+// Delivered mail is only kept for troubleshooting
+EmailMessageSchema.index({ sentAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const EmailMessage = mongoose.model<IEmailMessage>('EmailMessage', EmailMessageSchema);
@@ -1,8 +1,10 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SearchSource, searchIndexPlugin } from '../utils/searchIndexing';
 
 export interface IFootballMatch extends Document {
   matchId: string;
   league: string;
+  leagueId?: string; // Provider competition ID, used to reconcile standings
   season: string;
   teams: {
     home: {
@@ -88,6 +90,8 @@ export interface IFootballMatch extends Document {
   };
   createdAt: Date;
   updatedAt: Date;
+
+  toSearchDocument(): Record<string, any>;
 }
 
 const FootballMatchSchema = new Schema<IFootballMatch>({
@@ -102,6 +106,9 @@ const FootballMatchSchema = new Schema<IFootballMatch>({
     required: true,
     index: true
   },
+  leagueId: {
+    type: String
+  },
   season: {
     type: String,
     required: true,
@@ -213,6 +220,7 @@ const FootballMatchSchema = new Schema<IFootballMatch>({
 FootballMatchSchema.index({ startTime: 1, status: 1 });
 FootballMatchSchema.index({ 'teams.home.id': 1, 'teams.away.id': 1 });
 FootballMatchSchema.index({ league: 1, season: 1 });
+FootballMatchSchema.index({ leagueId: 1, season: 1, status: 1 });
 FootballMatchSchema.index({ status: 1, startTime: 1 });
 
 // Virtual for match duration
@@ -238,4 +246,29 @@ FootballMatchSchema.methods.getGoalDifference = function() {
   return this.score.home - this.score.away;
 };
 
+// Document shape stored in the football_matches Elasticsearch index
+FootballMatchSchema.methods.toSearchDocument = function() {
+  return {
+    matchId: this.matchId,
+    league: this.league,
+    season: this.season,
+    teams: {
+      home: { id: this.teams?.home?.id, name: this.teams?.home?.name, shortName: this.teams?.home?.shortName },
+      away: { id: this.teams?.away?.id, name: this.teams?.away?.name, shortName: this.teams?.away?.shortName }
+    },
+    venue: { name: this.venue?.name, city: this.venue?.city, country: this.venue?.country },
+    status: this.status,
+    startTime: this.startTime,
+    endTime: this.endTime
+  };
+};
+
+export const FOOTBALL_MATCH_SEARCH_SOURCE: SearchSource = {
+  index: 'football_matches',
+  filter: {},
+  fields: ['matchId', 'league', 'season', 'teams', 'venue', 'status', 'startTime', 'endTime']
+};
+
+FootballMatchSchema.plugin(searchIndexPlugin, FOOTBALL_MATCH_SEARCH_SOURCE);
+
 export const FootballMatch = mongoose.model<IFootballMatch>('FootballMatch', FootballMatchSchema);
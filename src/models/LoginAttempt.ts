@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// invalid_password and unknown_email count towards lockouts; the others were refused before the password was checked
+export type LoginFailureReason = 'invalid_password' | 'unknown_email' | 'account_locked' | 'ip_locked' | 'throttled';
+
+export interface ILoginAttempt extends Document {
+  user?: mongoose.Types.ObjectId;
+  email: string;
+  ip?: string;
+  userAgent?: string;
+  reason: LoginFailureReason;
+  lockedOut: boolean; // This failure triggered a lockout
+  createdAt: Date;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  ip: String,
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  reason: {
+    type: String,
+    enum: ['invalid_password', 'unknown_email', 'account_locked', 'ip_locked', 'throttled'],
+    required: true
+  },
+  lockedOut: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'login_attempts'
+});
+
+LoginAttemptSchema.index({ user: 1, createdAt: -1 });
+LoginAttemptSchema.index({ ip: 1, createdAt: -1 });
+
+// Failed logins are kept for 90 days
+LoginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ModerationActionType =
+  | 'claim'
+  | 'release'
+  | 'assign'
+  | 'approve'
+  | 'reject'
+  | 'dismiss'
+  | 'remove'
+  | 'resolve' // Report actioned through the legacy comment endpoint
+  | 'sanction'
+  | 'lift_sanction'
+  | 'review_appeal'
+  | 'assign_role'
+  | 'reset_two_factor'
+  | 'unlock_account';
+
+export interface IModerationAction extends Document {
+  moderator: mongoose.Types.ObjectId;
+  action: ModerationActionType;
+  targetType: 'thread' | 'comment' | 'content' | 'news' | 'user';
+  targetId: mongoose.Types.ObjectId;
+  item?: mongoose.Types.ObjectId;
+  reason?: string;
+  assignee?: mongoose.Types.ObjectId;
+  batchId?: string; // Shared by every action of one bulk request
+  sanction?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const ModerationActionSchema = new Schema<IModerationAction>({
+  moderator: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  action: {
+    type: String,
+    enum: ['claim', 'release', 'assign', 'approve', 'reject', 'dismiss', 'remove', 'resolve', 'sanction', 'lift_sanction', 'review_appeal', 'assign_role', 'reset_two_factor', 'unlock_account'],
+    required: true
+  },
+  targetType: {
+    type: String,
+    enum: ['thread', 'comment', 'content', 'news', 'user'],
+    required: true
+  },
+  targetId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  item: {
+    type: Schema.Types.ObjectId,
+    ref: 'ModerationItem'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  assignee: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  batchId: {
+    type: String,
+    index: true
+  },
+  sanction: {
+    type: Schema.Types.ObjectId,
+    ref: 'Sanction'
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'moderation_actions'
+});
+
+ModerationActionSchema.index({ targetType: 1, targetId: 1, _id: -1 });
+
+// The log is append-only: block every update and delete path
+const rejectMutation = function(next: (err?: Error) => void) {
+  next(new Error('Moderation actions are immutable'));
+};
+
+ModerationActionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete', 'findOneAndReplace'],
+  rejectMutation
+);
+ModerationActionSchema.pre('save', function(next) {
+  if (!this.isNew) return next(new Error('Moderation actions are immutable'));
+  next();
+});
+
+export const ModerationAction = mongoose.model<IModerationAction>('ModerationAction', ModerationActionSchema);
@@ -0,0 +1,105 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ModerationTargetType = 'thread' | 'comment' | 'content' | 'news';
+
+export interface IModerationItem extends Document {
+  targetType: ModerationTargetType;
+  targetId: mongoose.Types.ObjectId;
+  kind: 'report' | 'approval'; // User reports, or new submissions awaiting review
+  status: 'pending' | 'resolved' | 'dismissed';
+  title?: string; // Snapshot so the queue renders without loading every target
+  excerpt?: string;
+  author?: mongoose.Types.ObjectId;
+  reasons: string[];
+  reportCount: number;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+  claimedBy?: mongoose.Types.ObjectId | null;
+  claimExpiresAt?: Date | null;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  resolution?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ModerationItemSchema = new Schema<IModerationItem>({
+  targetType: {
+    type: String,
+    enum: ['thread', 'comment', 'content', 'news'],
+    required: true
+  },
+  targetId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['report', 'approval'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'resolved', 'dismissed'],
+    default: 'pending',
+    index: true
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: 300
+  },
+  excerpt: {
+    type: String,
+    maxlength: 300
+  },
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reasons: [{
+    type: String
+  }],
+  reportCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  firstReportedAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastReportedAt: {
+    type: Date,
+    default: Date.now
+  },
+  claimedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  claimExpiresAt: {
+    type: Date,
+    default: null
+  },
+  resolvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: {
+    type: Date
+  },
+  resolution: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'moderation_items'
+});
+
+// One queue entry per target and kind; a resolved entry is reopened by new reports
+ModerationItemSchema.index({ targetType: 1, targetId: 1, kind: 1 }, { unique: true });
+ModerationItemSchema.index({ status: 1, reportCount: -1, firstReportedAt: 1 });
+ModerationItemSchema.index({ status: 1, claimedBy: 1 });
+
+export const ModerationItem = mongoose.model<IModerationItem>('ModerationItem', ModerationItemSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { searchIndexPlugin, SearchSource } from '../utils/searchIndexing';
 
 export type ArticleType = 'breaking' | 'match_report' | 'analysis' | 'feature' | 'interview' | 'opinion';
 
@@ -39,6 +40,9 @@ export interface INewsArticle extends Document {
   isDeleted: boolean;
   createdAt: Date;
   updatedAt: Date;
+
+  // Instance methods
+  toSearchDocument(): Record<string, any>;
 }
 
 const NewsArticleSchema = new Schema<INewsArticle>({
@@ -114,9 +118,39 @@ NewsArticleSchema.methods = {
   async incrementViews(this: INewsArticle) {
     this.viewCount += 1;
     await this.save();
+  },
+
+  // Document shape stored in the news_articles Elasticsearch index; the author name is only known when populated
+  toSearchDocument(this: INewsArticle) {
+    const author: any = this.author;
+    return {
+      id: this._id.toString(),
+      title: this.title,
+      summary: this.summary,
+      body: this.body,
+      slug: this.slug,
+      type: this.type,
+      category: this.category,
+      tags: this.tags,
+      author: { id: (author?._id || author)?.toString(), name: author?.name },
+      heroImage: this.heroImage,
+      readingTimeMinutes: this.readingTimeMinutes,
+      publishedAt: this.publishedAt,
+      suggest: { input: [this.title, ...this.tags], weight: 20 },
+    };
   }
 } as any;
 
+// Only published articles are searchable
+export const NEWS_SEARCH_SOURCE: SearchSource = {
+  index: 'news_articles',
+  filter: { state: 'published', isDeleted: false },
+  populate: { path: 'author', select: 'name' },
+  fields: ['title', 'summary', 'body', 'slug', 'type', 'category', 'tags', 'author', 'heroImage', 'state', 'publishedAt', 'isDeleted']
+};
+
+NewsArticleSchema.plugin(searchIndexPlugin, NEWS_SEARCH_SOURCE);
+
 export const NewsArticle = mongoose.model<INewsArticle>('NewsArticle', NewsArticleSchema);
 
 
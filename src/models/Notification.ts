@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type NotificationType =
+  | 'comment_reply'
+  | 'thread_vote_milestone'
+  | 'content_approved'
+  | 'content_rejected'
+  | 'followed_user_posted'
+  | 'team_match_starting';
+
+export interface INotification extends Document {
+  recipient: mongoose.Types.ObjectId;
+  type: NotificationType;
+  actor?: mongoose.Types.ObjectId;
+  title: string;
+  message: string;
+  link?: string;
+  target?: {
+    kind: 'thread' | 'comment' | 'content' | 'news' | 'match';
+    id: string;
+  };
+  data?: any;
+  isRead: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>({
+  recipient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  type: {
+    type: String,
+    enum: [
+      'comment_reply',
+      'thread_vote_milestone',
+      'content_approved',
+      'content_rejected',
+      'followed_user_posted',
+      'team_match_starting'
+    ],
+    required: true,
+    index: true
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  link: {
+    type: String,
+    trim: true
+  },
+  target: {
+    kind: {
+      type: String,
+      enum: ['thread', 'comment', 'content', 'news', 'match']
+    },
+    id: {
+      type: String
+    }
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  isRead: {
+    type: Boolean,
+    default: false,
+    index: true
+  },
+  readAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'notifications'
+});
+
+// Indexes for cursor pagination and unread counts
+NotificationSchema.index({ recipient: 1, _id: -1 });
+NotificationSchema.index({ recipient: 1, isRead: 1 });
+
+// Expire notifications after 90 days
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPollBallot extends Document {
+  thread: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  options: number[]; // Indexes into thread.poll.options
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PollBallotSchema = new Schema<IPollBallot>({
+  thread: {
+    type: Schema.Types.ObjectId,
+    ref: 'Thread',
+    required: true,
+    index: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  options: [{
+    type: Number,
+    min: 0
+  }]
+}, {
+  timestamps: true,
+  collection: 'poll_ballots'
+});
+
+// One ballot per user per poll
+PollBallotSchema.index({ thread: 1, user: 1 }, { unique: true });
+
+export const PollBallot = mongoose.model<IPollBallot>('PollBallot', PollBallotSchema);
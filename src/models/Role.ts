@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: string[]; // Names from the permission catalogue; '*' grants everything
+  isSystem: boolean; // Built-in roles cannot be deleted or renamed
+  requireTwoFactor: boolean; // Members must enroll in two-factor authentication to sign in
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoleSchema = new Schema<IRole>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: /^[a-z][a-z0-9_-]{1,31}$/
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  permissions: [{
+    type: String,
+    trim: true
+  }],
+  isSystem: {
+    type: Boolean,
+    default: false
+  },
+  requireTwoFactor: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  collection: 'roles'
+});
+
+export const Role = mongoose.model<IRole>('Role', RoleSchema);
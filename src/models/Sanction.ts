@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SanctionType = 'suspension' | 'ban' | 'shadow_ban' | 'mute' | 'cooldown';
+
+export interface ISanction extends Document {
+  user: mongoose.Types.ObjectId;
+  type: SanctionType;
+  category?: string; // Mutes only; no category mutes the user everywhere
+  cooldownSeconds?: number; // Cooldowns only: minimum gap between posts
+  reason: string;
+  issuedBy: mongoose.Types.ObjectId;
+  startsAt: Date;
+  expiresAt?: Date | null; // null = permanent
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  revokeReason?: string;
+  appeal?: {
+    note: string;
+    submittedAt: Date;
+    status: 'pending' | 'accepted' | 'rejected';
+    reviewedBy?: mongoose.Types.ObjectId;
+    reviewedAt?: Date;
+    response?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SanctionSchema = new Schema<ISanction>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['suspension', 'ban', 'shadow_ban', 'mute', 'cooldown'],
+    required: true
+  },
+  category: {
+    type: String,
+    enum: ['cricket', 'football', 'general', 'news', 'discussion']
+  },
+  cooldownSeconds: {
+    type: Number,
+    min: 1
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  issuedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  startsAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  revokeReason: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  appeal: {
+    note: { type: String, trim: true, maxlength: 2000 },
+    submittedAt: { type: Date },
+    status: { type: String, enum: ['pending', 'accepted', 'rejected'] },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    reviewedAt: { type: Date },
+    response: { type: String, trim: true, maxlength: 1000 }
+  }
+}, {
+  timestamps: true,
+  collection: 'user_sanctions'
+});
+
+SanctionSchema.index({ user: 1, revokedAt: 1, expiresAt: 1 });
+SanctionSchema.index({ 'appeal.status': 1, 'appeal.submittedAt': 1 });
+
+export const Sanction = mongoose.model<ISanction>('Sanction', SanctionSchema);
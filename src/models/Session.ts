@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'logout_all' | 'password_changed' | 'reuse_detected' | 'account_deleted' | 'two_factor_required';
+
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenId: string; // jti of the only refresh token currently valid for this session
+  previousTokenId?: string; // Last rotated-out jti, tolerated briefly for concurrent refreshes
+  rotatedAt?: Date;
+  userAgent?: string;
+  device?: string; // Short label derived from the user agent, e.g. "Chrome on Windows"
+  ip?: string;
+  lastSeenAt: Date;
+  expiresAt: Date; // Refresh token expiry; the document is purged shortly after
+  revokedAt?: Date;
+  revokeReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenId: {
+    type: String,
+    required: true
+  },
+  previousTokenId: String,
+  rotatedAt: Date,
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  device: String,
+  ip: String,
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokeReason: {
+    type: String,
+    enum: ['logout', 'revoked', 'logout_all', 'password_changed', 'reuse_detected', 'account_deleted', 'two_factor_required']
+  }
+}, {
+  timestamps: true,
+  collection: 'user_sessions'
+});
+
+// Active sessions of a user, most recently used first
+SessionSchema.index({ user: 1, revokedAt: 1, lastSeenAt: -1 });
+
+// Revoked sessions are kept until expiry so a replayed refresh token is still recognised
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
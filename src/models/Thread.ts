@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { searchIndexPlugin, SearchSource } from '../utils/searchIndexing';
 
 export interface IThread extends Document {
   title: string;
@@ -11,6 +12,8 @@ export interface IThread extends Document {
   isPinned: boolean;
   isDeleted: boolean;
   deletedAt?: Date;
+  shadowHidden: boolean; // Posted while the author was shadow-banned; only the author sees it
+  heldForReview: boolean; // Held by the content filter until a moderator approves it
   deletedBy?: mongoose.Types.ObjectId;
   upvotes: number;
   downvotes: number;
@@ -37,7 +40,8 @@ export interface IThread extends Document {
     }>;
     expiresAt: Date;
     allowMultiple: boolean;
-    totalVotes: number;
+    totalVotes: number; // Number of ballots cast, not option selections
+    resultsVisibility: 'always' | 'after_vote' | 'after_expiry';
   };
   awards: Array<{
     type: string;
@@ -54,6 +58,8 @@ export interface IThread extends Document {
   moderators: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
+
+  toSearchDocument(): Record<string, any>;
 }
 
 const ThreadSchema = new Schema<IThread>({
@@ -111,6 +117,14 @@ const ThreadSchema = new Schema<IThread>({
   deletedAt: {
     type: Date
   },
+  shadowHidden: {
+    type: Boolean,
+    default: false
+  },
+  heldForReview: {
+    type: Boolean,
+    default: false
+  },
   deletedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
@@ -215,6 +229,11 @@ const ThreadSchema = new Schema<IThread>({
       type: Number,
       default: 0,
       min: 0
+    },
+    resultsVisibility: {
+      type: String,
+      enum: ['always', 'after_vote', 'after_expiry'],
+      default: 'after_vote'
     }
   },
   awards: [{
@@ -295,4 +314,38 @@ ThreadSchema.pre('save', function(next) {
   next();
 });
 
+// Document shape stored in the threads Elasticsearch index
+ThreadSchema.methods.toSearchDocument = function() {
+  const author: any = this.author;
+  return {
+    id: this._id.toString(),
+    title: this.title,
+    content: this.content,
+    category: this.category,
+    tags: this.tags,
+    flair: this.flair,
+    author: { id: (author?._id || author)?.toString(), name: author?.name },
+    score: this.score,
+    commentCount: this.commentCount,
+    isPinned: this.isPinned,
+    createdAt: this.createdAt,
+    lastActivity: this.lastActivity,
+    // Better-received threads rank higher in typeahead; the weight is refreshed on reindex
+    suggest: { input: [this.title], weight: Math.min(Math.max(this.score, 1), 20) }
+  };
+};
+
+// Only threads everyone can see are searchable
+export const THREAD_SEARCH_SOURCE: SearchSource = {
+  index: 'threads',
+  filter: { isDeleted: false, shadowHidden: { $ne: true }, heldForReview: { $ne: true } },
+  populate: { path: 'author', select: 'name' },
+  fields: [
+    'title', 'content', 'category', 'tags', 'flair', 'author', 'score', 'commentCount', 'isPinned', 'createdAt', 'lastActivity',
+    'isDeleted', 'shadowHidden', 'heldForReview'
+  ]
+};
+
+ThreadSchema.plugin(searchIndexPlugin, THREAD_SEARCH_SOURCE);
+
 export const Thread = mongoose.model<IThread>('Thread', ThreadSchema);
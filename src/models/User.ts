@@ -6,7 +6,7 @@ export interface IUser extends Document {
   email: string;
   password: string;
   avatar?: string;
-  role: 'user' | 'admin' | 'moderator';
+  role: string; // Name of a Role document; see permissionService for the built-in roles
   isVerified: boolean;
   verificationToken?: string;
   resetPasswordToken?: string;
@@ -27,6 +27,17 @@ export interface IUser extends Document {
     totalViews: number;
     totalLikes: number;
   };
+  followerCount: number;
+  followingCount: number;
+  coins: number; // Award currency; every change is recorded in coin_transactions
+  twoFactor: {
+    enabled: boolean;
+    secret?: string; // Encrypted TOTP secret; never selected by default
+    pendingSecret?: string; // Encrypted secret awaiting its first code during enrollment
+    backupCodes: string[]; // HMAC-SHA256 (server-keyed) hashes of unused one-time recovery codes; older codes may be plain SHA-256
+    lastUsedStep?: number; // TOTP time step last accepted, so a code cannot be replayed
+    enabledAt?: Date;
+  };
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -72,7 +83,8 @@ const UserSchema = new Schema<IUser>({
   },
   role: {
     type: String,
-    enum: ['user', 'admin', 'moderator'],
+    trim: true,
+    lowercase: true,
     default: 'user',
     index: true
   },
@@ -141,6 +153,45 @@ const UserSchema = new Schema<IUser>({
       min: 0
     }
   },
+  followerCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  followingCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  coins: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: {
+      type: String,
+      select: false
+    },
+    pendingSecret: {
+      type: String,
+      select: false
+    },
+    backupCodes: {
+      type: [String],
+      default: [],
+      select: false
+    },
+    lastUsedStep: {
+      type: Number,
+      select: false
+    },
+    enabledAt: Date
+  },
   lastLogin: {
     type: Date
   }
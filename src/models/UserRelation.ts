@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type UserRelationType = 'follow' | 'block' | 'mute';
+
+export interface IUserRelation extends Document {
+  user: mongoose.Types.ObjectId; // The user who follows, blocks or mutes
+  target: mongoose.Types.ObjectId; // The user being followed, blocked or muted
+  type: UserRelationType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserRelationSchema = new Schema<IUserRelation>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  target: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['follow', 'block', 'mute'],
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'user_relations'
+});
+
+// One relation of each type per pair of users
+UserRelationSchema.index({ user: 1, target: 1, type: 1 }, { unique: true });
+
+// Indexes for follower/following lists
+UserRelationSchema.index({ user: 1, type: 1, _id: -1 });
+UserRelationSchema.index({ target: 1, type: 1, _id: -1 });
+
+export const UserRelation = mongoose.model<IUserRelation>('UserRelation', UserRelationSchema);
@@ -1,17 +1,79 @@
 import { Router } from 'express';
-import { authenticate, authorize } from '../middleware/auth';
-import { getKPIs, getLogs } from '../controllers/adminController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  checkSearchConsistency,
+  getContentFilterConfig,
+  getKPIs,
+  getLogs,
+  getNewsSchedules,
+  getProviderStatus,
+  getSearchStatus,
+  reindexSearch,
+  testContentFilter,
+  updateContentFilterConfig
+} from '../controllers/adminController';
 import { adminGetCricketTeam, adminListCricketTeams, adminUpsertCricketTeam } from '../controllers/cricketTeamAdminController';
-import { validateCricketTeamPayload, validateTeamSlug } from '../middleware/validation';
+import {
+  actOnModerationItem,
+  assignModerationItem,
+  bulkModerationAction,
+  claimModerationItem,
+  getModerationLog,
+  getModerationQueue,
+  releaseModerationItem
+} from '../controllers/moderationController';
+import { assignUserRole, deleteRole, getPermissions, getRoles, upsertRole } from '../controllers/roleController';
+import {
+  validateContentFilterConfig,
+  validateContentFilterTest,
+  validateCricketTeamPayload,
+  validateModerationAction,
+  validateModerationAssign,
+  validateModerationBulk,
+  validateModerationItemId,
+  validateModerationQueue,
+  validateRole,
+  validateRoleAssignment,
+  validateRoleName,
+  validateTeamSlug
+} from '../middleware/validation';
 
 const router = Router();
 
-router.get('/kpis', authenticate, authorize('moderator','admin','editor'), getKPIs);
-router.get('/logs', authenticate, authorize('admin'), getLogs);
-router.get('/cricket/teams', authenticate, authorize('editor','admin'), adminListCricketTeams);
-router.get('/cricket/teams/:slug', authenticate, authorize('editor','admin'), validateTeamSlug, adminGetCricketTeam);
-router.post('/cricket/teams', authenticate, authorize('editor','admin'), validateCricketTeamPayload, adminUpsertCricketTeam);
-router.put('/cricket/teams/:slug', authenticate, authorize('editor','admin'), validateTeamSlug, validateCricketTeamPayload, adminUpsertCricketTeam);
+router.get('/kpis', authenticate, requirePermission('admin.kpis'), getKPIs);
+router.get('/logs', authenticate, requirePermission('admin.logs'), getLogs);
+router.get('/news/schedules', authenticate, requirePermission('news.schedules.view'), getNewsSchedules);
+router.get('/providers', authenticate, requirePermission('admin.providers'), getProviderStatus);
+
+// Search indices
+router.get('/search', authenticate, requirePermission('admin.search'), getSearchStatus);
+router.get('/search/consistency', authenticate, requirePermission('admin.search'), checkSearchConsistency);
+router.post('/search/:index/reindex', authenticate, requirePermission('admin.search'), reindexSearch);
+router.get('/cricket/teams', authenticate, requirePermission('teams.manage'), adminListCricketTeams);
+router.get('/cricket/teams/:slug', authenticate, requirePermission('teams.manage'), validateTeamSlug, adminGetCricketTeam);
+router.post('/cricket/teams', authenticate, requirePermission('teams.manage'), validateCricketTeamPayload, adminUpsertCricketTeam);
+router.put('/cricket/teams/:slug', authenticate, requirePermission('teams.manage'), validateTeamSlug, validateCricketTeamPayload, adminUpsertCricketTeam);
+
+// Content filter rules
+router.get('/content-filter', authenticate, requirePermission('content_filter.manage'), getContentFilterConfig);
+router.put('/content-filter', authenticate, requirePermission('content_filter.manage'), validateContentFilterConfig, updateContentFilterConfig);
+router.post('/content-filter/test', authenticate, requirePermission('content_filter.test'), validateContentFilterTest, testContentFilter);
+
+// Unified moderation queue
+router.get('/moderation/queue', authenticate, requirePermission('moderation.queue'), validateModerationQueue, getModerationQueue);
+router.post('/moderation/queue/bulk', authenticate, requirePermission('moderation.queue'), validateModerationBulk, bulkModerationAction);
+router.post('/moderation/queue/:itemId/claim', authenticate, requirePermission('moderation.queue'), validateModerationItemId, claimModerationItem);
+router.post('/moderation/queue/:itemId/release', authenticate, requirePermission('moderation.queue'), validateModerationItemId, releaseModerationItem);
+router.post('/moderation/queue/:itemId/assign', authenticate, requirePermission('moderation.queue'), validateModerationAssign, assignModerationItem);
+router.post('/moderation/queue/:itemId/action', authenticate, requirePermission('moderation.queue'), validateModerationAction, actOnModerationItem);
+router.get('/moderation/log', authenticate, requirePermission('moderation.log'), getModerationLog);
+
+// Roles and permissions
+router.get('/roles', authenticate, requirePermission('roles.manage', 'roles.assign'), getRoles);
+router.get('/permissions', authenticate, requirePermission('roles.manage'), getPermissions);
+router.put('/roles/:name', authenticate, requirePermission('roles.manage'), validateRole, upsertRole);
+router.delete('/roles/:name', authenticate, requirePermission('roles.manage'), validateRoleName, deleteRole);
+router.put('/users/:id/role', authenticate, requirePermission('roles.assign'), validateRoleAssignment, assignUserRole);
 
 export default router;
 
@@ -4,6 +4,15 @@ import {
   login,
   logout,
   refreshToken,
+  getSessions,
+  revokeSession,
+  logoutAll,
+  verifyTwoFactorLogin,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
   forgotPassword,
   resetPassword,
   verifyEmail,
@@ -13,12 +22,15 @@ import {
   updateProfile,
   deleteAccount
 } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuth } from '../middleware/auth';
 import { 
   validateUserRegistration,
   validateUserLogin,
   validatePasswordReset,
-  validatePasswordUpdate
+  validatePasswordUpdate,
+  validateSessionId,
+  validateTwoFactorCode,
+  validateTwoFactorLogin
 } from '../middleware/validation';
 
 const router = Router();
@@ -26,17 +38,28 @@ const router = Router();
 // Public routes
 router.post('/register', validateUserRegistration, register);
 router.post('/login', validateUserLogin, login);
-router.post('/logout', logout);
+router.post('/logout', optionalAuth, logout);
 router.post('/refresh-token', refreshToken);
 router.post('/forgot-password', validatePasswordReset, forgotPassword);
 router.post('/reset-password', resetPassword);
 router.get('/verify-email/:token', verifyEmail);
 router.post('/resend-verification', resendVerification);
 
+// Two-factor authentication; setup and enable also accept the enroll challenge from login
+router.post('/2fa/login', validateTwoFactorLogin, verifyTwoFactorLogin);
+router.post('/2fa/setup', optionalAuth, setupTwoFactor);
+router.post('/2fa/enable', optionalAuth, validateTwoFactorCode, enableTwoFactor);
+
 // Protected routes (require authentication)
 router.get('/profile', authenticate, getProfile);
 router.put('/profile', authenticate, updateProfile);
 router.put('/change-password', authenticate, validatePasswordUpdate, changePassword);
 router.delete('/account', authenticate, deleteAccount);
+router.get('/sessions', authenticate, getSessions);
+router.delete('/sessions/:sessionId', authenticate, validateSessionId, revokeSession);
+router.post('/logout-all', authenticate, logoutAll);
+router.get('/2fa', authenticate, getTwoFactorStatus);
+router.post('/2fa/disable', authenticate, validateTwoFactorCode, disableTwoFactor);
+router.post('/2fa/backup-codes', authenticate, validateTwoFactorCode, regenerateBackupCodes);
 
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { getAwardTypes, upsertAwardType } from '../controllers/awardController';
+import { authenticate, requirePermission, optionalAuth } from '../middleware/auth';
+import { validateAwardType } from '../middleware/threadValidation';
+
+const router = Router();
+
+// Public routes
+router.get('/', optionalAuth, getAwardTypes);
+
+// Admin routes
+router.post('/', authenticate, requirePermission('awards.manage'), validateAwardType, upsertAwardType);
+router.put('/:key', authenticate, requirePermission('awards.manage'), validateAwardType, upsertAwardType);
+
+export default router;
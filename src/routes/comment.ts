@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { 
   getComments,
+  getCommentTree,
   getCommentById,
   createComment,
   updateComment,
@@ -13,7 +14,8 @@ import {
   resolveReport,
   adminHideComment
 } from '../controllers/commentController';
-import { authenticate, authorize } from '../middleware/auth';
+import { awardComment } from '../controllers/awardController';
+import { authenticate, requirePermission, optionalAuth } from '../middleware/auth';
 import { 
   validatePagination
 } from '../middleware/validation';
@@ -21,17 +23,21 @@ import {
   validateCommentCreation,
   validateCommentUpdate,
   validateVote,
-  validateReport
+  validateReport,
+  validateAward,
+  validateCommentTree
 } from '../middleware/threadValidation';
 
 const router = Router();
 
 // Public routes
-router.get('/thread/:threadId', validatePagination, getComments);
-router.get('/article/:articleId', validatePagination, getComments);
-router.get('/:id', getCommentById);
+router.get('/thread/:threadId', optionalAuth, validatePagination, getComments);
+router.get('/article/:articleId', optionalAuth, validatePagination, getComments);
+router.get('/thread/:threadId/tree', optionalAuth, validateCommentTree, getCommentTree);
+router.get('/article/:articleId/tree', optionalAuth, validateCommentTree, getCommentTree);
+router.get('/:id', optionalAuth, getCommentById);
 router.get('/:id/stats', getCommentStats);
-router.get('/:id/replies', validatePagination, getCommentReplies);
+router.get('/:id/replies', optionalAuth, validatePagination, getCommentReplies);
 
 // Protected routes (require authentication)
 router.post('/', authenticate, validateCommentCreation, createComment);
@@ -39,10 +45,11 @@ router.put('/:id', authenticate, validateCommentUpdate, updateComment);
 router.delete('/:id', authenticate, deleteComment);
 router.post('/:id/vote', authenticate, validateVote, voteComment);
 router.post('/:id/report', authenticate, validateReport, reportComment);
+router.post('/:id/award', authenticate, validateAward, awardComment);
 
 // Admin/moderator moderation routes
-router.get('/reports', authenticate, authorize('moderator','admin'), listReportedComments);
-router.post('/:id/reports/resolve', authenticate, authorize('moderator','admin'), resolveReport);
-router.post('/:id/hide', authenticate, authorize('moderator','admin'), adminHideComment);
+router.get('/reports', authenticate, requirePermission('reports.manage'), listReportedComments);
+router.post('/:id/reports/resolve', authenticate, requirePermission('reports.manage'), resolveReport);
+router.post('/:id/hide', authenticate, requirePermission('comment.hide'), adminHideComment);
 
 export default router;
@@ -17,7 +17,7 @@ import {
   getComments,
   getContentStats
 } from '../controllers/contentController';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { 
   validateContentCreation,
   validateContentUpdate,
@@ -47,7 +47,7 @@ router.post('/:id/dislike', authenticate, dislikeContent);
 router.post('/:id/comments', authenticate, addComment);
 
 // Admin/Moderator routes
-router.patch('/:id/approve', authenticate, authorize('admin', 'moderator'), approveContent);
-router.patch('/:id/reject', authenticate, authorize('admin', 'moderator'), rejectContent);
+router.patch('/:id/approve', authenticate, requirePermission('content.approve'), approveContent);
+router.patch('/:id/reject', authenticate, requirePermission('content.approve'), rejectContent);
 
 export default router;
@@ -3,6 +3,11 @@ import {
   getCricketMatches, 
   getCricketMatchById, 
   getCricketMatchCommentary,
+  getCricketMatchScorecard,
+  getCricketMatchOvers,
+  getCricketMatchCharts,
+  getCricketMatchPartnerships,
+  getCricketMatchFallOfWickets,
   getLiveCricketMatches,
   getCricketFixtures,
   getCricketResults,
@@ -18,6 +23,7 @@ import {
 import { authenticate } from '../middleware/auth';
 import { 
   validateMatchId, 
+  validateMatchRef,
   validatePagination, 
   validateDateRange,
   validateSearch,
@@ -33,6 +39,11 @@ router.get('/matches/fixtures', validatePagination, validateDateRange, getCricke
 router.get('/matches/results', validatePagination, validateDateRange, getCricketResults);
 router.get('/matches/:id', validateMatchId, getCricketMatchById);
 router.get('/matches/:id/commentary', validateMatchId, getCricketMatchCommentary);
+router.get('/matches/:id/scorecard', validateMatchRef, getCricketMatchScorecard);
+router.get('/matches/:id/overs', validateMatchRef, getCricketMatchOvers);
+router.get('/matches/:id/charts', validateMatchRef, getCricketMatchCharts);
+router.get('/matches/:id/partnerships', validateMatchRef, getCricketMatchPartnerships);
+router.get('/matches/:id/fall-of-wickets', validateMatchRef, getCricketMatchFallOfWickets);
 router.get('/series', validatePagination, getCricketSeries);
 router.get('/teams', getCricketTeamSummaries);
 router.get('/teams/:slug', validateTeamSlug, getCricketTeamDetail);
@@ -6,6 +6,7 @@ import {
   getFootballFixtures,
   getFootballResults,
   getFootballLeagues,
+  getFootballLeagueStandings,
   getFootballTeams,
   getFootballPlayers,
   getFootballStats
@@ -15,7 +16,8 @@ import {
   validateMatchId, 
   validatePagination, 
   validateDateRange,
-  validateSearch 
+  validateSearch,
+  validateLeagueRef
 } from '../middleware/validation';
 
 const router = Router();
@@ -27,6 +29,7 @@ router.get('/matches/fixtures', validatePagination, validateDateRange, getFootba
 router.get('/matches/results', validatePagination, validateDateRange, getFootballResults);
 router.get('/matches/:id', validateMatchId, getFootballMatchById);
 router.get('/leagues', validatePagination, getFootballLeagues);
+router.get('/leagues/:id/standings', validateLeagueRef, getFootballLeagueStandings);
 router.get('/teams', getFootballTeams);
 router.get('/players', validatePagination, validateSearch, getFootballPlayers);
 router.get('/stats', validateSearch, getFootballStats);
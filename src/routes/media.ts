@@ -1,13 +1,13 @@
 import { Router } from 'express';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { upload, handleUploadError } from '../middleware/upload';
 import { listMedia, uploadMedia, deleteMedia } from '../controllers/mediaController';
 
 const router = Router();
 
-router.get('/', authenticate, authorize('moderator','admin','editor','writer'), listMedia);
-router.post('/', authenticate, authorize('moderator','admin','editor','writer'), upload.single('file'), handleUploadError, uploadMedia);
-router.delete('/', authenticate, authorize('moderator','admin','editor','writer'), deleteMedia);
+router.get('/', authenticate, requirePermission('media.view'), listMedia);
+router.post('/', authenticate, requirePermission('media.upload'), upload.single('file'), handleUploadError, uploadMedia);
+router.delete('/', authenticate, requirePermission('media.delete'), deleteMedia);
 
 export default router;
 
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { 
   createArticle,
   updateArticle,
@@ -16,13 +16,14 @@ import {
   dislikeArticle,
   getRelatedArticles
 } from '../controllers/newsController';
+import { validateNewsSearch } from '../middleware/validation';
 
 const router = Router();
 
 // Public read endpoints
 router.get('/', listArticles);
 router.get('/trending', trending);
-router.get('/search', searchNews);
+router.get('/search', validateNewsSearch, searchNews);
 router.get('/slug/*', getByWildcardSlug);
 router.get('/:slug', getBySlug);
 router.get('/articles/:id/related', getRelatedArticles);
@@ -30,12 +31,12 @@ router.post('/articles/:id/like', likeArticle);
 router.post('/articles/:id/dislike', dislikeArticle);
 
 // Editorial endpoints (protected)
-router.post('/articles', authenticate, authorize('writer','editor','admin'), createArticle);
-router.put('/articles/:id', authenticate, authorize('writer','editor','admin'), updateArticle);
-router.post('/articles/:id/submit', authenticate, authorize('writer','editor','admin'), submitForReview);
-router.post('/articles/:id/schedule', authenticate, authorize('editor','admin'), scheduleArticle);
-router.post('/articles/:id/publish', authenticate, authorize('editor','admin'), publishArticle);
-router.post('/articles/:id/unpublish', authenticate, authorize('editor','admin'), unpublishArticle);
+router.post('/articles', authenticate, requirePermission('news.create'), createArticle);
+router.put('/articles/:id', authenticate, requirePermission('news.edit'), updateArticle);
+router.post('/articles/:id/submit', authenticate, requirePermission('news.submit'), submitForReview);
+router.post('/articles/:id/schedule', authenticate, requirePermission('news.schedule'), scheduleArticle);
+router.post('/articles/:id/publish', authenticate, requirePermission('news.publish'), publishArticle);
+router.post('/articles/:id/unpublish', authenticate, requirePermission('news.publish'), unpublishArticle);
 
 export default router;
 
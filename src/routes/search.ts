@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { globalSearch, suggest } from '../controllers/searchController';
+import { validateGlobalSearch, validateSuggest } from '../middleware/validation';
+
+const router = Router();
+
+// Public search endpoints
+router.get('/', validateGlobalSearch, globalSearch);
+router.get('/suggest', validateSuggest, suggest);
+
+export default router;
@@ -6,12 +6,15 @@ import {
   updateThread,
   deleteThread,
   voteThread,
+  votePoll,
+  getThreadPoll,
   pinThread,
   lockThread,
   reportThread,
   getThreadStats
 } from '../controllers/threadController';
-import { authenticate, authorize } from '../middleware/auth';
+import { awardThread } from '../controllers/awardController';
+import { authenticate, requirePermission, optionalAuth } from '../middleware/auth';
 import { 
   validatePagination,
   validateSearch
@@ -20,14 +23,17 @@ import {
   validateThreadCreation,
   validateThreadUpdate,
   validateVote,
+  validatePollVote,
+  validateAward,
   validateReport
 } from '../middleware/threadValidation';
 
 const router = Router();
 
 // Public routes
-router.get('/', validatePagination, validateSearch, getThreads);
-router.get('/:id', getThreadById);
+router.get('/', optionalAuth, validatePagination, validateSearch, getThreads);
+router.get('/:id', optionalAuth, getThreadById);
+router.get('/:id/poll', optionalAuth, getThreadPoll);
 router.get('/:id/stats', getThreadStats);
 
 // Protected routes (require authentication)
@@ -35,10 +41,12 @@ router.post('/', authenticate, validateThreadCreation, createThread);
 router.put('/:id', authenticate, validateThreadUpdate, updateThread);
 router.delete('/:id', authenticate, deleteThread);
 router.post('/:id/vote', authenticate, validateVote, voteThread);
+router.post('/:id/poll/vote', authenticate, validatePollVote, votePoll);
 router.post('/:id/report', authenticate, validateReport, reportThread);
+router.post('/:id/award', authenticate, validateAward, awardThread);
 
 // Moderator/Admin routes
-router.post('/:id/pin', authenticate, authorize('admin', 'moderator'), pinThread);
-router.post('/:id/lock', authenticate, authorize('admin', 'moderator'), lockThread);
+router.post('/:id/pin', authenticate, requirePermission('thread.pin'), pinThread);
+router.post('/:id/lock', authenticate, requirePermission('thread.lock'), lockThread);
 
 export default router;
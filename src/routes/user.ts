@@ -4,6 +4,11 @@ import {
   getUserById,
   updateUser,
   deleteUser,
+  resetUserTwoFactor,
+  unsubscribeEmail,
+  checkUnsubscribeToken,
+  unlockUser,
+  getUserLoginAttempts,
   getUserStats,
   getTopContributors,
   getUserContent,
@@ -11,18 +16,59 @@ import {
   unfollowUser,
   getFollowers,
   getFollowing,
+  getRelationship,
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  getFollowingFeed,
   updatePreferences,
   getNotifications,
+  getUnreadNotificationCount,
   markNotificationAsRead,
+  markAllNotificationsAsRead,
   deleteNotification
 } from '../controllers/userController';
-import { authenticate, authorize } from '../middleware/auth';
-import { validatePagination } from '../middleware/validation';
+import { getCoinBalance, getCoinTransactions } from '../controllers/awardController';
+import {
+  appealSanction,
+  getMySanctions,
+  getPendingAppeals,
+  getUserAdminProfile,
+  getUserSanctions,
+  issueSanction,
+  reviewSanctionAppeal,
+  revokeSanction
+} from '../controllers/sanctionController';
+import { authenticate, authenticateAllowSanctioned, requirePermission } from '../middleware/auth';
+import {
+  validateAppealReview,
+  validatePagination,
+  validateSanction,
+  validateSanctionAppeal,
+  validateSanctionId
+} from '../middleware/validation';
 
 const router = Router();
 
+// Current user routes (declared before /:id so they are not shadowed)
+router.put('/preferences', authenticate, updatePreferences);
+router.get('/feed/following', authenticate, validatePagination, getFollowingFeed);
+router.get('/notifications', authenticate, getNotifications);
+router.get('/notifications/unread-count', authenticate, getUnreadNotificationCount);
+router.patch('/notifications/read-all', authenticate, markAllNotificationsAsRead);
+router.patch('/notifications/:id/read', authenticate, markNotificationAsRead);
+router.delete('/notifications/:id', authenticate, deleteNotification);
+router.get('/coins', authenticate, getCoinBalance);
+router.get('/coins/transactions', authenticate, getCoinTransactions);
+router.get('/sanctions', authenticateAllowSanctioned, getMySanctions);
+router.post('/sanctions/:sanctionId/appeal', authenticateAllowSanctioned, validateSanctionAppeal, appealSanction);
+
 // Public routes
 router.get('/top-contributors', getTopContributors);
+// Only POST unsubscribes (the confirmation page and one-click List-Unsubscribe); GET just checks the link
+router.get('/email/unsubscribe/:token', checkUnsubscribeToken);
+router.post('/email/unsubscribe/:token', unsubscribeEmail);
 router.get('/:id', getUserById);
 router.get('/:id/content', validatePagination, getUserContent);
 router.get('/:id/followers', getFollowers);
@@ -35,13 +81,23 @@ router.delete('/:id', authenticate, deleteUser);
 router.get('/:id/stats', authenticate, getUserStats);
 router.post('/:id/follow', authenticate, followUser);
 router.delete('/:id/follow', authenticate, unfollowUser);
-router.put('/preferences', authenticate, updatePreferences);
-router.get('/notifications', authenticate, getNotifications);
-router.patch('/notifications/:id/read', authenticate, markNotificationAsRead);
-router.delete('/notifications/:id', authenticate, deleteNotification);
+router.get('/:id/relationship', authenticate, getRelationship);
+router.post('/:id/block', authenticate, blockUser);
+router.delete('/:id/block', authenticate, unblockUser);
+router.post('/:id/mute', authenticate, muteUser);
+router.delete('/:id/mute', authenticate, unmuteUser);
 
 // Admin routes
-router.get('/admin/all', authenticate, authorize('admin'), getUsers);
-router.delete('/admin/:id', authenticate, authorize('admin'), deleteUser);
+router.get('/admin/all', authenticate, requirePermission('users.manage'), getUsers);
+router.delete('/admin/:id', authenticate, requirePermission('users.manage'), deleteUser);
+router.get('/admin/sanctions/appeals', authenticate, requirePermission('users.sanction'), getPendingAppeals);
+router.post('/admin/sanctions/:sanctionId/revoke', authenticate, requirePermission('users.sanction'), validateSanctionId, revokeSanction);
+router.post('/admin/sanctions/:sanctionId/appeal/review', authenticate, requirePermission('users.sanction'), validateAppealReview, reviewSanctionAppeal);
+router.post('/admin/:id/2fa/reset', authenticate, requirePermission('users.reset_two_factor'), resetUserTwoFactor);
+router.post('/admin/:id/unlock', authenticate, requirePermission('users.unlock'), unlockUser);
+router.get('/admin/:id/login-attempts', authenticate, requirePermission('users.unlock'), validatePagination, getUserLoginAttempts);
+router.get('/admin/:id/profile', authenticate, requirePermission('users.view'), getUserAdminProfile);
+router.get('/admin/:id/sanctions', authenticate, requirePermission('users.sanction'), getUserSanctions);
+router.post('/admin/:id/sanctions', authenticate, requirePermission('users.sanction'), validateSanction, issueSanction);
 
 export default router;
@@ -0,0 +1,79 @@
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from '../utils/database';
+import { ModerationItem } from '../models/ModerationItem';
+import { Thread } from '../models/Thread';
+import { Comment } from '../models/Comment';
+import { Content } from '../models/Content';
+import { NewsArticle } from '../models/NewsArticle';
+
+// Seeds the moderation queue with reports and submissions that were pending before the
+// queue existed. Entries that are already queued are left untouched, so it is safe to rerun.
+async function backfillModerationQueue() {
+  try {
+    await connectDatabase();
+
+    const upsert = (targetType: string, targetId: any, kind: 'report' | 'approval', fields: Record<string, any>) => ({
+      updateOne: {
+        filter: { targetType, targetId, kind },
+        update: { $setOnInsert: { targetType, targetId, kind, status: 'pending', ...fields } },
+        upsert: true,
+      },
+    });
+
+    const reportFields = (doc: any) => {
+      const pending = doc.reports.filter((r: any) => r.status === 'pending');
+      const dates = pending.map((r: any) => new Date(r.reportedAt).getTime());
+      return {
+        title: doc.title,
+        excerpt: doc.content ? String(doc.content).slice(0, 200) : undefined,
+        author: doc.author,
+        reasons: [...new Set(pending.map((r: any) => r.reason))],
+        reportCount: pending.length,
+        firstReportedAt: new Date(Math.min(...dates)),
+        lastReportedAt: new Date(Math.max(...dates)),
+      };
+    };
+
+    const [threads, comments, contents, articles] = await Promise.all([
+      Thread.find({ 'reports.status': 'pending', isDeleted: false }).select('title content author reports').lean(),
+      Comment.find({ 'reports.status': 'pending', isDeleted: false }).select('content author reports').lean(),
+      Content.find({ status: 'pending' }).select('title content contributor createdAt updatedAt').lean(),
+      NewsArticle.find({ state: 'in_review' }).select('title summary body author updatedAt').lean(),
+    ]);
+
+    const operations = [
+      ...threads.map((t) => upsert('thread', t._id, 'report', reportFields(t))),
+      ...comments.map((c) => upsert('comment', c._id, 'report', reportFields(c))),
+      ...contents.map((c: any) => upsert('content', c._id, 'approval', {
+        title: c.title,
+        excerpt: String(c.content).slice(0, 200),
+        author: c.contributor,
+        firstReportedAt: c.updatedAt || c.createdAt,
+        lastReportedAt: c.updatedAt || c.createdAt,
+      })),
+      ...articles.map((a: any) => upsert('news', a._id, 'approval', {
+        title: a.title,
+        excerpt: String(a.summary || a.body).slice(0, 200),
+        author: a.author,
+        firstReportedAt: a.updatedAt,
+        lastReportedAt: a.updatedAt,
+      })),
+    ];
+
+    if (operations.length > 0) {
+      const result = await ModerationItem.bulkWrite(operations, { ordered: false });
+      console.log(`✅ Queued ${result.upsertedCount} item(s) (${operations.length - result.upsertedCount} already queued)`);
+    } else {
+      console.log('Nothing pending to queue');
+    }
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling moderation queue:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+backfillModerationQueue();
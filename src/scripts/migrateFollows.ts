@@ -0,0 +1,82 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { connectDatabase, disconnectDatabase } from '../utils/database';
+import { User } from '../models/User';
+import { UserRelation } from '../models/UserRelation';
+
+// Moves followed user IDs out of preferences.favoriteTeams into the user_relations
+// collection, then recomputes followerCount/followingCount for every user.
+// Safe to run more than once.
+async function migrateFollows() {
+  try {
+    await connectDatabase();
+
+    let migrated = 0;
+    let usersTouched = 0;
+
+    const cursor = User.find({ 'preferences.favoriteTeams.0': { $exists: true } })
+      .select('preferences.favoriteTeams')
+      .cursor();
+
+    for await (const user of cursor) {
+      const candidateIds = (user.preferences.favoriteTeams || []).filter(
+        (entry) => mongoose.Types.ObjectId.isValid(entry) && String(new mongoose.Types.ObjectId(entry)) === entry
+      );
+      if (candidateIds.length === 0) continue;
+
+      // Team IDs can look like ObjectIds too, so only move entries that are real users
+      const followedUsers = await User.find({ _id: { $in: candidateIds } }).select('_id').lean();
+      const followedIds = followedUsers.map((u) => u._id.toString()).filter((id) => id !== user._id.toString());
+      if (followedIds.length === 0) continue;
+
+      const result = await UserRelation.bulkWrite(
+        followedIds.map((targetId) => ({
+          updateOne: {
+            filter: { user: user._id, target: targetId, type: 'follow' },
+            update: { $setOnInsert: { user: user._id, target: targetId, type: 'follow' } },
+            upsert: true,
+          },
+        }))
+      );
+
+      await User.updateOne(
+        { _id: user._id },
+        { $pull: { 'preferences.favoriteTeams': { $in: followedUsers.map((u) => u._id.toString()) } } }
+      );
+
+      migrated += result.upsertedCount;
+      usersTouched += 1;
+    }
+
+    console.log(`Migrated ${migrated} follow(s) from ${usersTouched} user(s)`);
+
+    // Recompute counters from the relation collection
+    const [followerCounts, followingCounts] = await Promise.all([
+      UserRelation.aggregate([{ $match: { type: 'follow' } }, { $group: { _id: '$target', count: { $sum: 1 } } }]),
+      UserRelation.aggregate([{ $match: { type: 'follow' } }, { $group: { _id: '$user', count: { $sum: 1 } } }]),
+    ]);
+
+    await User.updateMany({}, { $set: { followerCount: 0, followingCount: 0 } });
+    if (followerCounts.length > 0) {
+      await User.bulkWrite(followerCounts.map((c) => ({
+        updateOne: { filter: { _id: c._id }, update: { $set: { followerCount: c.count } } },
+      })));
+    }
+    if (followingCounts.length > 0) {
+      await User.bulkWrite(followingCounts.map((c) => ({
+        updateOne: { filter: { _id: c._id }, update: { $set: { followingCount: c.count } } },
+      })));
+    }
+
+    console.log('✅ Follower counts recomputed');
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating follows:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+migrateFollows();
@@ -0,0 +1,57 @@
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from '../utils/database';
+import { connectRedis, disconnectRedis } from '../utils/redis';
+import { Role } from '../models/Role';
+import { User } from '../models/User';
+import { permissionService, DEFAULT_ROLES } from '../services/permissionService';
+
+// Seeds the built-in roles (user, writer, editor, moderator, admin) and reconciles every
+// user's role with the roles collection. Users holding a role that no longer exists are
+// moved to 'user'. Pass --dry-run to only report. Safe to run more than once.
+async function migrateRoles() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    await connectDatabase();
+    await connectRedis();
+
+    if (!dryRun) {
+      await permissionService.ensureDefaultRoles();
+      console.log(`✅ Built-in roles ensured: ${DEFAULT_ROLES.map((r) => r.name).join(', ')}`);
+    }
+
+    const known = new Set([
+      ...DEFAULT_ROLES.map((r) => r.name),
+      ...(await Role.find().select('name').lean()).map((r) => r.name),
+    ]);
+
+    const usage: Array<{ _id: string | null; count: number }> = await User.aggregate([
+      { $group: { _id: '$role', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+    ]);
+
+    for (const { _id: role, count } of usage) {
+      console.log(`${known.has(role as string) ? ' ' : '!'} ${role ?? '(none)'}: ${count} user(s)`);
+    }
+
+    const unknown = usage.filter((u) => !known.has(u._id as string)).map((u) => u._id);
+    if (unknown.length > 0) {
+      if (dryRun) {
+        console.log(`Would reset ${unknown.length} unknown role(s) to 'user'`);
+      } else {
+        const result = await User.updateMany({ role: { $in: unknown } }, { $set: { role: 'user' } });
+        console.log(`✅ Reset ${result.modifiedCount} user(s) with unknown roles to 'user'`);
+      }
+    }
+
+    await disconnectRedis();
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating roles:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+migrateRoles();
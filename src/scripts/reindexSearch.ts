@@ -0,0 +1,80 @@
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from '../utils/database';
+import { connectRedis, disconnectRedis } from '../utils/redis';
+import { connectElasticsearch, isElasticsearchAvailable, SEARCH_INDEX_NAMES, SearchIndexName } from '../utils/elasticsearch';
+import { searchIndexService } from '../services/searchIndexService';
+
+// Rebuilds search indices from Mongo without downtime: each index is copied into a new
+// versioned index and its alias is switched over once the copy is complete.
+//
+//   npm run search:reindex -- content threads   rebuild the named indices
+//   npm run search:reindex -- --all              rebuild every index
+//   npm run search:reindex -- --check            only compare Mongo and Elasticsearch counts
+//
+// --keep-old keeps the previous versioned index; --batch-size=N sets the bulk size (default 500).
+async function reindexSearch() {
+  const args = process.argv.slice(2);
+  const flags = new Set(args.filter((a) => a.startsWith('--')).map((a) => a.split('=')[0]));
+  const batchSize = Number(args.find((a) => a.startsWith('--batch-size='))?.split('=')[1]) || undefined;
+  const named = args.filter((a) => !a.startsWith('--'));
+
+  const unknown = named.filter((name) => !searchIndexService.isSearchIndex(name));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown index: ${unknown.join(', ')} (available: ${SEARCH_INDEX_NAMES.join(', ')})`);
+    process.exit(1);
+  }
+  const indices = flags.has('--all') ? SEARCH_INDEX_NAMES : (named as SearchIndexName[]);
+  if (indices.length === 0 && !flags.has('--check')) {
+    console.error(`Usage: reindexSearch [--all | ${SEARCH_INDEX_NAMES.join(' ')}] [--check] [--keep-old] [--batch-size=N]`);
+    process.exit(1);
+  }
+
+  try {
+    await connectDatabase();
+    await connectRedis();
+    await connectElasticsearch();
+    if (!isElasticsearchAvailable()) {
+      throw new Error('Elasticsearch is not reachable');
+    }
+
+    let failed = false;
+    for (const index of indices) {
+      console.log(`🔄 Reindexing ${index}...`);
+      const result = await searchIndexService.reindex(index, {
+        batchSize,
+        keepOld: flags.has('--keep-old'),
+        onProgress: (p) => {
+          if (p.status === 'running') console.log(`   ${p.indexed + p.failed}/${p.total} (${p.failed} failed)`);
+        },
+      });
+
+      if ('error' in result) {
+        console.error(`❌ ${index}: ${result.error === 'in_progress' ? 'already being reindexed' : 'Elasticsearch unavailable'}`);
+        failed = true;
+      } else if (result.progress.status === 'failed') {
+        console.error(`❌ ${index}: ${result.progress.error}`);
+        failed = true;
+      } else {
+        const { target, indexed, failed: docFailures, caughtUp } = result.progress;
+        console.log(`✅ ${index} -> ${target}: ${indexed} indexed, ${docFailures} failed, ${caughtUp} caught up`);
+        failed = failed || docFailures > 0;
+      }
+    }
+
+    const report = await searchIndexService.checkConsistency(indices.length > 0 ? indices : SEARCH_INDEX_NAMES);
+    console.log('\nIndex              Mongo   Elasticsearch');
+    for (const r of report) {
+      console.log(`${r.inSync ? ' ' : '!'} ${r.index.padEnd(17)}${String(r.mongo).padStart(6)}   ${r.elasticsearch ?? 'missing'}`);
+    }
+
+    await disconnectRedis();
+    await disconnectDatabase();
+    process.exit(failed || (flags.has('--check') && report.some((r) => !r.inSync)) ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Error reindexing search:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+reindexSearch();
@@ -0,0 +1,230 @@
+import mongoose, { Model, UpdateQuery } from 'mongoose';
+import { AwardType, IAwardType } from '../models/AwardType';
+import { CoinTransaction, CoinTransactionReason, ICoinTransaction } from '../models/CoinTransaction';
+import { User } from '../models/User';
+import { Thread, IThread } from '../models/Thread';
+import { Comment } from '../models/Comment';
+import { logger } from '../utils/logger';
+
+// Coins earned by authors
+const COINS_PER_UPVOTE = Number(process.env.AWARD_COINS_PER_UPVOTE) || 1;
+const COINS_PER_APPROVED_CONTENT = Number(process.env.AWARD_COINS_PER_APPROVED_CONTENT) || 10;
+
+type AwardTarget = 'thread' | 'comment';
+
+// The fields awards touch are shaped the same on threads and comments
+type AwardablePost = Pick<IThread, 'author' | 'isDeleted' | 'awards'>;
+type AwardEntry = IThread['awards'][number] & { _id: mongoose.Types.ObjectId };
+
+const awardTarget = <T extends AwardablePost>(model: Model<T>) => ({
+  find: (id: string) => model.findById(id).select('author isDeleted').lean<AwardablePost>(),
+  push: (id: string, award: AwardEntry) => model.findByIdAndUpdate(id, { $push: { awards: award } } as UpdateQuery<T>, { new: true })
+    .select('awards')
+    .lean<Pick<AwardablePost, 'awards'>>(),
+  pull: (id: string, awardId: mongoose.Types.ObjectId) => model.updateOne({ _id: id }, { $pull: { awards: { _id: awardId } } } as UpdateQuery<T>)
+});
+
+const AWARD_TARGETS = {
+  thread: awardTarget(Thread),
+  comment: awardTarget(Comment)
+};
+
+interface LedgerEntry {
+  reason: CoinTransactionReason;
+  counterparty?: string;
+  reference?: ICoinTransaction['reference'];
+  awardType?: string;
+  note?: string;
+}
+
+export type GrantAwardResult =
+  | { ok: true; balance: number; awardCounts: Array<{ type: string; count: number }> }
+  | { ok: false; error: 'not_found' | 'unknown_award' | 'own_post' | 'insufficient_coins' };
+
+class AwardService {
+  async listTypes(includeInactive = false): Promise<IAwardType[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return AwardType.find(filter).sort({ cost: 1, name: 1 }).lean() as any;
+  }
+
+  async upsertType(key: string, data: Partial<IAwardType>): Promise<IAwardType> {
+    return AwardType.findOneAndUpdate(
+      { key },
+      { $set: { ...data, key } },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    ).lean() as any;
+  }
+
+  // Per-type totals for listings; awards are stored one entry per grant
+  summarize(awards: Array<{ type: string; count: number }> = []): Array<{ type: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const award of awards) {
+      counts.set(award.type, (counts.get(award.type) || 0) + (award.count || 1));
+    }
+    return [...counts.entries()]
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  private async record(userId: string, amount: number, balanceAfter: number, entry: LedgerEntry): Promise<void> {
+    await CoinTransaction.create({ user: userId, amount, balanceAfter, ...entry });
+  }
+
+  async credit(userId: string, amount: number, entry: LedgerEntry): Promise<number | null> {
+    const user = await User.findByIdAndUpdate(userId, { $inc: { coins: amount } }, { new: true }).select('coins').lean();
+    if (!user) return null;
+
+    await this.record(userId, amount, user.coins, entry);
+    return user.coins;
+  }
+
+  // Atomic debit that fails instead of going negative
+  async debit(userId: string, amount: number, entry: LedgerEntry): Promise<number | null> {
+    const user = await User.findOneAndUpdate(
+      { _id: userId, coins: { $gte: amount } },
+      { $inc: { coins: -amount } },
+      { new: true }
+    ).select('coins').lean();
+    if (!user) return null;
+
+    await this.record(userId, -amount, user.coins, entry);
+    return user.coins;
+  }
+
+  // Credit for a reward reason that pays at most once. The ledger row is claimed first, so the
+  // unique reward index turns a concurrent second payout into a duplicate key; returns null then.
+  private async creditOnce(userId: string, amount: number, entry: LedgerEntry): Promise<number | null> {
+    let claim: ICoinTransaction;
+    try {
+      claim = await CoinTransaction.create({ user: userId, amount, balanceAfter: 0, ...entry });
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+
+    try {
+      const user = await User.findByIdAndUpdate(userId, { $inc: { coins: amount } }, { new: true }).select('coins').lean();
+      if (!user) {
+        await CoinTransaction.deleteOne({ _id: claim._id });
+        return null;
+      }
+      await CoinTransaction.updateOne({ _id: claim._id }, { $set: { balanceAfter: user.coins } });
+      return user.coins;
+    } catch (error) {
+      await CoinTransaction.deleteOne({ _id: claim._id }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // One credit per voter per post, so toggling a vote cannot farm coins
+  async rewardUpvote(authorId: string, voterId: string, target: AwardTarget, targetId: string): Promise<void> {
+    if (authorId === voterId) return;
+
+    try {
+      await this.creditOnce(authorId, COINS_PER_UPVOTE, {
+        reason: 'upvote_received',
+        counterparty: voterId,
+        reference: { kind: target, id: targetId }
+      });
+    } catch (error) {
+      logger.error(`Failed to reward upvote on ${target} ${targetId}:`, error);
+    }
+  }
+
+  async rewardApprovedContent(contributorId: string, contentId: string): Promise<void> {
+    try {
+      await this.creditOnce(contributorId, COINS_PER_APPROVED_CONTENT, {
+        reason: 'content_approved',
+        reference: { kind: 'content', id: contentId }
+      });
+    } catch (error) {
+      logger.error(`Failed to reward approved content ${contentId}:`, error);
+    }
+  }
+
+  async grantAward(giverId: string, target: AwardTarget, targetId: string, awardKey: string): Promise<GrantAwardResult> {
+    const posts = AWARD_TARGETS[target];
+    const post = await posts.find(targetId);
+    if (!post || post.isDeleted) return { ok: false, error: 'not_found' };
+
+    const authorId = post.author.toString();
+    if (authorId === giverId) return { ok: false, error: 'own_post' };
+
+    const awardType = await AwardType.findOne({ key: awardKey, isActive: true }).lean();
+    if (!awardType) return { ok: false, error: 'unknown_award' };
+
+    const reference = { kind: target, id: targetId };
+    const balance = await this.debit(giverId, awardType.cost, {
+      reason: 'award_given',
+      counterparty: authorId,
+      reference,
+      awardType: awardType.key
+    });
+    if (balance === null) return { ok: false, error: 'insufficient_coins' };
+
+    // The giver has paid; if applying the award or paying the recipient fails, both are undone
+    const grantId = new mongoose.Types.ObjectId();
+    let updated: Pick<AwardablePost, 'awards'> | null = null;
+    try {
+      updated = await posts.push(targetId, {
+        _id: grantId,
+        type: awardType.key,
+        count: 1,
+        givenBy: new mongoose.Types.ObjectId(giverId),
+        givenAt: new Date()
+      });
+
+      if (updated && awardType.recipientCoins > 0) {
+        const received = await this.credit(authorId, awardType.recipientCoins, {
+          reason: 'award_received',
+          counterparty: giverId,
+          reference,
+          awardType: awardType.key
+        });
+        if (received === null) throw new Error('Award recipient no longer exists');
+      }
+    } catch (error) {
+      logger.error(`Failed to apply award to ${target} ${targetId}, refunding:`, error);
+      if (updated) {
+        await posts.pull(targetId, grantId).catch((pullError) => {
+          logger.error(`Failed to remove award ${grantId} from ${target} ${targetId}:`, pullError);
+        });
+      }
+      updated = null;
+    }
+
+    if (!updated) {
+      await this.credit(giverId, awardType.cost, { reason: 'refund', reference, awardType: awardType.key, note: 'Award could not be applied' });
+      return { ok: false, error: 'not_found' };
+    }
+
+    return { ok: true, balance, awardCounts: this.summarize(updated.awards) };
+  }
+
+  async getBalance(userId: string): Promise<number> {
+    const user = await User.findById(userId).select('coins').lean();
+    return user?.coins || 0;
+  }
+
+  async listTransactions(userId: string, options: { cursor?: string; limit?: number } = {}) {
+    const limit = Math.min(Math.max(Number(options.limit) || 20, 1), 100);
+    const filter: any = { user: userId };
+    if (options.cursor && mongoose.Types.ObjectId.isValid(options.cursor)) {
+      filter._id = { $lt: new mongoose.Types.ObjectId(options.cursor) };
+    }
+
+    const items = await CoinTransaction.find(filter)
+      .populate('counterparty', 'name avatar')
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = items.length > limit;
+    const transactions = hasMore ? items.slice(0, limit) : items;
+    const nextCursor = hasMore ? transactions[transactions.length - 1]._id.toString() : null;
+
+    return { transactions, nextCursor, hasMore };
+  }
+}
+
+export const awardService = new AwardService();
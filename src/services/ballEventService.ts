@@ -0,0 +1,238 @@
+import mongoose from 'mongoose';
+import { BallEvent, IBallEvent } from '../models/BallEvent';
+import { CricketMatch } from '../models/CricketMatch';
+import { sportsmonksService } from './sportsmonksService';
+import { transformSportsMonksBallToEvent } from '../utils/sportsmonksTransformers';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+export interface OverSummary {
+  over: number; // 1-based, as shown on scorecards
+  bowlers: string[];
+  runs: number;
+  wickets: number;
+  extras: number;
+  balls: string[]; // Short codes, e.g. "1", "4", "W", "1wd", "nb+2"
+  totalRuns: number; // Cumulative score at the end of the over
+  totalWickets: number;
+}
+
+export interface Partnership {
+  wicket: number; // Partnership for the nth wicket
+  batters: Array<{ id: string; name: string; runs: number; balls: number }>;
+  runs: number;
+  balls: number;
+  startScore: number;
+  endScore: number;
+  unbroken: boolean;
+}
+
+export interface FallOfWicket {
+  wicket: number;
+  score: number;
+  over: string; // e.g. "12.3"
+  playerOut: { id: string; name: string };
+  kind: string;
+  bowler: string;
+  fielder?: string;
+}
+
+export interface InningsTimeline {
+  innings: number;
+  battingTeam?: string;
+  overs: OverSummary[];
+  partnerships: Partnership[];
+  fallOfWickets: FallOfWicket[];
+}
+
+// Timelines are rebuilt from stored balls; a short cache keeps live polling cheap
+const TIMELINE_CACHE_TTL = 30;
+
+const ballCode = (event: IBallEvent): string => {
+  if (event.wicket) return 'W';
+  if (event.extras?.type === 'wide') return `${event.extras.runs}wd`;
+  if (event.extras?.type === 'noball') return event.runs.batter ? `nb+${event.runs.batter}` : 'nb';
+  if (event.extras?.type === 'bye') return `${event.extras.runs}b`;
+  if (event.extras?.type === 'legbye') return `${event.extras.runs}lb`;
+  return event.runs.total.toString();
+};
+
+// Over summaries, partnerships and fall of wickets for one innings, walking the balls in order
+const buildInnings = (innings: number, events: IBallEvent[]): InningsTimeline => {
+  const overs = new Map<number, OverSummary>();
+  const partnerships: Partnership[] = [];
+  const fallOfWickets: FallOfWicket[] = [];
+  let totalRuns = 0;
+  let totalWickets = 0;
+
+  const openPartnership = (): Partnership => ({
+    wicket: totalWickets + 1,
+    batters: [],
+    runs: 0,
+    balls: 0,
+    startScore: totalRuns,
+    endScore: totalRuns,
+    unbroken: true,
+  });
+  let partnership = openPartnership();
+
+  const partner = (player?: { id: string; name: string }) => {
+    if (!player) return undefined;
+    let entry = partnership.batters.find((b) => b.id === player.id);
+    if (!entry) {
+      entry = { id: player.id, name: player.name, runs: 0, balls: 0 };
+      partnership.batters.push(entry);
+    } else if (entry.name === 'Unknown' && player.name !== 'Unknown') {
+      entry.name = player.name;
+    }
+    return entry;
+  };
+
+  for (const event of events) {
+    let summary = overs.get(event.over);
+    if (!summary) {
+      summary = { over: event.over + 1, bowlers: [], runs: 0, wickets: 0, extras: 0, balls: [], totalRuns, totalWickets };
+      overs.set(event.over, summary);
+    }
+    if (!summary.bowlers.includes(event.bowler.name)) summary.bowlers.push(event.bowler.name);
+
+    totalRuns += event.runs.total;
+    summary.runs += event.runs.total;
+    summary.extras += event.runs.extras;
+    summary.balls.push(ballCode(event));
+
+    const striker = partner(event.batter)!;
+    partner(event.nonStriker);
+    striker.runs += event.runs.batter;
+    if (event.extras?.type !== 'wide') striker.balls += 1;
+    partnership.runs += event.runs.total;
+    if (event.isLegal) partnership.balls += 1;
+    partnership.endScore = totalRuns;
+
+    if (event.wicket && event.wicket.kind !== 'retired') {
+      totalWickets += 1;
+      summary.wickets += 1;
+      fallOfWickets.push({
+        wicket: totalWickets,
+        score: totalRuns,
+        over: `${event.over}.${event.ball}`,
+        playerOut: event.wicket.playerOut,
+        kind: event.wicket.kind,
+        bowler: event.bowler.name,
+        fielder: event.wicket.fielder?.name,
+      });
+
+      partnership.unbroken = false;
+      partnerships.push(partnership);
+      partnership = openPartnership();
+    }
+
+    summary.totalRuns = totalRuns;
+    summary.totalWickets = totalWickets;
+  }
+
+  if (partnership.balls > 0 || partnership.runs > 0) {
+    partnerships.push(partnership);
+  }
+
+  return {
+    innings,
+    battingTeam: events[0]?.battingTeam,
+    overs: [...overs.values()].sort((a, b) => a.over - b.over),
+    partnerships,
+    fallOfWickets,
+  };
+};
+
+class BallEventService {
+  // Accepts either the provider match ID or the Mongo _id of a stored match
+  async resolveMatchId(id: string): Promise<string> {
+    if (!mongoose.Types.ObjectId.isValid(id)) return id;
+
+    const match = await CricketMatch.findOne({ $or: [{ matchId: id }, { _id: id }] }).select('matchId').lean();
+    return match ? match.matchId : id;
+  }
+
+  // Persist deliveries from provider commentary; returns how many were new or changed
+  async ingestCommentary(matchId: string, entries: any[]): Promise<number> {
+    const events = entries
+      .map((entry) => transformSportsMonksBallToEvent(entry, matchId))
+      .filter((event): event is Partial<IBallEvent> => !!event);
+
+    if (events.length === 0) return 0;
+
+    const result = await BallEvent.bulkWrite(events.map((event) => ({
+      updateOne: {
+        filter: { matchId, source: event.source, providerEventId: event.providerEventId },
+        update: { $set: event },
+        upsert: true,
+      },
+    })), { ordered: false });
+
+    const changed = result.upsertedCount + result.modifiedCount;
+    if (changed > 0) {
+      await redisClient.del(`cricket_timeline:${matchId}`);
+    }
+    return changed;
+  }
+
+  async syncFromProvider(matchId: string): Promise<number> {
+    const commentary = await sportsmonksService.getCommentary(matchId, 'cricket');
+    return this.ingestCommentary(matchId, commentary);
+  }
+
+  async getBalls(matchId: string, innings?: number): Promise<IBallEvent[]> {
+    const filter: any = { matchId };
+    if (innings) filter.innings = innings;
+    return BallEvent.find(filter).sort({ innings: 1, over: 1, ball: 1, sequence: 1 }).lean() as any;
+  }
+
+  // Over summaries, partnerships and fall of wickets for every innings of a match
+  async getTimeline(matchId: string): Promise<InningsTimeline[]> {
+    const cacheKey = `cricket_timeline:${matchId}`;
+    const cachedData = await redisClient.get(cacheKey);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    let balls = await this.getBalls(matchId);
+
+    // Nothing stored yet (e.g. ingestion is off): pull the commentary once
+    if (balls.length === 0 && process.env.SPORTMONKS_API_TOKEN) {
+      try {
+        if (await this.syncFromProvider(matchId)) {
+          balls = await this.getBalls(matchId);
+        }
+      } catch (error: any) {
+        logger.warn(`Could not sync ball-by-ball data for ${matchId}:`, error.message);
+      }
+    }
+
+    const byInnings = new Map<number, IBallEvent[]>();
+    for (const ball of balls) {
+      if (!byInnings.has(ball.innings)) byInnings.set(ball.innings, []);
+      byInnings.get(ball.innings)!.push(ball);
+    }
+
+    const timeline = [...byInnings.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([innings, events]) => buildInnings(innings, events));
+
+    await redisClient.set(cacheKey, JSON.stringify(timeline), TIMELINE_CACHE_TTL);
+    return timeline;
+  }
+
+  // Manhattan (runs per over) and worm (cumulative runs) series per innings
+  async getChartSeries(matchId: string) {
+    const timeline = await this.getTimeline(matchId);
+
+    return timeline.map(({ innings, battingTeam, overs }) => ({
+      innings,
+      battingTeam,
+      manhattan: overs.map(({ over, runs, wickets }) => ({ over, runs, wickets })),
+      worm: overs.map(({ over, totalRuns, totalWickets }) => ({ over, runs: totalRuns, wickets: totalWickets })),
+    }));
+  }
+}
+
+export const ballEventService = new BallEventService();
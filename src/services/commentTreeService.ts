@@ -0,0 +1,196 @@
+import { Comment } from '../models/Comment';
+import { awardService } from './awardService';
+import { sanctionService } from './sanctionService';
+import { controversialScore } from './threadRankingService';
+
+export type CommentTreeSort = 'best' | 'new' | 'old' | 'controversial';
+
+export interface CommentTreeOptions {
+  sort?: CommentTreeSort;
+  maxDepth?: number; // Levels returned below the starting point
+  limit?: number; // Comments returned per sibling group
+  continuation?: string;
+  viewerId?: string;
+}
+
+// Where a truncated branch continues; pass `continuation` back to load it
+export interface MoreReplies {
+  count: number;
+  continuation: string;
+}
+
+export interface CommentTreeNode {
+  _id: string;
+  parentComment?: string;
+  depth: number;
+  collapsed: boolean; // Deleted comment kept only to hold its replies
+  replyCount: number;
+  children: CommentTreeNode[];
+  more: MoreReplies | null;
+  [field: string]: any;
+}
+
+export type CommentTreeResult =
+  | { ok: true; comments: CommentTreeNode[]; more: MoreReplies | null }
+  | { ok: false; error: 'invalid_continuation' };
+
+// Replies loaded per request at most; branches beyond it come back as continuations
+const MAX_TREE_COMMENTS = 2000;
+
+interface Continuation {
+  p: string | null; // Parent comment whose children continue, null for top-level comments
+  o: number; // Siblings already shown
+}
+
+const encodeContinuation = (continuation: Continuation) =>
+  Buffer.from(JSON.stringify(continuation)).toString('base64url');
+
+const decodeContinuation = (token: string): Continuation | null => {
+  try {
+    const value = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if ((value.p === null || /^[a-f0-9]{24}$/.test(value.p)) && Number.isInteger(value.o) && value.o >= 0) return value;
+  } catch {
+    // Fall through to null
+  }
+  return null;
+};
+
+// Lower bound of the Wilson score interval (95%): the upvote ratio we can be confident of
+export const wilsonScore = (upvotes: number, downvotes: number): number => {
+  const n = upvotes + downvotes;
+  if (n === 0) return 0;
+  const z = 1.96;
+  const p = upvotes / n;
+  return (p + (z * z) / (2 * n) - z * Math.sqrt((p * (1 - p) + (z * z) / (4 * n)) / n)) / (1 + (z * z) / n);
+};
+
+const newest = (a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+const COMPARATORS: Record<CommentTreeSort, (a: any, b: any) => number> = {
+  best: (a, b) => wilsonScore(b.upvotes, b.downvotes) - wilsonScore(a.upvotes, a.downvotes) || b.score - a.score || newest(a, b),
+  new: newest,
+  old: (a, b) => -newest(a, b),
+  controversial: (a, b) => controversialScore(b.upvotes, b.downvotes) - controversialScore(a.upvotes, a.downvotes) || newest(a, b),
+};
+
+class CommentTreeService {
+  // Nested comments for a thread or article: one page of the starting level, then its replies by depth and path
+  async getTree(scope: { thread: string } | { article: string }, options: CommentTreeOptions = {}): Promise<CommentTreeResult> {
+    const { sort = 'best', maxDepth = 5, limit = 20 } = options;
+
+    let start: Continuation = { p: null, o: 0 };
+    if (options.continuation) {
+      const decoded = decodeContinuation(options.continuation);
+      if (!decoded) return { ok: false, error: 'invalid_continuation' };
+      start = decoded;
+    }
+
+    const filter: any = { ...scope };
+    let baseDepth = 0;
+    if (start.p) {
+      const parent = await Comment.findOne({ _id: start.p, ...scope }).select('path depth').lean();
+      if (!parent) return { ok: false, error: 'invalid_continuation' };
+      // Anchored prefix match, so the path index is used
+      filter.path = new RegExp(`^${parent.path}\\.`);
+      baseDepth = parent.depth + 1;
+    }
+
+    // Deleted comments are loaded too, to keep their replies attached; hidden ones are left out with their branch
+    const visibility = await sanctionService.visibilityClause(options.viewerId);
+    const visible = { $or: [{ isDeleted: false, $and: [visibility] }, { isDeleted: true }] };
+
+    // The starting level is sorted and paged on its own, so the cap below never cuts it short
+    const level = await Comment.find({ ...filter, depth: baseDepth, $and: [visible] })
+      .select('upvotes downvotes score createdAt path')
+      .lean();
+    const page = level.sort(COMPARATORS[sort]).slice(start.o, start.o + limit);
+
+    const populate = { path: 'author', select: 'name avatar stats' };
+    const [roots, descendants] = await Promise.all([
+      Comment.find({ _id: { $in: page.map((comment) => comment._id) } }).populate(populate).lean(),
+      page.length > 0 && maxDepth > 1
+        ? Comment.find({
+          ...scope,
+          depth: { $gt: baseDepth, $lte: baseDepth + maxDepth - 1 },
+          $and: [visible, { $or: page.map((comment) => ({ path: new RegExp(`^${comment.path}\\.`) })) }]
+        })
+          .populate(populate)
+          .sort({ depth: 1, createdAt: 1 })
+          .limit(MAX_TREE_COMMENTS)
+          .lean()
+        : [],
+    ]);
+
+    // Children of the last level, or of any level once the cap is hit, may not have been loaded
+    const lastDepth = baseDepth + maxDepth - 1;
+    const capped = descendants.length >= MAX_TREE_COMMENTS;
+
+    const childrenOf = new Map<string, any[]>([['root', roots]]);
+    for (const comment of descendants) {
+      const parentKey = comment.parentComment?.toString();
+      if (!parentKey) continue;
+      if (!childrenOf.has(parentKey)) childrenOf.set(parentKey, []);
+      childrenOf.get(parentKey)!.push(comment);
+    }
+
+    // Sort and cut one sibling group, dropping deleted comments with nothing left under them.
+    // `shownBefore` counts siblings on earlier pages; only the starting level is ever paged
+    const build = (parentKey: string, parentId: string | null, total: number, shownBefore: number) => {
+      const siblings = (childrenOf.get(parentKey) || []).sort(COMPARATORS[sort]);
+      const nodes: CommentTreeNode[] = [];
+      let shown = shownBefore;
+
+      for (const comment of siblings) {
+        if (nodes.length >= limit) break;
+        shown += 1;
+        const node = this.toNode(comment);
+        const childrenLoaded = !capped && node.depth < lastDepth;
+        const childGroup = build(node._id, node._id, childrenLoaded ? 0 : node.replyCount, 0);
+        node.children = childGroup.nodes;
+        node.more = childGroup.more;
+        if (node.collapsed && node.children.length === 0 && !node.more) continue;
+        nodes.push(node);
+      }
+
+      // Unloaded branches are counted from the parent's replies, which may include hidden comments
+      const remaining = Math.max(total - shown, shownBefore + siblings.length - shown);
+      const more = remaining > 0 ? { count: remaining, continuation: encodeContinuation({ p: parentId, o: shown }) } : null;
+      return { nodes, more };
+    };
+
+    const { nodes, more } = build('root', start.p, level.length, start.o);
+    return { ok: true, comments: nodes, more };
+  }
+
+  private toNode(comment: any): CommentTreeNode {
+    const { replies, awards, ...rest } = comment;
+    const node = {
+      ...rest,
+      _id: comment._id.toString(),
+      parentComment: comment.parentComment?.toString(),
+      collapsed: false,
+      replyCount: replies?.length || 0,
+      children: [],
+      more: null,
+    };
+
+    if (comment.isDeleted) {
+      return {
+        _id: node._id,
+        parentComment: node.parentComment,
+        depth: comment.depth,
+        createdAt: comment.createdAt,
+        isDeleted: true,
+        content: null,
+        author: null,
+        collapsed: true,
+        replyCount: node.replyCount,
+        children: [],
+        more: null,
+      };
+    }
+    return { ...node, awardCounts: awardService.summarize(awards) };
+  }
+}
+
+export const commentTreeService = new CommentTreeService();
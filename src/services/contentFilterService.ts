@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { ContentFilterConfig, FilterAction, IContentFilterConfig } from '../models/ContentFilterConfig';
+import { Thread } from '../models/Thread';
+import { Comment } from '../models/Comment';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+const CONFIG_CACHE_KEY = 'content_filter:config';
+const CONFIG_CACHE_TTL = 300;
+
+export interface FilterContext {
+  kind: 'thread' | 'comment';
+  authorId: string;
+  authorCreatedAt?: Date;
+  text: string; // Title and body joined
+  category?: string;
+  dryRun?: boolean; // Skip side effects (duplicate tracking) when testing rules
+}
+
+export interface FilterVerdict {
+  filter: string;
+  action: FilterAction;
+  reason: string;
+  matches?: string[];
+}
+
+export interface FilterResult {
+  action: FilterAction;
+  verdicts: FilterVerdict[];
+}
+
+// A pipeline stage; returns null when the post passes
+export interface ContentFilter {
+  name: string;
+  run(ctx: FilterContext, config: IContentFilterConfig): Promise<FilterVerdict | FilterVerdict[] | null>;
+  // Called once the post is let through (anything short of reject), for stages that remember what was posted
+  accepted?(ctx: FilterContext, config: IContentFilterConfig): Promise<void>;
+}
+
+// Report reason used when the filter flags a post into the moderation queue
+export const AUTO_FILTER_REASON = 'auto_filter';
+
+const SEVERITY: Record<FilterAction, number> = { allow: 0, flag: 1, hold: 2, reject: 3 };
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'i', '+': 't', '€': 'e'
+};
+
+// Lowercase, strip accents and undo leet-speak ("fr33" -> "free")
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[0134578@$!|+€9]/g, (ch) => LEET_MAP[ch] || ch);
+
+const squeeze = (word: string): string => word.replace(/(.)\1+/g, '$1');
+
+// "fuuuck" matches "fuck", but a shorter word never matches ("as" is not "ass")
+const wordMatches = (token: string, term: string): boolean =>
+  token.length >= term.length && squeeze(token) === squeeze(term);
+
+// Word tokens, with runs of single letters joined so "s p a m" and "s.p.a.m" still match
+const tokenize = (text: string): string[] => {
+  const raw = normalizeText(text).split(/[^a-z]+/).filter(Boolean);
+  const tokens: string[] = [];
+  let run = '';
+  for (const token of raw) {
+    if (token.length === 1) {
+      run += token;
+      continue;
+    }
+    if (run.length > 1) tokens.push(run);
+    run = '';
+    tokens.push(token);
+  }
+  if (run.length > 1) tokens.push(run);
+  return tokens;
+};
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"')]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|ru|xyz|info|biz|ly|me|gg|tv|in|uk)\b(?:\/[^\s<>"')]*)?/gi;
+
+const extractDomains = (text: string): string[] => {
+  const links = text.match(URL_PATTERN) || [];
+  return links
+    .map((link) => {
+      try {
+        const url = new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`);
+        return url.hostname.toLowerCase().replace(/^www\./, '');
+      } catch {
+        return null;
+      }
+    })
+    .filter((domain): domain is string => !!domain);
+};
+
+// A domain matches a list entry when it is that domain or one of its subdomains
+const domainListed = (domain: string, list: string[]): boolean =>
+  list.some((entry) => domain === entry || domain.endsWith(`.${entry}`));
+
+const bannedWordFilter: ContentFilter = {
+  name: 'banned_words',
+  async run(ctx, config) {
+    if (!config.bannedTerms.length) return null;
+
+    const tokens = tokenize(ctx.text);
+    const verdicts: FilterVerdict[] = [];
+
+    for (const entry of config.bannedTerms) {
+      const words = tokenize(entry.term);
+      if (!words.length) continue;
+
+      // Multi-word terms must appear as a consecutive run of tokens
+      const hit = tokens.some((_token, start) =>
+        words.every((word, offset) => tokens[start + offset] !== undefined && wordMatches(tokens[start + offset], word))
+      );
+      if (hit) {
+        verdicts.push({
+          filter: 'banned_words',
+          action: entry.action || config.actions.bannedWord,
+          reason: 'Contains a banned word',
+          matches: [entry.term],
+        });
+      }
+    }
+    return verdicts;
+  },
+};
+
+const linkFilter: ContentFilter = {
+  name: 'links',
+  async run(ctx, config) {
+    const domains = [...new Set(extractDomains(ctx.text))];
+    if (domains.length === 0) return null;
+
+    const verdicts: FilterVerdict[] = [];
+
+    const blocked = domains.filter((domain) => domainListed(domain, config.blockedDomains));
+    if (blocked.length) {
+      verdicts.push({ filter: 'blocked_domain', action: config.actions.blockedDomain, reason: 'Links to a blocked domain', matches: blocked });
+    }
+
+    if (config.allowedDomains.length) {
+      const unlisted = domains.filter((domain) => !blocked.includes(domain) && !domainListed(domain, config.allowedDomains));
+      if (unlisted.length) {
+        verdicts.push({ filter: 'unlisted_domain', action: config.actions.unlistedDomain, reason: 'Links to a domain that is not allowed', matches: unlisted });
+      }
+    }
+    return verdicts;
+  },
+};
+
+const linkDensityFilter: ContentFilter = {
+  name: 'link_density',
+  async run(ctx, config) {
+    const links = (ctx.text.match(URL_PATTERN) || []).length;
+    if (links === 0) return null;
+
+    const words = ctx.text.split(/\s+/).filter(Boolean).length;
+    const tooMany = config.spam.maxLinks > 0 && links > config.spam.maxLinks;
+    const tooDense = config.spam.maxLinkRatio > 0 && words > 0 && links / words > config.spam.maxLinkRatio;
+
+    return tooMany || tooDense
+      ? { filter: 'link_density', action: config.actions.linkDensity, reason: `Too many links (${links} in ${words} words)` }
+      : null;
+  },
+};
+
+// Redis key remembering this author's text, or null when it is too short to compare
+const duplicateKey = (ctx: FilterContext): string | null => {
+  const normalized = tokenize(ctx.text).join(' ');
+  if (normalized.length < 10) return null;
+  return `content_hash:${ctx.authorId}:${crypto.createHash('sha1').update(normalized).digest('hex')}`;
+};
+
+// Same author posting the same text again within the window
+const duplicateFilter: ContentFilter = {
+  name: 'duplicate',
+  async run(ctx, config) {
+    if (!config.spam.duplicateWindowMinutes) return null;
+
+    const key = duplicateKey(ctx);
+    if (key && (await redisClient.exists(key))) {
+      return { filter: 'duplicate', action: config.actions.duplicate, reason: 'Duplicate of a recent post' };
+    }
+    return null;
+  },
+  // Rejected posts are not remembered, so fixing and resubmitting one is not a duplicate
+  async accepted(ctx, config) {
+    const windowMinutes = config.spam.duplicateWindowMinutes;
+    const key = duplicateKey(ctx);
+    if (windowMinutes && key) await redisClient.set(key, 1, windowMinutes * 60);
+  },
+};
+
+// New accounts posting faster than the limit
+const velocityFilter: ContentFilter = {
+  name: 'velocity',
+  async run(ctx, config) {
+    const { newAccountHours, newAccountMaxPostsPerHour } = config.spam;
+    if (!newAccountHours || !newAccountMaxPostsPerHour || !ctx.authorCreatedAt) return null;
+
+    const accountAgeMs = Date.now() - new Date(ctx.authorCreatedAt).getTime();
+    if (accountAgeMs > newAccountHours * 60 * 60 * 1000) return null;
+
+    const since = new Date(Date.now() - 60 * 60 * 1000);
+    const [threads, comments] = await Promise.all([
+      Thread.countDocuments({ author: ctx.authorId, createdAt: { $gte: since } }),
+      Comment.countDocuments({ author: ctx.authorId, createdAt: { $gte: since } }),
+    ]);
+
+    return threads + comments >= newAccountMaxPostsPerHour
+      ? { filter: 'velocity', action: config.actions.velocity, reason: 'New account is posting too quickly' }
+      : null;
+  },
+};
+
+class ContentFilterService {
+  private filters: ContentFilter[] = [bannedWordFilter, linkFilter, linkDensityFilter, velocityFilter, duplicateFilter];
+
+  // Extension point for additional stages (e.g. an external classifier)
+  register(filter: ContentFilter): void {
+    this.filters = this.filters.filter((f) => f.name !== filter.name).concat(filter);
+  }
+
+  async getConfig(): Promise<IContentFilterConfig> {
+    const cachedData = await redisClient.get(CONFIG_CACHE_KEY);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    const config = await ContentFilterConfig.findOneAndUpdate(
+      { key: 'default' },
+      { $setOnInsert: { key: 'default' } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).lean();
+
+    try {
+      await redisClient.set(CONFIG_CACHE_KEY, JSON.stringify(config), CONFIG_CACHE_TTL);
+    } catch (error) {
+      logger.warn('Could not cache content filter config:', error);
+    }
+    return config as any;
+  }
+
+  async updateConfig(data: Partial<IContentFilterConfig>, adminId: string): Promise<IContentFilterConfig> {
+    const update: any = { updatedBy: adminId };
+    for (const field of ['enabled', 'bannedTerms', 'blockedDomains', 'allowedDomains'] as const) {
+      if (data[field] !== undefined) update[field] = data[field];
+    }
+    // Nested settings are merged so admins can change one threshold at a time
+    for (const group of ['spam', 'actions'] as const) {
+      for (const [key, value] of Object.entries(data[group] || {})) {
+        update[`${group}.${key}`] = value;
+      }
+    }
+
+    const config = await ContentFilterConfig.findOneAndUpdate(
+      { key: 'default' },
+      { $set: update },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    ).lean();
+
+    await redisClient.del(CONFIG_CACHE_KEY);
+    return config as any;
+  }
+
+  // Run every stage; the most severe action wins. A failing stage is logged and skipped
+  async evaluate(ctx: FilterContext): Promise<FilterResult> {
+    const config = await this.getConfig();
+    if (!config.enabled) return { action: 'allow', verdicts: [] };
+
+    const verdicts: FilterVerdict[] = [];
+    for (const filter of this.filters) {
+      try {
+        const result = await filter.run(ctx, config);
+        if (result) verdicts.push(...(Array.isArray(result) ? result : [result]));
+      } catch (error) {
+        logger.error(`Content filter ${filter.name} failed:`, error);
+      }
+    }
+
+    const action = verdicts.reduce<FilterAction>(
+      (worst, verdict) => (SEVERITY[verdict.action] > SEVERITY[worst] ? verdict.action : worst),
+      'allow'
+    );
+
+    if (action !== 'reject' && !ctx.dryRun) {
+      for (const filter of this.filters) {
+        try {
+          await filter.accepted?.(ctx, config);
+        } catch (error) {
+          logger.error(`Content filter ${filter.name} failed to record the post:`, error);
+        }
+      }
+    }
+
+    if (action !== 'allow') {
+      logger.info(`Content filter ${action} for ${ctx.kind} by ${ctx.authorId}:`, verdicts.map((v) => v.filter));
+    }
+    return { action, verdicts: verdicts.filter((v) => v.action !== 'allow') };
+  }
+}
+
+export const contentFilterService = new ContentFilterService();
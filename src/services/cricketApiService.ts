@@ -1,6 +1,8 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { redisClient } from '../utils/redis';
+import { transformApiMatchToFrontend } from '../utils/matchTransformers';
+import { Sport, SportsDataProvider, NormalizedMatch, FetchOptions, providerError, isNotFoundError } from './sportsDataProvider';
 
 interface CricketApiConfig {
   baseUrl: string;
@@ -8,7 +10,8 @@ interface CricketApiConfig {
   timeout: number;
 }
 
-class CricketApiService {
+class CricketApiService implements SportsDataProvider {
+  readonly providerName = 'cricketdata';
   private config: CricketApiConfig;
   private client: any;
 
@@ -60,10 +63,11 @@ class CricketApiService {
   }
 
   // Get live cricket matches
-  async getLiveMatches(): Promise<any[]> {
+  // Pass skipCache to always hit the API (the cache is still refreshed)
+  async getLiveMatches(options: { skipCache?: boolean } = {}): Promise<any[]> {
     try {
       const cacheKey = 'cricket_api:live_matches';
-      const cachedData = await redisClient.get(cacheKey);
+      const cachedData = options.skipCache ? null : await redisClient.get(cacheKey);
       
       if (cachedData) {
         return JSON.parse(cachedData);
@@ -92,7 +96,7 @@ class CricketApiService {
         logger.error('Response status:', error.response.status);
         logger.error('Response data:', error.response.data);
       }
-      throw new Error('Failed to fetch live cricket matches');
+      throw providerError('Failed to fetch live cricket matches', error);
     }
   }
 
@@ -248,7 +252,7 @@ class CricketApiService {
       return matches;
     } catch (error) {
       logger.error('Error fetching completed cricket matches:', error);
-      throw new Error('Failed to fetch completed cricket matches');
+      throw providerError('Failed to fetch completed cricket matches', error);
     }
   }
 
@@ -277,7 +281,7 @@ class CricketApiService {
       return match;
     } catch (error) {
       logger.error(`Error fetching match details for ${matchId}:`, error);
-      throw new Error('Failed to fetch match details');
+      throw providerError('Failed to fetch match details', error);
     }
   }
 
@@ -306,7 +310,7 @@ class CricketApiService {
       return series;
     } catch (error) {
       logger.error('Error fetching cricket series:', error);
-      throw new Error('Failed to fetch cricket series');
+      throw providerError('Failed to fetch cricket series', error);
     }
   }
 
@@ -335,7 +339,7 @@ class CricketApiService {
       return teams;
     } catch (error) {
       logger.error('Error fetching cricket teams:', error);
-      throw new Error('Failed to fetch cricket teams');
+      throw providerError('Failed to fetch cricket teams', error);
     }
   }
 
@@ -365,7 +369,7 @@ class CricketApiService {
       return players;
     } catch (error) {
       logger.error('Error fetching cricket players:', error);
-      throw new Error('Failed to fetch cricket players');
+      throw providerError('Failed to fetch cricket players', error);
     }
   }
 
@@ -394,7 +398,7 @@ class CricketApiService {
       return stats;
     } catch (error) {
       logger.error(`Error fetching player stats for ${playerId}:`, error);
-      throw new Error('Failed to fetch player statistics');
+      throw providerError('Failed to fetch player statistics', error);
     }
   }
 
@@ -423,7 +427,7 @@ class CricketApiService {
       return stats;
     } catch (error) {
       logger.error(`Error fetching match stats for ${matchId}:`, error);
-      throw new Error('Failed to fetch match statistics');
+      throw providerError('Failed to fetch match statistics', error);
     }
   }
 
@@ -454,7 +458,7 @@ class CricketApiService {
       return matches;
     } catch (error) {
       logger.error('Error searching cricket matches:', error);
-      throw new Error('Failed to search cricket matches');
+      throw providerError('Failed to search cricket matches', error);
     }
   }
 
@@ -483,7 +487,7 @@ class CricketApiService {
       return liveScore;
     } catch (error) {
       logger.error(`Error fetching live score for ${matchId}:`, error);
-      throw new Error('Failed to fetch live score');
+      throw providerError('Failed to fetch live score', error);
     }
   }
 
@@ -512,7 +516,39 @@ class CricketApiService {
       return commentary;
     } catch (error) {
       logger.error(`Error fetching commentary for ${matchId}:`, error);
-      throw new Error('Failed to fetch commentary');
+      throw providerError('Failed to fetch commentary', error);
+    }
+  }
+
+  // SportsDataProvider implementation (normalized matches)
+  supportsSport(sport: Sport): boolean {
+    return sport === 'cricket' && !!this.config.apiKey;
+  }
+
+  async fetchLive(_sport: Sport, options: FetchOptions = {}): Promise<NormalizedMatch[]> {
+    const matches = await this.getLiveMatches(options);
+    return matches
+      .map(transformApiMatchToFrontend)
+      .filter((match: any) => match.status === 'live' || (match.matchStarted && !match.matchEnded));
+  }
+
+  async fetchUpcoming(_sport: Sport): Promise<NormalizedMatch[]> {
+    const matches = await this.getUpcomingMatches();
+    return matches.map(transformApiMatchToFrontend).filter((match: any) => match.status === 'upcoming');
+  }
+
+  async fetchCompleted(_sport: Sport): Promise<NormalizedMatch[]> {
+    const matches = await this.getCompletedMatches();
+    return matches.map(transformApiMatchToFrontend).filter((match: any) => match.status === 'completed' || match.matchEnded);
+  }
+
+  async fetchMatch(matchId: string, _sport: Sport): Promise<NormalizedMatch | null> {
+    try {
+      const match = await this.getMatchDetails(matchId);
+      return match ? transformApiMatchToFrontend(match) : null;
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
     }
   }
 
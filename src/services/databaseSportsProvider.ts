@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import { CricketMatch } from '../models/CricketMatch';
+import { FootballMatch } from '../models/FootballMatch';
+import { transformCricketDocToFrontend, transformFootballDocToFrontend } from '../utils/matchTransformers';
+import { Sport, SportsDataProvider, NormalizedMatch } from './sportsDataProvider';
+
+// Upper bound on documents returned per list; controllers filter and paginate afterwards
+const MAX_RESULTS = 500;
+
+// Serves matches persisted by the ingestion job; always available as the last resort
+class DatabaseSportsProvider implements SportsDataProvider {
+  readonly providerName = 'database';
+
+  supportsSport(_sport: Sport): boolean {
+    return true;
+  }
+
+  private async find(sport: Sport, status: 'live' | 'upcoming' | 'completed', sort: 1 | -1): Promise<NormalizedMatch[]> {
+    if (sport === 'cricket') {
+      const docs = await CricketMatch.find({ status }).sort({ startTime: sort }).limit(MAX_RESULTS).lean();
+      return docs.map(transformCricketDocToFrontend);
+    }
+
+    const footballStatus = { live: 'live', upcoming: 'scheduled', completed: 'finished' }[status];
+    const docs = await FootballMatch.find({ status: footballStatus }).sort({ startTime: sort }).limit(MAX_RESULTS).lean();
+    return docs.map(transformFootballDocToFrontend);
+  }
+
+  async fetchLive(sport: Sport): Promise<NormalizedMatch[]> {
+    return this.find(sport, 'live', -1);
+  }
+
+  async fetchUpcoming(sport: Sport): Promise<NormalizedMatch[]> {
+    return this.find(sport, 'upcoming', 1);
+  }
+
+  async fetchCompleted(sport: Sport): Promise<NormalizedMatch[]> {
+    return this.find(sport, 'completed', -1);
+  }
+
+  // Accepts either the provider match ID or the Mongo _id
+  async fetchMatch(matchId: string, sport: Sport): Promise<NormalizedMatch | null> {
+    const filter: any = mongoose.Types.ObjectId.isValid(matchId)
+      ? { $or: [{ matchId }, { _id: matchId }] }
+      : { matchId };
+
+    if (sport === 'cricket') {
+      const doc = await CricketMatch.findOne(filter).lean();
+      return doc ? transformCricketDocToFrontend(doc) : null;
+    }
+
+    const doc = await FootballMatch.findOne(filter).lean();
+    return doc ? transformFootballDocToFrontend(doc) : null;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return mongoose.connection.readyState === 1;
+  }
+}
+
+export const databaseSportsProvider = new DatabaseSportsProvider();
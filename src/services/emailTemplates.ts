@@ -0,0 +1,149 @@
+import { EmailCategory } from '../models/EmailMessage';
+
+const SITE_NAME = process.env.MAIL_SITE_NAME || 'Sports Platform';
+
+export interface DigestItem {
+  title: string;
+  url: string;
+  meta?: string; // e.g. "42 points · 17 comments"
+}
+
+// Data each template needs
+export interface EmailTemplateData {
+  verification: { name: string; url: string };
+  password_reset: { name: string; url: string; expiresMinutes: number };
+  account_locked: { name: string; lockedMinutes: number; ip?: string; resetUrl: string };
+  weekly_digest: { name: string; threads: DigestItem[]; articles: DigestItem[] };
+  moderation_outcome: {
+    name: string;
+    targetType: string;
+    title?: string;
+    action: 'approve' | 'reject' | 'remove' | 'resolve';
+    reason?: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateDefinition<T> {
+  category: EmailCategory;
+  render(data: T): { subject: string; heading: string; paragraphs: string[]; action?: { label: string; url: string }; lists?: Array<{ title: string; items: DigestItem[] }> };
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' }[ch] as string));
+
+const OUTCOME_TEXT: Record<EmailTemplateData['moderation_outcome']['action'], string> = {
+  approve: 'has been approved and is now visible to everyone',
+  reject: 'was not approved by our moderators',
+  remove: 'has been removed by our moderators',
+  resolve: 'was reviewed by our moderators and action has been taken',
+};
+
+const TEMPLATES: { [K in EmailTemplateName]: TemplateDefinition<EmailTemplateData[K]> } = {
+  verification: {
+    category: 'account',
+    render: ({ name, url }) => ({
+      subject: `Verify Your Email - ${SITE_NAME}`,
+      heading: `Welcome to ${SITE_NAME}, ${name}!`,
+      paragraphs: ['Please confirm your email address to finish setting up your account.', 'If you didn\'t create an account, please ignore this email.'],
+      action: { label: 'Verify Email', url },
+    }),
+  },
+  password_reset: {
+    category: 'account',
+    render: ({ name, url, expiresMinutes }) => ({
+      subject: `Reset Your Password - ${SITE_NAME}`,
+      heading: 'Password Reset Request',
+      paragraphs: [
+        `Hi ${name}, we received a request to reset your password.`,
+        `This link will expire in ${expiresMinutes} minutes.`,
+        'If you didn\'t request a password reset, please ignore this email.',
+      ],
+      action: { label: 'Reset Password', url },
+    }),
+  },
+  account_locked: {
+    category: 'account',
+    render: ({ name, lockedMinutes, ip, resetUrl }) => ({
+      subject: `Your ${SITE_NAME} account has been temporarily locked`,
+      heading: `Hi ${name},`,
+      paragraphs: [
+        `We locked your account after several failed sign-in attempts${ip ? ` from ${ip}` : ''}.`,
+        `You can try again in ${lockedMinutes} minutes.`,
+        'If this wasn\'t you, someone may be guessing your password. Resetting it also lifts the lock.',
+      ],
+      action: { label: 'Reset Password', url: resetUrl },
+    }),
+  },
+  weekly_digest: {
+    category: 'digest',
+    render: ({ name, threads, articles }) => ({
+      subject: `Your weekly ${SITE_NAME} digest`,
+      heading: `Hi ${name}, here is what you missed this week`,
+      paragraphs: [],
+      lists: [
+        { title: 'Top discussions', items: threads },
+        { title: 'Latest news', items: articles },
+      ].filter((list) => list.items.length > 0),
+    }),
+  },
+  moderation_outcome: {
+    category: 'moderation',
+    render: ({ name, targetType, title, action, reason }) => ({
+      subject: `Update on your ${targetType}`,
+      heading: `Hi ${name},`,
+      paragraphs: [
+        `Your ${targetType}${title ? ` "${title}"` : ''} ${OUTCOME_TEXT[action]}.`,
+        ...(reason ? [`Moderator note: ${reason}`] : []),
+        ...(action === 'approve' ? [] : ['Please review the community guidelines before posting again.']),
+      ],
+    }),
+  },
+};
+
+export const templateCategory = (template: EmailTemplateName): EmailCategory => TEMPLATES[template].category;
+
+// Shared layout; the unsubscribe footer is added for mail the user can opt out of
+export const renderEmail = <K extends EmailTemplateName>(
+  template: K,
+  data: EmailTemplateData[K],
+  options: { unsubscribeUrl?: string } = {}
+): RenderedEmail => {
+  const content = (TEMPLATES[template] as TemplateDefinition<EmailTemplateData[K]>).render(data);
+
+  const htmlParts = [
+    `<h2>${escapeHtml(content.heading)}</h2>`,
+    ...content.paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+    ...(content.action ? [`<p><a href="${escapeHtml(content.action.url)}">${escapeHtml(content.action.label)}</a></p>`] : []),
+    ...(content.lists || []).map((list) => [
+      `<h3>${escapeHtml(list.title)}</h3>`,
+      '<ul>',
+      ...list.items.map((item) => `<li><a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a>${item.meta ? ` <small>${escapeHtml(item.meta)}</small>` : ''}</li>`),
+      '</ul>',
+    ].join('\n')),
+    ...(options.unsubscribeUrl
+      ? [`<hr><p><small>You are receiving this because email notifications are on for your ${escapeHtml(SITE_NAME)} account. <a href="${escapeHtml(options.unsubscribeUrl)}">Unsubscribe</a></small></p>`]
+      : []),
+  ];
+
+  const textParts = [
+    content.heading,
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...(content.lists || []).map((list) => [list.title, ...list.items.map((item) => `- ${item.title}${item.meta ? ` (${item.meta})` : ''}: ${item.url}`)].join('\n')),
+    ...(options.unsubscribeUrl ? [`Unsubscribe: ${options.unsubscribeUrl}`] : []),
+  ];
+
+  return {
+    subject: content.subject,
+    html: htmlParts.join('\n'),
+    text: textParts.join('\n\n'),
+  };
+};
@@ -0,0 +1,227 @@
+import mongoose from 'mongoose';
+import { UserRelation, UserRelationType } from '../models/UserRelation';
+import { User } from '../models/User';
+import { Thread } from '../models/Thread';
+import { Content } from '../models/Content';
+import { NewsArticle } from '../models/NewsArticle';
+
+export interface Relationship {
+  following: boolean;
+  followedBy: boolean;
+  mutual: boolean;
+  blocking: boolean;
+  blockedBy: boolean;
+  muting: boolean;
+}
+
+export interface FeedItem {
+  kind: 'thread' | 'content' | 'news';
+  id: string;
+  date: Date;
+  item: any;
+}
+
+class FollowService {
+  // Returns false when the relation already existed
+  private async addRelation(userId: string, targetId: string, type: UserRelationType): Promise<boolean> {
+    try {
+      await UserRelation.create({ user: userId, target: targetId, type });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  private async removeRelation(userId: string, targetId: string, type: UserRelationType): Promise<boolean> {
+    const removed = await UserRelation.findOneAndDelete({ user: userId, target: targetId, type });
+    return !!removed;
+  }
+
+  private async adjustFollowCounts(followerId: string, followedId: string, delta: 1 | -1): Promise<void> {
+    // Guard decrements so counts never go negative if they drifted
+    const guard = delta < 0 ? { $gt: 0 } : { $gte: 0 };
+    await Promise.all([
+      User.updateOne({ _id: followerId, followingCount: guard }, { $inc: { followingCount: delta } }),
+      User.updateOne({ _id: followedId, followerCount: guard }, { $inc: { followerCount: delta } }),
+    ]);
+  }
+
+  async isBlockedEitherWay(userId: string, otherId: string): Promise<boolean> {
+    const block = await UserRelation.exists({
+      type: 'block',
+      $or: [
+        { user: userId, target: otherId },
+        { user: otherId, target: userId },
+      ],
+    });
+    return !!block;
+  }
+
+  async follow(userId: string, targetId: string): Promise<boolean> {
+    const created = await this.addRelation(userId, targetId, 'follow');
+    if (created) await this.adjustFollowCounts(userId, targetId, 1);
+    return created;
+  }
+
+  async unfollow(userId: string, targetId: string): Promise<boolean> {
+    const removed = await this.removeRelation(userId, targetId, 'follow');
+    if (removed) await this.adjustFollowCounts(userId, targetId, -1);
+    return removed;
+  }
+
+  // Blocking also breaks any follow in either direction
+  async block(userId: string, targetId: string): Promise<boolean> {
+    const created = await this.addRelation(userId, targetId, 'block');
+    await Promise.all([this.unfollow(userId, targetId), this.unfollow(targetId, userId)]);
+    return created;
+  }
+
+  async unblock(userId: string, targetId: string): Promise<boolean> {
+    return this.removeRelation(userId, targetId, 'block');
+  }
+
+  async mute(userId: string, targetId: string): Promise<boolean> {
+    return this.addRelation(userId, targetId, 'mute');
+  }
+
+  async unmute(userId: string, targetId: string): Promise<boolean> {
+    return this.removeRelation(userId, targetId, 'mute');
+  }
+
+  async getRelationship(userId: string, targetId: string): Promise<Relationship> {
+    const relations = await UserRelation.find({
+      $or: [
+        { user: userId, target: targetId },
+        { user: targetId, target: userId },
+      ],
+    }).lean();
+
+    const has = (from: string, type: UserRelationType) =>
+      relations.some((r) => r.user.toString() === from && r.type === type);
+
+    const following = has(userId, 'follow');
+    const followedBy = has(targetId, 'follow');
+
+    return {
+      following,
+      followedBy,
+      mutual: following && followedBy,
+      blocking: has(userId, 'block'),
+      blockedBy: has(targetId, 'block'),
+      muting: has(userId, 'mute'),
+    };
+  }
+
+  // Page through followers or followed users, newest relation first
+  async listUsers(
+    userId: string,
+    direction: 'followers' | 'following',
+    options: { cursor?: string; limit?: number } = {}
+  ) {
+    const limit = Math.min(Math.max(Number(options.limit) || 20, 1), 100);
+    const filter: any = direction === 'followers'
+      ? { target: userId, type: 'follow' }
+      : { user: userId, type: 'follow' };
+    if (options.cursor && mongoose.Types.ObjectId.isValid(options.cursor)) {
+      filter._id = { $lt: new mongoose.Types.ObjectId(options.cursor) };
+    }
+
+    const populateField = direction === 'followers' ? 'user' : 'target';
+    const relations = await UserRelation.find(filter)
+      .populate(populateField, 'name avatar stats followerCount followingCount')
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = relations.length > limit;
+    const page = hasMore ? relations.slice(0, limit) : relations;
+
+    return {
+      users: page.map((r: any) => r[populateField]).filter(Boolean),
+      nextCursor: hasMore ? page[page.length - 1]._id.toString() : null,
+      hasMore,
+    };
+  }
+
+  async listRelatedIds(userId: string, type: UserRelationType): Promise<string[]> {
+    const relations = await UserRelation.find({ user: userId, type }).select('target').lean();
+    return relations.map((r) => r.target.toString());
+  }
+
+  // Followers who should hear about a new post (excludes those who muted or blocked the author)
+  async getNotifiableFollowerIds(authorId: string): Promise<string[]> {
+    const relations = await UserRelation.find({ target: authorId }).select('user type').lean();
+
+    const silenced = new Set(
+      relations.filter((r) => r.type !== 'follow').map((r) => r.user.toString())
+    );
+
+    return relations
+      .filter((r) => r.type === 'follow')
+      .map((r) => r.user.toString())
+      .filter((id) => !silenced.has(id));
+  }
+
+  // Threads, approved content and published news from followed users, merged by date.
+  // The cursor is the timestamp (ms) of the last item on the previous page.
+  async getFollowingFeed(userId: string, options: { cursor?: string; limit?: number } = {}) {
+    const limit = Math.min(Math.max(Number(options.limit) || 20, 1), 50);
+
+    const [following, muted] = await Promise.all([
+      this.listRelatedIds(userId, 'follow'),
+      this.listRelatedIds(userId, 'mute'),
+    ]);
+    const mutedSet = new Set(muted);
+    const authors = following.filter((id) => !mutedSet.has(id));
+
+    if (authors.length === 0) {
+      return { items: [] as FeedItem[], nextCursor: null, hasMore: false };
+    }
+
+    // The cursor is the last item's "<timestamp>_<id>", so items sharing a millisecond are not skipped
+    const [, time, lastId] = options.cursor?.match(/^(\d+)(?:_([a-f0-9]{24}))?$/) || [];
+    const before = time ? new Date(Number(time)) : null;
+    const dateFilter = (field: string) => {
+      if (!before) return {};
+      if (!lastId) return { [field]: { $lt: before } };
+      return { $or: [{ [field]: { $lt: before } }, { [field]: before, _id: { $lt: new mongoose.Types.ObjectId(lastId) } }] };
+    };
+
+    const [threads, content, news] = await Promise.all([
+      Thread.find({ author: { $in: authors }, isDeleted: false, ...dateFilter('createdAt') })
+        .populate('author', 'name avatar')
+        .select('title category tags flair author upvotes downvotes score commentCount createdAt')
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .lean(),
+      Content.find({ contributor: { $in: authors }, status: 'approved', ...dateFilter('publishedAt') })
+        .populate('contributor', 'name avatar')
+        .select('title type category contributor thumbnailUrl publishedAt')
+        .sort({ publishedAt: -1, _id: -1 })
+        .limit(limit)
+        .lean(),
+      NewsArticle.find({ author: { $in: authors }, state: 'published', isDeleted: false, ...dateFilter('publishedAt') })
+        .populate('author', 'name avatar')
+        .select('title slug summary type category heroImage author publishedAt')
+        .sort({ publishedAt: -1, _id: -1 })
+        .limit(limit)
+        .lean(),
+    ]);
+
+    const merged: FeedItem[] = [
+      ...threads.map((t: any) => ({ kind: 'thread' as const, id: t._id.toString(), date: t.createdAt, item: t })),
+      ...content.map((c: any) => ({ kind: 'content' as const, id: c._id.toString(), date: c.publishedAt, item: c })),
+      ...news.map((n: any) => ({ kind: 'news' as const, id: n._id.toString(), date: n.publishedAt, item: n })),
+    ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.id.localeCompare(a.id));
+
+    const hasMore = merged.length > limit;
+    const items = merged.slice(0, limit);
+    const last = items[items.length - 1];
+    const nextCursor = hasMore ? `${new Date(last.date).getTime()}_${last.id}` : null;
+
+    return { items, nextCursor, hasMore };
+  }
+}
+
+export const followService = new FollowService();
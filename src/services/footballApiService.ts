@@ -1,6 +1,8 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { redisClient } from '../utils/redis';
+import { transformFootballApiMatchToFrontend } from '../utils/matchTransformers';
+import { Sport, SportsDataProvider, NormalizedMatch, FetchOptions, providerError, isNotFoundError } from './sportsDataProvider';
 
 interface FootballApiConfig {
   baseUrl: string;
@@ -8,7 +10,8 @@ interface FootballApiConfig {
   timeout: number;
 }
 
-class FootballApiService {
+class FootballApiService implements SportsDataProvider {
+  readonly providerName = 'football-data';
   private config: FootballApiConfig;
   private client: any;
 
@@ -58,10 +61,11 @@ class FootballApiService {
   }
 
   // Get live football matches
-  async getLiveMatches(): Promise<any[]> {
+  // Pass skipCache to always hit the API (the cache is still refreshed)
+  async getLiveMatches(options: { skipCache?: boolean } = {}): Promise<any[]> {
     try {
       const cacheKey = 'football_api:live_matches';
-      const cachedData = await redisClient.get(cacheKey);
+      const cachedData = options.skipCache ? null : await redisClient.get(cacheKey);
       
       if (cachedData) {
         return JSON.parse(cachedData);
@@ -78,7 +82,7 @@ class FootballApiService {
       return matches;
     } catch (error) {
       logger.error('Error fetching live football matches:', error);
-      throw new Error('Failed to fetch live football matches');
+      throw providerError('Failed to fetch live football matches', error);
     }
   }
 
@@ -103,7 +107,7 @@ class FootballApiService {
       return matches;
     } catch (error) {
       logger.error('Error fetching upcoming football matches:', error);
-      throw new Error('Failed to fetch upcoming football matches');
+      throw providerError('Failed to fetch upcoming football matches', error);
     }
   }
 
@@ -128,7 +132,7 @@ class FootballApiService {
       return matches;
     } catch (error) {
       logger.error('Error fetching completed football matches:', error);
-      throw new Error('Failed to fetch completed football matches');
+      throw providerError('Failed to fetch completed football matches', error);
     }
   }
 
@@ -151,7 +155,7 @@ class FootballApiService {
       return match;
     } catch (error) {
       logger.error(`Error fetching match details for ${matchId}:`, error);
-      throw new Error('Failed to fetch match details');
+      throw providerError('Failed to fetch match details', error);
     }
   }
 
@@ -174,7 +178,7 @@ class FootballApiService {
       return competitions;
     } catch (error) {
       logger.error('Error fetching football competitions:', error);
-      throw new Error('Failed to fetch football competitions');
+      throw providerError('Failed to fetch football competitions', error);
     }
   }
 
@@ -198,7 +202,7 @@ class FootballApiService {
       return teams;
     } catch (error) {
       logger.error('Error fetching football teams:', error);
-      throw new Error('Failed to fetch football teams');
+      throw providerError('Failed to fetch football teams', error);
     }
   }
 
@@ -221,7 +225,7 @@ class FootballApiService {
       return team;
     } catch (error) {
       logger.error(`Error fetching team details for ${teamId}:`, error);
-      throw new Error('Failed to fetch team details');
+      throw providerError('Failed to fetch team details', error);
     }
   }
 
@@ -245,7 +249,7 @@ class FootballApiService {
       return matches;
     } catch (error) {
       logger.error(`Error fetching team matches for ${teamId}:`, error);
-      throw new Error('Failed to fetch team matches');
+      throw providerError('Failed to fetch team matches', error);
     }
   }
 
@@ -268,7 +272,7 @@ class FootballApiService {
       return players;
     } catch (error) {
       logger.error(`Error fetching players for team ${teamId}:`, error);
-      throw new Error('Failed to fetch team players');
+      throw providerError('Failed to fetch team players', error);
     }
   }
 
@@ -291,7 +295,7 @@ class FootballApiService {
       return player;
     } catch (error) {
       logger.error(`Error fetching player details for ${playerId}:`, error);
-      throw new Error('Failed to fetch player details');
+      throw providerError('Failed to fetch player details', error);
     }
   }
 
@@ -314,7 +318,7 @@ class FootballApiService {
       return stats;
     } catch (error) {
       logger.error(`Error fetching match stats for ${matchId}:`, error);
-      throw new Error('Failed to fetch match statistics');
+      throw providerError('Failed to fetch match statistics', error);
     }
   }
 
@@ -337,7 +341,7 @@ class FootballApiService {
       return standings;
     } catch (error) {
       logger.error(`Error fetching standings for ${competitionId}:`, error);
-      throw new Error('Failed to fetch standings');
+      throw providerError('Failed to fetch standings', error);
     }
   }
 
@@ -370,7 +374,7 @@ class FootballApiService {
       return filteredMatches;
     } catch (error) {
       logger.error('Error searching football matches:', error);
-      throw new Error('Failed to search football matches');
+      throw providerError('Failed to search football matches', error);
     }
   }
 
@@ -393,7 +397,37 @@ class FootballApiService {
       return liveScore;
     } catch (error) {
       logger.error(`Error fetching live score for ${matchId}:`, error);
-      throw new Error('Failed to fetch live score');
+      throw providerError('Failed to fetch live score', error);
+    }
+  }
+
+  // SportsDataProvider implementation (normalized matches)
+  supportsSport(sport: Sport): boolean {
+    return sport === 'football' && !!this.config.apiKey;
+  }
+
+  async fetchLive(_sport: Sport, options: FetchOptions = {}): Promise<NormalizedMatch[]> {
+    const matches = await this.getLiveMatches(options);
+    return matches.map(transformFootballApiMatchToFrontend);
+  }
+
+  async fetchUpcoming(_sport: Sport): Promise<NormalizedMatch[]> {
+    const matches = await this.getUpcomingMatches();
+    return matches.map(transformFootballApiMatchToFrontend);
+  }
+
+  async fetchCompleted(_sport: Sport): Promise<NormalizedMatch[]> {
+    const matches = await this.getCompletedMatches();
+    return matches.map(transformFootballApiMatchToFrontend);
+  }
+
+  async fetchMatch(matchId: string, _sport: Sport): Promise<NormalizedMatch | null> {
+    try {
+      const match = await this.getMatchDetails(matchId);
+      return match ? transformFootballApiMatchToFrontend(match) : null;
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
     }
   }
 
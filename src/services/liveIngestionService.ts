@@ -0,0 +1,361 @@
+import { CricketMatch, ICricketMatch, CRICKET_MATCH_SEARCH_SOURCE } from '../models/CricketMatch';
+import { FootballMatch, IFootballMatch, FOOTBALL_MATCH_SEARCH_SOURCE } from '../models/FootballMatch';
+import { providerRegistry } from './providerRegistry';
+import { ballEventService } from './ballEventService';
+import { scorecardService } from './scorecardService';
+import { standingsService } from './standingsService';
+import { Sport, NormalizedMatch } from './sportsDataProvider';
+import { transformNormalizedToCricketDb, transformNormalizedToFootballDb } from '../utils/matchTransformers';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+import { SearchSource, syncSearchDocuments } from '../utils/searchIndexing';
+import {
+  getIO,
+  publishLiveScore,
+  handleMatchStart,
+  handleMatchEnd,
+  handleWicketFallen,
+  handleGoalScored,
+} from '../utils/socket';
+
+interface IngestedMatch<T> {
+  doc: Partial<T>;
+  source: string;
+}
+
+const LOCK_KEY = 'lock:live_ingestion';
+
+// Poll intervals: fast while anything is live, slower when a match is about to start, idle otherwise
+const LIVE_INTERVAL_MS = Number(process.env.INGESTION_LIVE_INTERVAL_MS) || 15 * 1000;
+const SOON_INTERVAL_MS = Number(process.env.INGESTION_SOON_INTERVAL_MS) || 60 * 1000;
+const IDLE_INTERVAL_MS = Number(process.env.INGESTION_IDLE_INTERVAL_MS) || 5 * 60 * 1000;
+const STARTING_SOON_WINDOW_MS = 30 * 60 * 1000;
+
+// The lock is renewed while a run is in progress, so a slow provider cannot outlast it
+const LOCK_TTL_SECONDS = Math.ceil(LIVE_INTERVAL_MS / 1000) + 30;
+const LOCK_RENEW_MS = (LOCK_TTL_SECONDS * 1000) / 3;
+
+// Upcoming fixtures are refreshed less often; they only feed the adaptive interval and start detection
+const UPCOMING_REFRESH_MS = 30 * 60 * 1000;
+
+// A match first seen already live only counts as "starting" if it began this recently
+const FRESH_START_WINDOW_MS = 30 * 60 * 1000;
+
+class LiveIngestionService {
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private lastUpcomingRefresh = 0;
+
+  // Self-scheduling loop; each run picks the delay for the next one
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.schedule(0);
+    logger.info('Live ingestion started');
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info('Live ingestion stopped');
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(async () => {
+      let nextDelay = IDLE_INTERVAL_MS;
+      try {
+        nextDelay = await this.runOnce();
+      } catch (error) {
+        logger.error('Live ingestion run failed:', error);
+      }
+      this.schedule(nextDelay);
+    }, delay);
+  }
+
+  // Ingest once across both sports; returns the delay before the next run
+  async runOnce(): Promise<number> {
+    const lockToken = await redisClient.acquireLock(LOCK_KEY, LOCK_TTL_SECONDS);
+    if (!lockToken) {
+      logger.debug('Live ingestion lock held by another instance, skipping run');
+      return LIVE_INTERVAL_MS;
+    }
+
+    const renewal = setInterval(() => {
+      redisClient.extendLock(LOCK_KEY, lockToken, LOCK_TTL_SECONDS).then((held) => {
+        if (!held) logger.warn('Live ingestion lock was lost during a run');
+      });
+    }, LOCK_RENEW_MS);
+
+    try {
+      if (Date.now() - this.lastUpcomingRefresh > UPCOMING_REFRESH_MS) {
+        await this.refreshUpcoming();
+        this.lastUpcomingRefresh = Date.now();
+      }
+
+      const [cricketLive, footballLive] = await Promise.all([
+        this.ingestCricket(),
+        this.ingestFootball(),
+      ]);
+
+      return await this.nextInterval(cricketLive + footballLive);
+    } finally {
+      clearInterval(renewal);
+      await redisClient.releaseLock(LOCK_KEY, lockToken);
+    }
+  }
+
+  private async nextInterval(liveCount: number): Promise<number> {
+    if (liveCount > 0) return LIVE_INTERVAL_MS;
+
+    const soon = new Date(Date.now() + STARTING_SOON_WINDOW_MS);
+    const [cricketSoon, footballSoon] = await Promise.all([
+      CricketMatch.exists({ status: 'upcoming', startTime: { $lte: soon } }),
+      FootballMatch.exists({ status: 'scheduled', startTime: { $lte: soon } }),
+    ]);
+
+    return cricketSoon || footballSoon ? SOON_INTERVAL_MS : IDLE_INTERVAL_MS;
+  }
+
+  private toDbSchema(sport: Sport, match: NormalizedMatch): Partial<any> {
+    return sport === 'cricket' ? transformNormalizedToCricketDb(match) : transformNormalizedToFootballDb(match);
+  }
+
+  // Fetch live matches from the best available provider. The database fallback is skipped
+  // since it would only echo back what we stored.
+  private async fetchLive(sport: Sport): Promise<IngestedMatch<any>[]> {
+    const { data, source } = await providerRegistry.execute(
+      sport,
+      (provider) => provider.fetchLive(sport, { skipCache: true }),
+      { includeFallback: false }
+    );
+    return data.map((match) => ({ doc: this.toDbSchema(sport, match), source }));
+  }
+
+  private async fetchDetails(sport: Sport, matchId: string): Promise<Partial<any> | null> {
+    try {
+      const { data } = await providerRegistry.execute(
+        sport,
+        (provider) => provider.fetchMatch(matchId, sport),
+        { includeFallback: false, accept: (match) => !!match }
+      );
+      if (data) return this.toDbSchema(sport, data);
+    } catch (error: any) {
+      logger.warn(`Could not fetch ${sport} match ${matchId} details:`, error.message);
+    }
+    return null;
+  }
+
+  private async refreshUpcoming(): Promise<void> {
+    const [cricket, football] = await Promise.allSettled([
+      providerRegistry.execute('cricket', (provider) => provider.fetchUpcoming('cricket'), { includeFallback: false }),
+      providerRegistry.execute('football', (provider) => provider.fetchUpcoming('football'), { includeFallback: false }),
+    ]);
+
+    try {
+      if (cricket.status === 'fulfilled') {
+        await this.upsertMany(CricketMatch, CRICKET_MATCH_SEARCH_SOURCE, cricket.value.data.map(transformNormalizedToCricketDb));
+      }
+      if (football.status === 'fulfilled') {
+        await this.upsertMany(FootballMatch, FOOTBALL_MATCH_SEARCH_SOURCE, football.value.data.map(transformNormalizedToFootballDb));
+      }
+    } catch (error) {
+      logger.error('Failed to refresh upcoming fixtures:', error);
+    }
+  }
+
+  private async upsertMany(model: any, source: SearchSource, docs: Partial<any>[]): Promise<void> {
+    const valid = docs.filter((doc) => doc.matchId);
+    if (valid.length === 0) return;
+
+    await model.bulkWrite(valid.map((doc) => ({
+      updateOne: {
+        // Never move a match that is already live or finished back to upcoming
+        filter: { matchId: doc.matchId, status: { $in: ['upcoming', 'scheduled'] } },
+        update: { $set: doc },
+        upsert: false,
+      },
+    })));
+
+    const existing = await model.find({ matchId: { $in: valid.map((d) => d.matchId) } }).select('matchId status').lean();
+    const known = new Set(existing.map((m: any) => m.matchId));
+
+    // bulkWrite skips the search hooks; inserts below go through them
+    const updated = existing.filter((m: any) => ['upcoming', 'scheduled'].includes(m.status));
+    syncSearchDocuments(model, source, updated.map((m: any) => m._id));
+    const fresh = valid.filter((doc) => !known.has(doc.matchId));
+    if (fresh.length > 0) {
+      await model.insertMany(fresh, { ordered: false }).catch((error: any) => {
+        logger.warn('Some upcoming fixtures could not be inserted:', error.message);
+      });
+    }
+  }
+
+  private async ingestCricket(): Promise<number> {
+    let live: IngestedMatch<ICricketMatch>[] = [];
+    try {
+      live = await this.fetchLive('cricket');
+    } catch (error: any) {
+      logger.error('Live cricket ingestion failed:', error.message);
+      return 0;
+    }
+
+    const seen = new Set<string>();
+    for (const { doc, source } of live) {
+      if (!doc.matchId) continue;
+      seen.add(doc.matchId);
+      try {
+        await this.applyCricketUpdate(doc);
+        // Only SportsMonks exposes ball-by-ball commentary
+        if (source === 'sportsmonks' && doc.status === 'live') {
+          if (await ballEventService.syncFromProvider(doc.matchId)) {
+            await scorecardService.refresh(doc.matchId);
+          }
+        }
+      } catch (error) {
+        logger.error(`Failed to ingest cricket match ${doc.matchId}:`, error);
+      }
+    }
+
+    await this.settleDroppedMatches('cricket', seen);
+    return live.filter(({ doc }) => doc.status === 'live').length;
+  }
+
+  private async ingestFootball(): Promise<number> {
+    let live: IngestedMatch<IFootballMatch>[] = [];
+    try {
+      live = await this.fetchLive('football');
+    } catch (error: any) {
+      logger.error('Live football ingestion failed:', error.message);
+      return 0;
+    }
+
+    const seen = new Set<string>();
+    for (const { doc } of live) {
+      if (!doc.matchId) continue;
+      seen.add(doc.matchId);
+      try {
+        await this.applyFootballUpdate(doc);
+      } catch (error) {
+        logger.error(`Failed to ingest football match ${doc.matchId}:`, error);
+      }
+    }
+
+    await this.settleDroppedMatches('football', seen);
+    return live.filter(({ doc }) => doc.status === 'live').length;
+  }
+
+  // Matches we had as live that vanished from the live feed have usually just finished
+  private async settleDroppedMatches(sport: Sport, seen: Set<string>): Promise<void> {
+    const model: any = sport === 'cricket' ? CricketMatch : FootballMatch;
+    const stale = await model.find({ status: 'live', matchId: { $nin: [...seen] } }).select('matchId').lean();
+
+    for (const { matchId } of stale) {
+      const details = await this.fetchDetails(sport, matchId);
+      if (!details || details.status === 'live') continue;
+
+      if (sport === 'cricket') {
+        await this.applyCricketUpdate(details);
+      } else {
+        await this.applyFootballUpdate(details);
+      }
+    }
+  }
+
+  private async applyCricketUpdate(doc: Partial<ICricketMatch>): Promise<void> {
+    const update: any = { ...doc };
+    if (doc.status === 'completed') update.endTime = new Date();
+
+    const previous = await CricketMatch.findOneAndUpdate(
+      { matchId: doc.matchId },
+      { $set: update },
+      { upsert: true, new: false, setDefaultsOnInsert: true, runValidators: true }
+    ).lean();
+
+    const payload = { ...doc, sport: 'cricket', detailUrl: `/cricket/match/${doc.matchId}` };
+    await this.emitTransitions('cricket', doc.matchId!, previous, doc, payload);
+
+    // Wickets that fell since the last poll
+    if (previous?.currentScore && doc.currentScore && doc.status === 'live') {
+      for (const side of ['home', 'away'] as const) {
+        const before = previous.currentScore[side]?.wickets || 0;
+        const after = doc.currentScore[side]?.wickets || 0;
+        if (after > before) {
+          const io = getIO();
+          if (io) {
+            await handleWicketFallen(io, doc.matchId!, {
+              type: 'wicket',
+              team: doc.teams?.[side]?.name,
+              wickets: after,
+              runs: doc.currentScore[side].runs,
+              overs: doc.currentScore[side].overs,
+              timestamp: new Date(),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private async applyFootballUpdate(doc: Partial<IFootballMatch>): Promise<void> {
+    const update: any = { ...doc };
+    if (doc.status === 'finished') update.endTime = new Date();
+
+    const previous = await FootballMatch.findOneAndUpdate(
+      { matchId: doc.matchId },
+      { $set: update },
+      { upsert: true, new: false, setDefaultsOnInsert: true, runValidators: true }
+    ).lean();
+
+    const payload = { ...doc, sport: 'football', detailUrl: `/football/match/${doc.matchId}` };
+    await this.emitTransitions('football', doc.matchId!, previous, doc, payload);
+
+    // Goals scored since the last poll
+    if (previous?.score && doc.score && doc.status === 'live') {
+      for (const side of ['home', 'away'] as const) {
+        const before = previous.score[side] || 0;
+        const after = doc.score[side] || 0;
+        if (after > before) {
+          const io = getIO();
+          if (io) {
+            await handleGoalScored(io, doc.matchId!, {
+              type: 'goal',
+              team: doc.teams?.[side]?.name,
+              score: { home: doc.score.home, away: doc.score.away },
+              timestamp: new Date(),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private async emitTransitions(sport: Sport, matchId: string, previous: any, doc: any, payload: any): Promise<void> {
+    const finishedStatus = sport === 'cricket' ? 'completed' : 'finished';
+    const wasLive = previous?.status === 'live';
+    const isLive = doc.status === 'live';
+    const io = getIO();
+
+    if (isLive) {
+      // Publish first so the live snapshot exists for the event handlers
+      await publishLiveScore(matchId, payload);
+
+      const startedRecently = doc.startTime && Date.now() - new Date(doc.startTime).getTime() < FRESH_START_WINDOW_MS;
+      if (io && !wasLive && (previous || startedRecently)) {
+        handleMatchStart(io, matchId, payload);
+      }
+    } else if (wasLive && doc.status === finishedStatus) {
+      if (io) handleMatchEnd(io, matchId, payload);
+      logger.info(`Ingestion: ${sport} match ${matchId} finished`);
+
+      if (sport === 'football') {
+        await standingsService.handleMatchFinished({ ...previous, ...doc });
+      }
+    }
+  }
+}
+
+export const liveIngestionService = new LiveIngestionService();
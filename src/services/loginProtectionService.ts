@@ -0,0 +1,190 @@
+import { User } from '../models/User';
+import { LoginAttempt, LoginFailureReason } from '../models/LoginAttempt';
+import { ModerationAction } from '../models/ModerationAction';
+import { mailService } from './mailService';
+import { ClientInfo } from './sessionService';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+// Failed attempts are counted per email and per IP over a fixed window
+const FAILURE_WINDOW_SECONDS = (Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15) * 60;
+const MAX_ACCOUNT_FAILURES = Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 10;
+const MAX_IP_FAILURES = Number(process.env.LOGIN_MAX_IP_FAILURES) || 50;
+
+// Each lockout within a day lasts twice as long as the one before
+const LOCKOUT_SECONDS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60;
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+const LOCKOUT_MEMORY_SECONDS = 24 * 60 * 60;
+
+// From the third failure on, the next attempt has to wait 1, 2, 4... seconds
+const DELAY_AFTER_FAILURES = 3;
+const MAX_DELAY_SECONDS = 60;
+
+export type LoginBlockReason = Extract<LoginFailureReason, 'account_locked' | 'ip_locked' | 'throttled'>;
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; reason: LoginBlockReason; retryAfter: number };
+
+export type UnlockResult =
+  | { ok: true }
+  | { ok: false; error: 'not_found' | 'not_locked' };
+
+// Keyed by email rather than user id so unknown addresses are throttled the same way and do not stand out
+const normalize = (email: string) => email.trim().toLowerCase();
+
+const keys = {
+  accountFailures: (email: string) => `login_failures:account:${email}`,
+  ipFailures: (ip: string) => `login_failures:ip:${ip}`,
+  accountLock: (email: string) => `login_lock:account:${email}`,
+  ipLock: (ip: string) => `login_lock:ip:${ip}`,
+  delay: (email: string) => `login_delay:${email}`,
+  lockouts: (email: string) => `login_lockouts:${email}`,
+};
+
+class LoginProtectionService {
+  // Runs before the password is compared, so a locked account answers the same whatever the password
+  async check(email: string, ip?: string): Promise<LoginCheck> {
+    const account = normalize(email);
+
+    if (ip) {
+      const ipLocked = await redisClient.ttl(keys.ipLock(ip));
+      if (ipLocked > 0) return { allowed: false, reason: 'ip_locked', retryAfter: ipLocked };
+    }
+
+    const locked = await redisClient.ttl(keys.accountLock(account));
+    if (locked > 0) return { allowed: false, reason: 'account_locked', retryAfter: locked };
+
+    const delayed = await redisClient.ttl(keys.delay(account));
+    if (delayed > 0) return { allowed: false, reason: 'throttled', retryAfter: delayed };
+
+    return { allowed: true };
+  }
+
+  // Count a wrong password or unknown email; locks the account or IP once their limit is reached
+  async recordFailure(
+    email: string,
+    client: ClientInfo,
+    reason: 'invalid_password' | 'unknown_email',
+    userId?: string
+  ): Promise<{ lockedOut: boolean; retryAfter?: number }> {
+    const account = normalize(email);
+    let lockSeconds: number | undefined;
+
+    try {
+      const failures = await redisClient.incr(keys.accountFailures(account), FAILURE_WINDOW_SECONDS);
+      if (failures >= MAX_ACCOUNT_FAILURES) {
+        lockSeconds = await this.lockAccount(account);
+      } else if (failures >= DELAY_AFTER_FAILURES) {
+        const delay = Math.min(2 ** (failures - DELAY_AFTER_FAILURES), MAX_DELAY_SECONDS);
+        await redisClient.set(keys.delay(account), 1, delay);
+      }
+
+      if (client.ip) {
+        const ipFailures = await redisClient.incr(keys.ipFailures(client.ip), FAILURE_WINDOW_SECONDS);
+        if (ipFailures >= MAX_IP_FAILURES) {
+          await redisClient.set(keys.ipLock(client.ip), 1, LOCKOUT_SECONDS);
+          await redisClient.del(keys.ipFailures(client.ip));
+          logger.warn(`Locked out IP ${client.ip} after ${ipFailures} failed logins`);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Could not record failed login for ${account}:`, error);
+    }
+
+    await this.audit(account, client, reason, userId, lockSeconds !== undefined);
+
+    if (lockSeconds !== undefined) {
+      logger.warn(`Locked out ${account} for ${lockSeconds}s after repeated failed logins`);
+      if (userId) {
+        mailService.sendAccountLockedEmail(userId, { lockedMinutes: Math.ceil(lockSeconds / 60), ip: client.ip })
+          .catch((error) => logger.error(`Could not queue lockout email for user ${userId}:`, error));
+      }
+      return { lockedOut: true, retryAfter: lockSeconds };
+    }
+    return { lockedOut: false };
+  }
+
+  // Attempts refused by check() are audited but do not extend the lock
+  async recordBlocked(email: string, client: ClientInfo, reason: LoginBlockReason): Promise<void> {
+    const account = normalize(email);
+    const user = await User.findOne({ email: account }).select('_id').lean();
+    await this.audit(account, client, reason, user?._id.toString(), false);
+  }
+
+  // A correct password clears the account's failures; the IP counter keeps running
+  async recordSuccess(email: string): Promise<void> {
+    const account = normalize(email);
+    await Promise.all([
+      redisClient.del(keys.accountFailures(account)),
+      redisClient.del(keys.delay(account)),
+    ]);
+  }
+
+  // Forget every failure and lock for the account, e.g. after a password reset
+  async clearAccount(email: string): Promise<void> {
+    const account = normalize(email);
+    await Promise.all([
+      redisClient.del(keys.accountFailures(account)),
+      redisClient.del(keys.delay(account)),
+      redisClient.del(keys.accountLock(account)),
+      redisClient.del(keys.lockouts(account)),
+    ]);
+  }
+
+  async lockStatus(email: string): Promise<{ locked: boolean; lockedUntil: Date | null }> {
+    const remaining = await redisClient.ttl(keys.accountLock(normalize(email)));
+    return remaining > 0
+      ? { locked: true, lockedUntil: new Date(Date.now() + remaining * 1000) }
+      : { locked: false, lockedUntil: null };
+  }
+
+  async unlock(userId: string, adminId: string, reason?: string): Promise<UnlockResult> {
+    const user = await User.findById(userId).select('email').lean();
+    if (!user) return { ok: false, error: 'not_found' };
+    if (!(await redisClient.exists(keys.accountLock(normalize(user.email))))) return { ok: false, error: 'not_locked' };
+
+    await this.clearAccount(user.email);
+    await ModerationAction.create({
+      moderator: adminId,
+      action: 'unlock_account',
+      targetType: 'user',
+      targetId: user._id,
+      reason,
+    });
+    return { ok: true };
+  }
+
+  async listAttempts(userId: string, page: number, limit: number) {
+    const [attempts, total] = await Promise.all([
+      LoginAttempt.find({ user: userId })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      LoginAttempt.countDocuments({ user: userId }),
+    ]);
+    return { attempts, total };
+  }
+
+  private async lockAccount(account: string): Promise<number> {
+    const lockouts = await redisClient.incr(keys.lockouts(account), LOCKOUT_MEMORY_SECONDS);
+    const seconds = Math.min(LOCKOUT_SECONDS * 2 ** (lockouts - 1), MAX_LOCKOUT_SECONDS);
+
+    await redisClient.set(keys.accountLock(account), 1, seconds);
+    await redisClient.del(keys.accountFailures(account));
+    await redisClient.del(keys.delay(account));
+    return seconds;
+  }
+
+  // The audit trail must never be the reason a login fails
+  private async audit(email: string, client: ClientInfo, reason: LoginFailureReason, userId: string | undefined, lockedOut: boolean) {
+    try {
+      await LoginAttempt.create({ user: userId, email, ip: client.ip, userAgent: client.userAgent, reason, lockedOut });
+    } catch (error) {
+      logger.error(`Could not record login attempt for ${email}:`, error);
+    }
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
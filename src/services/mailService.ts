@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import cron from 'node-cron';
+import { EmailMessage } from '../models/EmailMessage';
+import { User } from '../models/User';
+import { Thread } from '../models/Thread';
+import { NewsArticle } from '../models/NewsArticle';
+import { renderEmail, templateCategory, EmailTemplateData, EmailTemplateName } from './emailTemplates';
+import { getMailTransport } from '../utils/mailer';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+const LOCK_KEY = 'lock:mail_queue';
+const LOCK_TTL_SECONDS = 55;
+const BATCH_SIZE = 50;
+
+const MAX_ATTEMPTS = Number(process.env.MAIL_MAX_ATTEMPTS) || 5;
+
+// Messages left in "sending" this long belong to a worker that died mid-delivery
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+const DIGEST_LOCK_KEY = 'lock:mail_digest';
+const DIGEST_LOCK_TTL_SECONDS = 60 * 60;
+
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// Retry after 1, 2, 4, 8... minutes
+const backoffMs = (attempts: number) => Math.min(2 ** (attempts - 1), 60) * 60 * 1000;
+
+const unsubscribeSecret = () => process.env.MAIL_UNSUBSCRIBE_SECRET || process.env.JWT_SECRET || 'default-secret-key';
+
+const sign = (userId: string) =>
+  crypto.createHmac('sha256', unsubscribeSecret()).update(`unsubscribe:${userId}`).digest('base64url');
+
+export type Recipient = { _id: any; email: string; name: string; preferences?: any };
+
+class MailService {
+  private queueTask: cron.ScheduledTask | null = null;
+  private digestTask: cron.ScheduledTask | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.queueTask) return;
+
+    this.queueTask = cron.schedule(process.env.MAIL_QUEUE_CRON || '* * * * *', () => {
+      this.processQueue().catch((error) => {
+        logger.error('Mail queue run failed:', error);
+      });
+    });
+
+    if (process.env.MAIL_DIGEST_ENABLED !== 'false') {
+      this.digestTask = cron.schedule(process.env.MAIL_DIGEST_CRON || '0 8 * * 1', () => {
+        this.queueWeeklyDigests().catch((error) => {
+          logger.error('Weekly digest run failed:', error);
+        });
+      });
+    }
+
+    logger.info(`Mail queue started (transport: ${getMailTransport().name})`);
+  }
+
+  stop(): void {
+    this.queueTask?.stop();
+    this.digestTask?.stop();
+    this.queueTask = null;
+    this.digestTask = null;
+  }
+
+  // Token for one-click unsubscribe links; stateless, so it works for as long as the secret does
+  unsubscribeToken(userId: string): string {
+    return `${userId}.${sign(userId)}`;
+  }
+
+  verifyUnsubscribeToken(token: string): string | null {
+    const [userId, signature] = token.split('.');
+    if (!userId || !signature) return null;
+
+    const expected = Buffer.from(sign(userId));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? userId : null;
+  }
+
+  // Turns off preferences.notifications.email; account mail (verification, resets) still goes out
+  async unsubscribe(token: string): Promise<boolean> {
+    const userId = this.verifyUnsubscribeToken(token);
+    if (!userId) return false;
+
+    const result = await User.updateOne({ _id: userId }, { $set: { 'preferences.notifications.email': false } });
+    await redisClient.del(`user:${userId}`);
+    return result.matchedCount === 1;
+  }
+
+  // Render and queue a templated email; returns null when the user opted out of this kind of mail
+  async send<K extends EmailTemplateName>(template: K, recipient: Recipient, data: EmailTemplateData[K], options: { immediate?: boolean } = {}) {
+    const category = templateCategory(template);
+    const userId = recipient._id?.toString();
+
+    if (category !== 'account' && recipient.preferences?.notifications?.email === false) {
+      return null;
+    }
+
+    const token = category !== 'account' && userId ? this.unsubscribeToken(userId) : null;
+    const rendered = renderEmail(template, data, {
+      unsubscribeUrl: token ? `${frontendUrl()}/email/unsubscribe/${token}` : undefined,
+    });
+
+    // RFC 8058 one-click unsubscribe when the API is reachable from mail clients
+    const headers: Record<string, string> = {};
+    if (token && process.env.API_URL) {
+      headers['List-Unsubscribe'] = `<${process.env.API_URL}/api/users/email/unsubscribe/${token}>`;
+      headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+    }
+
+    const message = await EmailMessage.create({
+      to: recipient.email,
+      user: userId,
+      template,
+      category,
+      ...rendered,
+      headers,
+    });
+
+    // Try right away so account mail is not held up by the worker interval; failures are retried
+    if (options.immediate !== false) {
+      this.deliver(message._id.toString()).catch((error) => {
+        logger.error(`Immediate delivery of email ${message._id} failed:`, error);
+      });
+    }
+
+    return message;
+  }
+
+  async sendVerificationEmail(user: Recipient, token: string) {
+    return this.send('verification', user, { name: user.name, url: `${frontendUrl()}/verify-email/${token}` });
+  }
+
+  async sendPasswordResetEmail(user: Recipient, token: string, expiresMinutes: number) {
+    return this.send('password_reset', user, { name: user.name, url: `${frontendUrl()}/reset-password/${token}`, expiresMinutes });
+  }
+
+  async sendAccountLockedEmail(userId: string, details: { lockedMinutes: number; ip?: string }) {
+    const user = await User.findById(userId).select('name email preferences').lean();
+    if (!user) return null;
+    return this.send('account_locked', user, { name: user.name, resetUrl: `${frontendUrl()}/forgot-password`, ...details });
+  }
+
+  // Tell an author what moderators decided about their post
+  async sendModerationOutcome(authorId: string, outcome: Omit<EmailTemplateData['moderation_outcome'], 'name'>) {
+    const user = await User.findById(authorId).select('name email preferences').lean();
+    if (!user) return null;
+    return this.send('moderation_outcome', user, { name: user.name, ...outcome });
+  }
+
+  // Claim and deliver one message; the status filter keeps two workers from sending it twice
+  async deliver(messageId: string): Promise<boolean> {
+    const message = await EmailMessage.findOneAndUpdate(
+      { _id: messageId, status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { $set: { status: 'sending' }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!message) return false;
+
+    // Opted out after the message was queued
+    if (message.category !== 'account' && message.user) {
+      const user = await User.findById(message.user).select('preferences.notifications.email').lean();
+      if (!user || user.preferences?.notifications?.email === false) {
+        await EmailMessage.updateOne({ _id: message._id }, { $set: { status: 'skipped' } });
+        return false;
+      }
+    }
+
+    try {
+      await getMailTransport().send({
+        from: process.env.MAIL_FROM || process.env.SMTP_USER || 'no-reply@localhost',
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers ? Object.fromEntries(message.headers as any) : undefined,
+      });
+
+      await EmailMessage.updateOne({ _id: message._id }, { $set: { status: 'sent', sentAt: new Date() }, $unset: { lastError: '' } });
+      return true;
+    } catch (error) {
+      const failed = message.attempts >= MAX_ATTEMPTS;
+      await EmailMessage.updateOne({ _id: message._id }, {
+        $set: {
+          status: failed ? 'failed' : 'pending',
+          nextAttemptAt: new Date(Date.now() + backoffMs(message.attempts)),
+          lastError: (error as Error).message,
+        },
+      });
+      logger.warn(`Email ${message._id} to ${message.to} failed (attempt ${message.attempts}/${MAX_ATTEMPTS}):`, (error as Error).message);
+      return false;
+    }
+  }
+
+  // Deliver every due message; the Redis lock keeps it to one instance at a time
+  async processQueue(): Promise<number> {
+    if (this.running) return 0;
+
+    const lockToken = await redisClient.acquireLock(LOCK_KEY, LOCK_TTL_SECONDS);
+    if (!lockToken) return 0;
+
+    this.running = true;
+    let sent = 0;
+
+    try {
+      await EmailMessage.updateMany(
+        { status: 'sending', updatedAt: { $lt: new Date(Date.now() - STALE_SENDING_MS) } },
+        { $set: { status: 'pending' } }
+      );
+
+      const due = await EmailMessage.find({ status: 'pending', nextAttemptAt: { $lte: new Date() } })
+        .sort({ nextAttemptAt: 1 })
+        .limit(BATCH_SIZE)
+        .select('_id');
+
+      for (const { _id } of due) {
+        if (await this.deliver(_id.toString())) sent += 1;
+      }
+
+      if (sent > 0) {
+        logger.info(`Mail queue sent ${sent} email(s)`);
+      }
+    } finally {
+      this.running = false;
+      await redisClient.releaseLock(LOCK_KEY, lockToken);
+    }
+
+    return sent;
+  }
+
+  // Top threads and newest articles of the past week for every verified, subscribed user
+  async queueWeeklyDigests(): Promise<number> {
+    const lockToken = await redisClient.acquireLock(DIGEST_LOCK_KEY, DIGEST_LOCK_TTL_SECONDS);
+    if (!lockToken) return 0;
+
+    try {
+      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      const [threads, articles] = await Promise.all([
+        Thread.find({ createdAt: { $gte: since }, isDeleted: false, shadowHidden: { $ne: true }, heldForReview: { $ne: true } })
+          .sort({ score: -1, commentCount: -1 })
+          .limit(5)
+          .select('title score commentCount')
+          .lean(),
+        NewsArticle.find({ state: 'published', publishedAt: { $gte: since }, isDeleted: false })
+          .sort({ publishedAt: -1 })
+          .limit(5)
+          .select('title slug')
+          .lean(),
+      ]);
+
+      if (threads.length === 0 && articles.length === 0) return 0;
+
+      const data = {
+        threads: threads.map((t) => ({ title: t.title, url: `${frontendUrl()}/threads/${t._id}`, meta: `${t.score} points · ${t.commentCount} comments` })),
+        articles: articles.map((a) => ({ title: a.title, url: `${frontendUrl()}/news/${a.slug}` })),
+      };
+
+      let queued = 0;
+      const cursor = User.find({ isVerified: true, 'preferences.notifications.email': { $ne: false } })
+        .select('name email preferences')
+        .lean()
+        .cursor();
+
+      for await (const user of cursor) {
+        // Left to the queue worker so a large mailing is sent in batches
+        if (await this.send('weekly_digest', user as any, { name: user.name, ...data }, { immediate: false })) queued += 1;
+      }
+
+      logger.info(`Queued ${queued} weekly digest(s)`);
+      return queued;
+    } finally {
+      await redisClient.releaseLock(DIGEST_LOCK_KEY, lockToken);
+    }
+  }
+}
+
+export const mailService = new MailService();
@@ -0,0 +1,513 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ModerationItem, IModerationItem, ModerationTargetType } from '../models/ModerationItem';
+import { ModerationAction, ModerationActionType } from '../models/ModerationAction';
+import { Thread } from '../models/Thread';
+import { Comment } from '../models/Comment';
+import { Content } from '../models/Content';
+import { NewsArticle } from '../models/NewsArticle';
+import { User } from '../models/User';
+import { awardService } from './awardService';
+import { notificationService } from './notificationService';
+import { permissionService } from './permissionService';
+import { mailService } from './mailService';
+import { newsSchedulerService } from './newsSchedulerService';
+import { getIO, broadcastModerationItemUpdate } from '../utils/socket';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+// How long a claim keeps other moderators off an item
+const CLAIM_TTL_MINUTES = Number(process.env.MODERATION_CLAIM_TTL_MINUTES) || 15;
+
+// Decisions that close an item; reports are dismissed or removed, approvals approved or rejected
+export type ModerationDecision = 'approve' | 'reject' | 'dismiss' | 'remove';
+
+const DECISIONS_BY_KIND: Record<IModerationItem['kind'], ModerationDecision[]> = {
+  report: ['dismiss', 'remove'],
+  approval: ['approve', 'reject'],
+};
+
+export type ModerationResult =
+  | { ok: true; item: any }
+  | { ok: false; error: 'not_found' | 'not_pending' | 'claimed' | 'invalid_action' | 'invalid_assignee' | 'target_missing' };
+
+export interface QueueFilters {
+  targetType?: ModerationTargetType;
+  kind?: IModerationItem['kind'];
+  status?: IModerationItem['status'];
+  reason?: string;
+  claimed?: 'me' | 'unclaimed' | 'any';
+  minReports?: number;
+  sort?: 'oldest' | 'newest' | 'reports';
+  page?: number;
+  limit?: number;
+}
+
+const excerptOf = (text?: string): string | undefined => (text ? String(text).slice(0, 200) : undefined);
+
+const clearCacheKeys = async (pattern: string) => {
+  try {
+    const keys = await redisClient.keys(pattern);
+    if (keys && keys.length > 0) {
+      await Promise.all(keys.map(key => redisClient.del(key)));
+    }
+  } catch (e) {
+    logger.warn(`Could not clear cache for ${pattern}:`, e);
+  }
+};
+
+const clearThreadListings = () => clearCacheKeys('threads:*');
+
+class ModerationService {
+  // Free to take when nobody holds it, the claim lapsed, or the moderator already holds it
+  private claimableBy(moderatorId: string) {
+    return {
+      $or: [
+        { claimedBy: null },
+        { claimExpiresAt: { $lte: new Date() } },
+        { claimedBy: new mongoose.Types.ObjectId(moderatorId) },
+      ],
+    };
+  }
+
+  private claimExpiry(): Date {
+    return new Date(Date.now() + CLAIM_TTL_MINUTES * 60 * 1000);
+  }
+
+  private async log(
+    moderatorId: string,
+    action: ModerationActionType,
+    item: { _id?: any; targetType: ModerationTargetType; targetId: any },
+    extra: { reason?: string; assignee?: string; batchId?: string } = {}
+  ): Promise<void> {
+    await ModerationAction.create({
+      moderator: moderatorId,
+      action,
+      targetType: item.targetType,
+      targetId: item.targetId,
+      item: item._id,
+      ...extra,
+    });
+  }
+
+  private broadcast(item: any): void {
+    const io = getIO();
+    if (io && item) broadcastModerationItemUpdate(io, item);
+  }
+
+  // Add a user report to the queue; a resolved or dismissed entry is reopened
+  async enqueueReport(
+    targetType: 'thread' | 'comment',
+    target: { _id: any; title?: string; content?: string; author?: any },
+    reason: string
+  ): Promise<void> {
+    const now = new Date();
+    try {
+      const item = await ModerationItem.findOneAndUpdate(
+        { targetType, targetId: target._id, kind: 'report' },
+        {
+          $set: {
+            status: 'pending',
+            title: target.title,
+            excerpt: excerptOf(target.content),
+            author: target.author,
+            lastReportedAt: now,
+          },
+          $setOnInsert: { firstReportedAt: now },
+          $addToSet: { reasons: reason },
+          $inc: { reportCount: 1 },
+          $unset: { resolvedBy: 1, resolvedAt: 1, resolution: 1 },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      ).lean();
+      this.broadcast(item);
+    } catch (error) {
+      logger.error(`Failed to queue report for ${targetType} ${target._id}:`, error);
+    }
+  }
+
+  // Queue a submission awaiting review (contributor content, news articles in review, filtered posts)
+  async enqueueApproval(
+    targetType: ModerationTargetType,
+    target: { _id: any; title?: string; excerpt?: string; author?: any }
+  ): Promise<void> {
+    const now = new Date();
+    try {
+      const item = await ModerationItem.findOneAndUpdate(
+        { targetType, targetId: target._id, kind: 'approval' },
+        {
+          $set: {
+            status: 'pending',
+            title: target.title,
+            excerpt: excerptOf(target.excerpt),
+            author: target.author,
+            lastReportedAt: now,
+            claimedBy: null,
+            claimExpiresAt: null,
+          },
+          $setOnInsert: { firstReportedAt: now },
+          $unset: { resolvedBy: 1, resolvedAt: 1, resolution: 1 },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      ).lean();
+      this.broadcast(item);
+    } catch (error) {
+      logger.error(`Failed to queue ${targetType} ${target._id} for approval:`, error);
+    }
+  }
+
+  // Close the pending entry for a target handled outside the queue (legacy moderation endpoints,
+  // editors publishing directly). Moderator decisions are always logged; with onlyIfPending the
+  // call is a no-op when nothing was queued
+  async closeForTarget(
+    targetType: ModerationTargetType,
+    targetId: string,
+    kind: IModerationItem['kind'],
+    moderatorId: string,
+    action: ModerationActionType,
+    options: { reason?: string; onlyIfPending?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const item = await ModerationItem.findOneAndUpdate(
+        { targetType, targetId, kind, status: 'pending' },
+        {
+          $set: {
+            status: action === 'dismiss' ? 'dismissed' : 'resolved',
+            resolvedBy: moderatorId,
+            resolvedAt: new Date(),
+            resolution: action,
+            claimedBy: null,
+            claimExpiresAt: null,
+          },
+        },
+        { new: true }
+      ).lean();
+      if (!item && options.onlyIfPending) return;
+
+      await this.log(moderatorId, action, item || { targetType, targetId }, { reason: options.reason });
+      this.broadcast(item);
+    } catch (error) {
+      logger.error(`Failed to close moderation item for ${targetType} ${targetId}:`, error);
+    }
+  }
+
+  async listQueue(moderatorId: string, filters: QueueFilters = {}) {
+    const page = Math.max(Number(filters.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(filters.limit) || 20, 1), 100);
+    const now = new Date();
+
+    const filter: any = { status: filters.status || 'pending' };
+    if (filters.targetType) filter.targetType = filters.targetType;
+    if (filters.kind) filter.kind = filters.kind;
+    if (filters.reason) filter.reasons = filters.reason;
+    if (filters.minReports) filter.reportCount = { $gte: Number(filters.minReports) };
+
+    if (filters.claimed === 'me') {
+      filter.claimedBy = new mongoose.Types.ObjectId(moderatorId);
+      filter.claimExpiresAt = { $gt: now };
+    } else if (filters.claimed === 'unclaimed') {
+      filter.$or = [{ claimedBy: null }, { claimExpiresAt: { $lte: now } }];
+    }
+
+    let sortObj: any;
+    switch (filters.sort) {
+      case 'newest':
+        sortObj = { lastReportedAt: -1 };
+        break;
+      case 'reports':
+        sortObj = { reportCount: -1, firstReportedAt: 1 };
+        break;
+      default:
+        sortObj = { firstReportedAt: 1 };
+    }
+
+    const [items, total] = await Promise.all([
+      ModerationItem.find(filter)
+        .populate('author', 'name avatar')
+        .populate('claimedBy', 'name avatar')
+        .sort(sortObj)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      ModerationItem.countDocuments(filter),
+    ]);
+
+    // Lapsed claims are shown as unclaimed
+    const queue = items.map((item: any) => (
+      item.claimExpiresAt && item.claimExpiresAt <= now ? { ...item, claimedBy: null, claimExpiresAt: null } : item
+    ));
+
+    return {
+      items: queue,
+      pagination: { current: page, pages: Math.ceil(total / limit), total, limit },
+    };
+  }
+
+  async claim(itemId: string, moderatorId: string): Promise<ModerationResult> {
+    const item = await ModerationItem.findOneAndUpdate(
+      { _id: itemId, status: 'pending', ...this.claimableBy(moderatorId) },
+      { $set: { claimedBy: moderatorId, claimExpiresAt: this.claimExpiry() } },
+      { new: true }
+    ).lean();
+
+    if (!item) return this.explainFailure(itemId);
+
+    await this.log(moderatorId, 'claim', item);
+    this.broadcast(item);
+    return { ok: true, item };
+  }
+
+  async release(itemId: string, moderatorId: string): Promise<ModerationResult> {
+    const item = await ModerationItem.findOneAndUpdate(
+      { _id: itemId, status: 'pending', ...this.claimableBy(moderatorId) },
+      { $set: { claimedBy: null, claimExpiresAt: null } },
+      { new: true }
+    ).lean();
+
+    if (!item) return this.explainFailure(itemId);
+
+    await this.log(moderatorId, 'release', item);
+    this.broadcast(item);
+    return { ok: true, item };
+  }
+
+  // Moderators can hand over items they could claim; moderation.reassign allows reassigning anything
+  async assign(itemId: string, moderatorId: string, assigneeId: string, canReassign: boolean): Promise<ModerationResult> {
+    const assignee = await User.findById(assigneeId).select('role').lean();
+    if (!assignee || !(await permissionService.hasPermission(assignee.role, 'moderation.queue'))) {
+      return { ok: false, error: 'invalid_assignee' };
+    }
+
+    const filter: any = { _id: itemId, status: 'pending' };
+    if (!canReassign) Object.assign(filter, this.claimableBy(moderatorId));
+
+    const item = await ModerationItem.findOneAndUpdate(
+      filter,
+      { $set: { claimedBy: assigneeId, claimExpiresAt: this.claimExpiry() } },
+      { new: true }
+    ).lean();
+
+    if (!item) return this.explainFailure(itemId);
+
+    await this.log(moderatorId, 'assign', item, { assignee: assigneeId });
+    this.broadcast(item);
+    return { ok: true, item };
+  }
+
+  // Apply a decision to one item; the item is claimed atomically first so two moderators cannot both act
+  async act(
+    itemId: string,
+    moderatorId: string,
+    action: ModerationDecision,
+    options: { reason?: string; batchId?: string } = {}
+  ): Promise<ModerationResult> {
+    const existing = await ModerationItem.findById(itemId).select('kind').lean();
+    if (!existing) return { ok: false, error: 'not_found' };
+    if (!DECISIONS_BY_KIND[existing.kind].includes(action)) return { ok: false, error: 'invalid_action' };
+
+    const claimed = await ModerationItem.findOneAndUpdate(
+      { _id: itemId, status: 'pending', ...this.claimableBy(moderatorId) },
+      { $set: { claimedBy: moderatorId, claimExpiresAt: this.claimExpiry() } },
+      { new: true }
+    ).lean();
+    if (!claimed) return this.explainFailure(itemId);
+
+    const applied = await this.applyDecision(claimed, moderatorId, action, options.reason);
+    if (!applied) {
+      // The target is gone; close the entry so it leaves the queue
+      await ModerationItem.updateOne({ _id: itemId }, { $set: { status: 'dismissed', resolution: 'target_missing', resolvedBy: moderatorId, resolvedAt: new Date(), claimedBy: null, claimExpiresAt: null } });
+      return { ok: false, error: 'target_missing' };
+    }
+
+    const item = await ModerationItem.findByIdAndUpdate(
+      itemId,
+      {
+        $set: {
+          status: action === 'dismiss' ? 'dismissed' : 'resolved',
+          resolvedBy: moderatorId,
+          resolvedAt: new Date(),
+          resolution: action,
+          claimedBy: null,
+          claimExpiresAt: null,
+        },
+      },
+      { new: true }
+    ).lean();
+
+    await this.log(moderatorId, action, claimed, { reason: options.reason, batchId: options.batchId });
+    this.broadcast(item);
+
+    // Let the author know, unless the report was dismissed and nothing happened to their post
+    if (action !== 'dismiss' && claimed.author) {
+      mailService.sendModerationOutcome(claimed.author.toString(), {
+        targetType: claimed.targetType,
+        title: claimed.title,
+        action,
+        reason: options.reason,
+      }).catch((error) => logger.error(`Could not queue moderation outcome email for item ${itemId}:`, error));
+    }
+
+    return { ok: true, item };
+  }
+
+  async bulk(itemIds: string[], moderatorId: string, action: ModerationDecision, reason?: string) {
+    const batchId = crypto.randomUUID();
+    const results: Array<{ itemId: string; ok: boolean; error?: string }> = [];
+
+    // Sequential so each item is claimed and logged on its own
+    for (const itemId of [...new Set(itemIds)]) {
+      try {
+        const result = await this.act(itemId, moderatorId, action, { reason, batchId });
+        results.push('error' in result ? { itemId, ok: false, error: result.error } : { itemId, ok: true });
+      } catch (error) {
+        logger.error(`Bulk moderation failed for item ${itemId}:`, error);
+        results.push({ itemId, ok: false, error: 'failed' });
+      }
+    }
+
+    return { batchId, results, succeeded: results.filter(r => r.ok).length, failed: results.filter(r => !r.ok).length };
+  }
+
+  async listActions(options: { cursor?: string; limit?: number; moderator?: string; targetType?: string; targetId?: string } = {}) {
+    const limit = Math.min(Math.max(Number(options.limit) || 50, 1), 100);
+    const filter: any = {};
+    if (options.moderator && mongoose.Types.ObjectId.isValid(options.moderator)) filter.moderator = options.moderator;
+    if (options.targetType) filter.targetType = options.targetType;
+    if (options.targetId && mongoose.Types.ObjectId.isValid(options.targetId)) filter.targetId = options.targetId;
+    if (options.cursor && mongoose.Types.ObjectId.isValid(options.cursor)) {
+      filter._id = { $lt: new mongoose.Types.ObjectId(options.cursor) };
+    }
+
+    const items = await ModerationAction.find(filter)
+      .populate('moderator', 'name avatar')
+      .populate('assignee', 'name avatar')
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = items.length > limit;
+    const actions = hasMore ? items.slice(0, limit) : items;
+    const nextCursor = hasMore ? actions[actions.length - 1]._id.toString() : null;
+
+    return { actions, nextCursor, hasMore };
+  }
+
+  async approveContent(contentId: string, moderatorId: string) {
+    const content = await Content.findByIdAndUpdate(
+      contentId,
+      { status: 'approved', publishedAt: new Date() },
+      { new: true }
+    ).populate('contributor', 'name email avatar');
+    if (!content) return null;
+
+    const contributorId = (content.contributor as any)._id?.toString() || content.contributor.toString();
+
+    // Update user stats
+    await User.findByIdAndUpdate(contributorId, { $inc: { 'stats.contentApproved': 1 } });
+    await awardService.rewardApprovedContent(contributorId, contentId);
+
+    await redisClient.del(`content:${contentId}`);
+
+    // Tell the contributor, and their followers now that the content is live
+    await notificationService.notifyContentModerated(content, true, moderatorId);
+    await notificationService.notifyFollowersOfPost(content.contributor, {
+      kind: 'content',
+      id: contentId,
+      title: content.title,
+      link: `/content/${contentId}`
+    });
+
+    return content;
+  }
+
+  async rejectContent(contentId: string, moderatorId: string, reason?: string) {
+    const content = await Content.findByIdAndUpdate(
+      contentId,
+      { status: 'rejected', rejectionReason: reason },
+      { new: true }
+    ).populate('contributor', 'name email avatar');
+    if (!content) return null;
+
+    await redisClient.del(`content:${contentId}`);
+    await notificationService.notifyContentModerated(content, false, moderatorId, reason);
+
+    return content;
+  }
+
+  async removeThread(threadId: string, moderatorId: string) {
+    const thread = await Thread.findOneAndUpdate(
+      { _id: threadId, isDeleted: false },
+      { isDeleted: true, deletedAt: new Date(), deletedBy: moderatorId, $set: { 'reports.$[].status': 'resolved' } },
+      { new: true }
+    );
+    if (thread) await clearThreadListings();
+    return thread;
+  }
+
+  async hideComment(commentId: string) {
+    const comment = await Comment.findOneAndUpdate(
+      { _id: commentId, isDeleted: false },
+      { isDeleted: true, deletedAt: new Date(), $set: { 'reports.$[].status': 'resolved' } },
+      { new: true }
+    );
+    if (comment && !comment.heldForReview) {
+      await Thread.findByIdAndUpdate(comment.thread, { $inc: { commentCount: -1 } });
+    }
+    return comment;
+  }
+
+  private async applyDecision(item: any, moderatorId: string, action: ModerationDecision, reason?: string): Promise<boolean> {
+    const targetId = item.targetId.toString();
+
+    switch (`${item.targetType}:${action}`) {
+      case 'thread:dismiss':
+        return !!(await Thread.findByIdAndUpdate(targetId, { $set: { 'reports.$[].status': 'dismissed' } }));
+      case 'thread:remove':
+        return !!(await this.removeThread(targetId, moderatorId));
+      case 'comment:dismiss':
+        return !!(await Comment.findByIdAndUpdate(targetId, { $set: { 'reports.$[].status': 'dismissed' } }));
+      case 'comment:remove':
+      case 'comment:reject':
+        return !!(await this.hideComment(targetId));
+      case 'thread:reject':
+        return !!(await this.removeThread(targetId, moderatorId));
+      case 'thread:approve': {
+        const thread = await Thread.findByIdAndUpdate(targetId, { heldForReview: false });
+        if (thread) await clearThreadListings();
+        return !!thread;
+      }
+      case 'comment:approve': {
+        // The pre-update document tells whether this approval is the one that releases the comment
+        const comment = await Comment.findByIdAndUpdate(targetId, { heldForReview: false });
+        if (comment?.heldForReview && !comment.isDeleted && comment.thread) {
+          await Thread.findByIdAndUpdate(comment.thread, { $inc: { commentCount: 1 } });
+        }
+        if (comment) await clearCacheKeys(`comments:${comment.thread || comment.article}:*`);
+        return !!comment;
+      }
+      case 'content:approve':
+        return !!(await this.approveContent(targetId, moderatorId));
+      case 'content:reject':
+        return !!(await this.rejectContent(targetId, moderatorId, reason));
+      case 'news:approve':
+        return !!(await newsSchedulerService.publishArticle(targetId, {
+          from: ['draft', 'in_review', 'scheduled'],
+          editorId: moderatorId,
+          note: 'approved in moderation',
+        }));
+      case 'news:reject':
+        return !!(await NewsArticle.findByIdAndUpdate(targetId, { state: 'draft' }));
+      default:
+        return false;
+    }
+  }
+
+  private async explainFailure(itemId: string): Promise<ModerationResult> {
+    const item = await ModerationItem.findById(itemId).select('status').lean();
+    if (!item) return { ok: false, error: 'not_found' };
+    if (item.status !== 'pending') return { ok: false, error: 'not_pending' };
+    return { ok: false, error: 'claimed' };
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -0,0 +1,144 @@
+import cron from 'node-cron';
+import { NewsArticle, INewsArticle } from '../models/NewsArticle';
+import { NewsRevision } from '../models/NewsRevision';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+import { getIO, broadcastNewContent } from '../utils/socket';
+
+const LOCK_KEY = 'lock:news_scheduler';
+const LOCK_TTL_SECONDS = 55;
+const BATCH_SIZE = 50;
+
+// Articles still scheduled this long after their publish time were missed by the worker
+const MISSED_GRACE_MS = 5 * 60 * 1000;
+
+class NewsSchedulerService {
+  private task: cron.ScheduledTask | null = null;
+  private running = false;
+
+  // Run the publisher every minute; the Redis lock keeps it to one instance at a time
+  start(): void {
+    if (this.task) return;
+
+    this.task = cron.schedule(process.env.NEWS_SCHEDULER_CRON || '* * * * *', () => {
+      this.publishDueArticles().catch((error) => {
+        logger.error('News scheduler run failed:', error);
+      });
+    });
+
+    logger.info('News scheduler started');
+  }
+
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      logger.info('News scheduler stopped');
+    }
+  }
+
+  // Promote every scheduled article whose scheduledAt has passed
+  async publishDueArticles(): Promise<number> {
+    if (this.running) return 0;
+
+    const lockToken = await redisClient.acquireLock(LOCK_KEY, LOCK_TTL_SECONDS);
+    if (!lockToken) {
+      logger.debug('News scheduler lock held by another instance, skipping run');
+      return 0;
+    }
+
+    this.running = true;
+    let published = 0;
+
+    try {
+      const dueArticles = await NewsArticle.find({
+        state: 'scheduled',
+        scheduledAt: { $lte: new Date() },
+        isDeleted: false,
+      })
+        .sort({ scheduledAt: 1 })
+        .limit(BATCH_SIZE)
+        .select('_id');
+
+      for (const { _id } of dueArticles) {
+        try {
+          const article = await this.publishArticle(_id.toString());
+          if (article) published += 1;
+        } catch (error) {
+          logger.error(`Failed to publish scheduled article ${_id}:`, error);
+        }
+      }
+
+      if (published > 0) {
+        logger.info(`News scheduler published ${published} article(s)`);
+      }
+    } finally {
+      this.running = false;
+      await redisClient.releaseLock(LOCK_KEY, lockToken);
+    }
+
+    return published;
+  }
+
+  // Publish with a revision and a live broadcast; only articles still in one of `from` are flipped
+  async publishArticle(
+    id: string,
+    { from = ['scheduled'], editorId, note = 'scheduled publish' }: { from?: INewsArticle['state'][]; editorId?: string; note?: string } = {}
+  ): Promise<INewsArticle | null> {
+    // Checking the state in the update keeps an editor's change made meanwhile from being overwritten
+    const article = await NewsArticle.findOneAndUpdate(
+      { _id: id, state: { $in: from }, isDeleted: false },
+      { state: 'published', publishedAt: new Date(), scheduledAt: null },
+      { new: true }
+    );
+    if (!article) return null;
+
+    await NewsRevision.create({
+      articleId: article._id,
+      snapshot: article.toObject(),
+      editorId: editorId || article.author,
+      note,
+    });
+
+    const io = getIO();
+    if (io) {
+      broadcastNewContent(io, {
+        type: 'news',
+        id: article._id.toString(),
+        title: article.title,
+        slug: article.slug,
+        summary: article.summary,
+        category: article.category,
+        heroImage: article.heroImage,
+        publishedAt: article.publishedAt,
+      });
+    }
+
+    return article;
+  }
+
+  // Upcoming schedules plus those that are overdue and were never published
+  async getSchedules(limit = 50): Promise<{ upcoming: any[]; missed: any[] }> {
+    const now = new Date();
+    const missedBefore = new Date(now.getTime() - MISSED_GRACE_MS);
+
+    const [upcoming, missed] = await Promise.all([
+      NewsArticle.find({ state: 'scheduled', scheduledAt: { $gt: now }, isDeleted: false })
+        .select('title slug category type author scheduledAt updatedAt')
+        .populate('author', 'name avatar')
+        .sort({ scheduledAt: 1 })
+        .limit(limit)
+        .lean(),
+      NewsArticle.find({ state: 'scheduled', scheduledAt: { $lte: missedBefore }, isDeleted: false })
+        .select('title slug category type author scheduledAt updatedAt')
+        .populate('author', 'name avatar')
+        .sort({ scheduledAt: 1 })
+        .limit(limit)
+        .lean(),
+    ]);
+
+    return { upcoming, missed };
+  }
+}
+
+export const newsSchedulerService = new NewsSchedulerService();
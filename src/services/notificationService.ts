@@ -0,0 +1,224 @@
+import mongoose from 'mongoose';
+import { Notification, INotification, NotificationType } from '../models/Notification';
+import { User } from '../models/User';
+import { followService } from './followService';
+import { logger } from '../utils/logger';
+import { getIO } from '../utils/socket';
+
+interface CreateNotificationInput {
+  recipient: mongoose.Types.ObjectId | string;
+  type: NotificationType;
+  actor?: mongoose.Types.ObjectId | string;
+  title: string;
+  message: string;
+  link?: string;
+  target?: INotification['target'];
+  data?: any;
+}
+
+// Upvote counts on a thread that trigger a milestone notification for its author
+const VOTE_MILESTONES = [10, 25, 50, 100, 250, 500, 1000, 5000];
+
+const FANOUT_BATCH_SIZE = 500;
+
+class NotificationService {
+  // Persist a notification and push it to the recipient's socket room
+  async create(input: CreateNotificationInput): Promise<INotification | null> {
+    if (input.actor && input.actor.toString() === input.recipient.toString()) {
+      return null; // Never notify users about their own actions
+    }
+
+    const notification = await Notification.create(input);
+    this.deliver(notification.recipient.toString(), notification.toObject());
+    return notification;
+  }
+
+  // Persist the same notification for many recipients
+  async createMany(recipients: string[], input: Omit<CreateNotificationInput, 'recipient'>): Promise<number> {
+    const actorId = input.actor?.toString();
+    const targets = [...new Set(recipients)].filter((id) => id !== actorId);
+    let created = 0;
+
+    for (let i = 0; i < targets.length; i += FANOUT_BATCH_SIZE) {
+      const batch = targets.slice(i, i + FANOUT_BATCH_SIZE);
+      const docs = await Notification.insertMany(batch.map((recipient) => ({ ...input, recipient })));
+      docs.forEach((doc) => this.deliver(doc.recipient.toString(), doc.toObject()));
+      created += docs.length;
+    }
+
+    return created;
+  }
+
+  private deliver(userId: string, payload: any): void {
+    const io = getIO();
+    if (!io) return;
+    io.to(`user:${userId}`).emit('notification', payload);
+  }
+
+  async list(userId: string, options: { cursor?: string; limit?: number; unreadOnly?: boolean } = {}) {
+    const limit = Math.min(Math.max(Number(options.limit) || 20, 1), 100);
+    const filter: any = { recipient: userId };
+    if (options.unreadOnly) filter.isRead = false;
+    if (options.cursor && mongoose.Types.ObjectId.isValid(options.cursor)) {
+      filter._id = { $lt: new mongoose.Types.ObjectId(options.cursor) };
+    }
+
+    const items = await Notification.find(filter)
+      .populate('actor', 'name avatar')
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = items.length > limit;
+    const notifications = hasMore ? items.slice(0, limit) : items;
+    const nextCursor = hasMore ? notifications[notifications.length - 1]._id.toString() : null;
+
+    return { notifications, nextCursor, hasMore };
+  }
+
+  async unreadCount(userId: string): Promise<number> {
+    return Notification.countDocuments({ recipient: userId, isRead: false });
+  }
+
+  async markAsRead(userId: string, notificationId: string): Promise<INotification | null> {
+    return Notification.findOneAndUpdate(
+      { _id: notificationId, recipient: userId },
+      { isRead: true, readAt: new Date() },
+      { new: true }
+    );
+  }
+
+  async markAllAsRead(userId: string): Promise<number> {
+    const result = await Notification.updateMany(
+      { recipient: userId, isRead: false },
+      { isRead: true, readAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  async remove(userId: string, notificationId: string): Promise<boolean> {
+    const result = await Notification.deleteOne({ _id: notificationId, recipient: userId });
+    return result.deletedCount > 0;
+  }
+
+  // Someone replied to a user's comment
+  async notifyCommentReply(parentComment: any, reply: any, replier: any): Promise<void> {
+    try {
+      await this.create({
+        recipient: parentComment.author,
+        type: 'comment_reply',
+        actor: replier._id,
+        title: 'New reply to your comment',
+        message: `${replier.name} replied: ${String(reply.content).slice(0, 140)}`,
+        link: reply.thread ? `/threads/${reply.thread}#comment-${reply._id}` : undefined,
+        target: { kind: 'comment', id: reply._id.toString() },
+        data: { parentCommentId: parentComment._id.toString(), threadId: reply.thread?.toString(), articleId: reply.article?.toString() },
+      });
+    } catch (error) {
+      logger.error('Error creating comment reply notification:', error);
+    }
+  }
+
+  // A thread crossed an upvote milestone
+  async notifyVoteMilestone(thread: any): Promise<void> {
+    try {
+      const milestone = VOTE_MILESTONES.find((value) => value === thread.upvotes);
+      if (!milestone) return;
+
+      const threadId = thread._id.toString();
+      const alreadySent = await Notification.exists({
+        recipient: thread.author,
+        type: 'thread_vote_milestone',
+        'target.id': threadId,
+        'data.milestone': milestone,
+      });
+      if (alreadySent) return;
+
+      await this.create({
+        recipient: thread.author,
+        type: 'thread_vote_milestone',
+        title: `Your thread reached ${milestone} upvotes`,
+        message: `"${thread.title}" now has ${milestone} upvotes`,
+        link: `/threads/${threadId}`,
+        target: { kind: 'thread', id: threadId },
+        data: { milestone },
+      });
+    } catch (error) {
+      logger.error('Error creating vote milestone notification:', error);
+    }
+  }
+
+  // A moderator approved or rejected submitted content
+  async notifyContentModerated(content: any, approved: boolean, moderatorId?: string, reason?: string): Promise<void> {
+    try {
+      const contentId = content._id.toString();
+      await this.create({
+        recipient: content.contributor?._id || content.contributor,
+        type: approved ? 'content_approved' : 'content_rejected',
+        actor: moderatorId,
+        title: approved ? 'Your submission was approved' : 'Your submission was rejected',
+        message: approved
+          ? `"${content.title}" is now live`
+          : `"${content.title}" was rejected${reason ? `: ${reason}` : ''}`,
+        link: `/content/${contentId}`,
+        target: { kind: 'content', id: contentId },
+        data: reason ? { reason } : undefined,
+      });
+    } catch (error) {
+      logger.error('Error creating content moderation notification:', error);
+    }
+  }
+
+  // A user that others follow published a thread, content or article
+  async notifyFollowersOfPost(author: any, post: { kind: 'thread' | 'content' | 'news'; id: string; title: string; link: string }): Promise<void> {
+    try {
+      const authorId = (author._id || author).toString();
+      const followerIds = await followService.getNotifiableFollowerIds(authorId);
+      if (followerIds.length === 0) return;
+
+      const optedIn = await User.find({
+        _id: { $in: followerIds },
+        'preferences.notifications.contentUpdates': { $ne: false },
+      }).select('_id').lean();
+
+      await this.createMany(optedIn.map((f: any) => f._id.toString()), {
+        type: 'followed_user_posted',
+        actor: authorId,
+        title: `${author.name || 'Someone you follow'} posted something new`,
+        message: post.title,
+        link: post.link,
+        target: { kind: post.kind, id: post.id },
+      });
+    } catch (error) {
+      logger.error('Error notifying followers of new post:', error);
+    }
+  }
+
+  // A match involving a user's favourite team is starting
+  async notifyTeamMatchStarting(matchId: string, matchData: any): Promise<void> {
+    try {
+      const home = matchData?.teams?.home || {};
+      const away = matchData?.teams?.away || {};
+      const teamKeys = [home.id, home.name, away.id, away.name].filter(Boolean).map(String);
+      if (teamKeys.length === 0) return;
+
+      const fans = await User.find({
+        'preferences.favoriteTeams': { $in: teamKeys },
+        'preferences.notifications.matchUpdates': { $ne: false },
+      }).select('_id').lean();
+      if (fans.length === 0) return;
+
+      await this.createMany(fans.map((f: any) => f._id.toString()), {
+        type: 'team_match_starting',
+        title: 'Match starting',
+        message: `${home.name || 'Home'} vs ${away.name || 'Away'} is about to start`,
+        link: matchData.detailUrl,
+        target: { kind: 'match', id: matchId },
+      });
+    } catch (error) {
+      logger.error('Error notifying fans of match start:', error);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,267 @@
+import { Role, IRole } from '../models/Role';
+import { User } from '../models/User';
+import { ModerationAction } from '../models/ModerationAction';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+// Every permission the API checks, with what it unlocks
+export const PERMISSIONS: Record<string, string> = {
+  'news.create': 'Create news articles',
+  'news.edit': 'Edit news articles',
+  'news.submit': 'Submit news articles for review',
+  'news.schedule': 'Schedule news articles',
+  'news.publish': 'Publish and unpublish news articles',
+  'news.schedules.view': 'View the news publishing schedule',
+  'media.view': 'Browse the media library',
+  'media.upload': 'Upload media',
+  'media.delete': 'Delete media',
+  'thread.pin': 'Pin threads',
+  'thread.lock': 'Lock threads',
+  'thread.edit_any': 'Edit threads by other users',
+  'thread.delete_any': 'Delete threads by other users',
+  'comment.edit_any': 'Edit comments by other users',
+  'comment.delete_any': 'Delete comments by other users',
+  'comment.hide': 'Hide comments from public view',
+  'reports.manage': 'Review and resolve user reports',
+  'content.approve': 'Approve and reject contributed content',
+  'content.edit_any': 'Edit content by other users',
+  'content.delete_any': 'Delete content by other users',
+  'moderation.queue': 'Work the moderation queue and see held or hidden posts',
+  'moderation.reassign': 'Reassign queue items claimed by other moderators',
+  'moderation.log': 'Read the moderation action log',
+  'content_filter.manage': 'Change content filter rules',
+  'content_filter.test': 'Dry-run text through the content filter',
+  'users.view': 'List users and view admin profiles',
+  'users.edit': 'Edit other users\' profiles',
+  'users.manage': 'Verify and delete user accounts',
+  'users.sanction': 'Suspend, mute, shadow-ban and rate-limit users',
+  'users.sanction_staff': 'Sanction users who hold a staff role',
+  'users.ban': 'Permanently ban users',
+  'users.reset_two_factor': 'Reset two-factor authentication for users who lost access',
+  'users.unlock': 'Lift login lockouts and view failed login history',
+  'roles.manage': 'Define roles and their permissions',
+  'roles.assign': 'Change a user\'s role',
+  'awards.manage': 'Manage the award catalogue',
+  'teams.manage': 'Manage cricket team profiles',
+  'admin.kpis': 'View dashboard KPIs',
+  'admin.logs': 'Read server logs',
+  'admin.providers': 'View sports data provider health',
+  'admin.search': 'Inspect and rebuild search indices'
+};
+
+export const WILDCARD_PERMISSION = '*';
+
+const WRITER_PERMISSIONS = ['news.create', 'news.edit', 'news.submit', 'media.view', 'media.upload', 'media.delete'];
+
+interface RoleDefinition {
+  permissions: string[];
+  requireTwoFactor: boolean;
+}
+
+// Built-in roles; stored on first start and then editable, except that admin always keeps '*'
+export const DEFAULT_ROLES: Array<{ name: string; description: string } & RoleDefinition> = [
+  { name: 'user', description: 'Regular member', permissions: [], requireTwoFactor: false },
+  { name: 'writer', description: 'Writes news articles for review', permissions: WRITER_PERMISSIONS, requireTwoFactor: false },
+  {
+    name: 'editor',
+    description: 'Reviews, schedules and publishes news',
+    permissions: [...WRITER_PERMISSIONS, 'news.schedule', 'news.publish', 'news.schedules.view', 'teams.manage', 'admin.kpis'],
+    requireTwoFactor: true
+  },
+  {
+    name: 'moderator',
+    description: 'Keeps the community safe',
+    requireTwoFactor: true,
+    permissions: [
+      'thread.pin', 'thread.lock', 'comment.hide',
+      'reports.manage', 'content.approve', 'content.edit_any', 'moderation.queue', 'moderation.log',
+      'content_filter.test', 'users.view', 'users.edit', 'users.sanction', 'media.view', 'media.upload', 'media.delete', 'admin.kpis'
+    ]
+  },
+  { name: 'admin', description: 'Full access', permissions: [WILDCARD_PERMISSION], requireTwoFactor: true }
+];
+
+export const SYSTEM_ROLE_NAMES = DEFAULT_ROLES.map((role) => role.name);
+
+const ROLES_CACHE_KEY = 'rbac:roles';
+const ROLES_CACHE_TTL = 300;
+
+export type RoleResult =
+  | { ok: true; role: any }
+  | { ok: false; error: 'not_found' | 'system_role' | 'in_use' | 'unknown_permission' | 'forbidden' };
+
+// Who is changing roles; their own role bounds what they may hand out
+export interface RoleActor {
+  _id: any;
+  role?: string;
+}
+
+class PermissionService {
+  // Stores missing built-in roles; existing ones keep any edits made by admins
+  async ensureDefaultRoles(): Promise<void> {
+    await Role.bulkWrite(DEFAULT_ROLES.flatMap(({ requireTwoFactor, ...role }) => [
+      {
+        updateOne: {
+          filter: { name: role.name },
+          update: { $setOnInsert: { ...role }, $set: { isSystem: true } },
+          upsert: true,
+        },
+      },
+      // Roles stored before the two-factor policy existed get the default policy once
+      {
+        updateOne: {
+          filter: { name: role.name, requireTwoFactor: { $exists: false } },
+          update: { $set: { requireTwoFactor } },
+        },
+      },
+    ]));
+    await redisClient.del(ROLES_CACHE_KEY);
+  }
+
+  // Role name -> permissions and policy, cached for every request that checks one
+  private async roleDefinitions(): Promise<Record<string, RoleDefinition>> {
+    const cachedData = await redisClient.get(ROLES_CACHE_KEY);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    const roles = await Role.find().select('name permissions requireTwoFactor').lean();
+    const map: Record<string, RoleDefinition> = {};
+    for (const role of roles) {
+      map[role.name] = { permissions: role.permissions, requireTwoFactor: !!role.requireTwoFactor };
+    }
+    // Never lock everyone out if the collection has not been seeded yet
+    for (const { name, permissions, requireTwoFactor } of DEFAULT_ROLES) {
+      if (!map[name]) map[name] = { permissions, requireTwoFactor };
+    }
+
+    try {
+      await redisClient.set(ROLES_CACHE_KEY, JSON.stringify(map), ROLES_CACHE_TTL);
+    } catch (error) {
+      logger.warn('Could not cache role permissions:', error);
+    }
+    return map;
+  }
+
+  async permissionsFor(role?: string): Promise<string[]> {
+    if (!role) return [];
+    const map = await this.roleDefinitions();
+    return map[role]?.permissions || [];
+  }
+
+  // Whether members of the role must use two-factor authentication
+  async requiresTwoFactor(role?: string): Promise<boolean> {
+    if (!role) return false;
+    const map = await this.roleDefinitions();
+    return !!map[role]?.requireTwoFactor;
+  }
+
+  async hasPermission(role: string | undefined, permission: string): Promise<boolean> {
+    const permissions = await this.permissionsFor(role);
+    return permissions.includes(WILDCARD_PERMISSION) || permissions.includes(permission);
+  }
+
+  async userCan(user: { role?: string } | undefined | null, permission: string): Promise<boolean> {
+    return !!user && this.hasPermission(user.role, permission);
+  }
+
+  // Roles that grant a permission, e.g. to find who may be assigned queue items
+  async rolesWith(permission: string): Promise<string[]> {
+    const map = await this.roleDefinitions();
+    return Object.entries(map)
+      .filter(([, { permissions }]) => permissions.includes(WILDCARD_PERMISSION) || permissions.includes(permission))
+      .map(([name]) => name);
+  }
+
+  async listRoles(): Promise<Array<IRole & { userCount: number }>> {
+    const [roles, counts] = await Promise.all([
+      Role.find().sort({ isSystem: -1, name: 1 }).lean(),
+      User.aggregate([{ $group: { _id: '$role', count: { $sum: 1 } } }]),
+    ]);
+    const countByRole = new Map(counts.map((c: any) => [c._id, c.count]));
+    return roles.map((role) => ({ ...role, userCount: countByRole.get(role.name) || 0 })) as any;
+  }
+
+  async upsertRole(name: string, data: { description?: string; permissions: string[]; requireTwoFactor?: boolean }, actor: RoleActor): Promise<RoleResult> {
+    const unknown = data.permissions.filter((p) => p !== WILDCARD_PERMISSION && !PERMISSIONS[p]);
+    if (unknown.length) return { ok: false, error: 'unknown_permission' };
+
+    // Admin must keep full access so the system cannot be locked out
+    const permissions = name === 'admin' ? [WILDCARD_PERMISSION] : [...new Set(data.permissions)];
+
+    // Only permissions the role does not have yet are grants; a role with '*' is off limits to anyone without it
+    const current = await this.permissionsFor(name);
+    const guarded = name === 'admin' || current.includes(WILDCARD_PERMISSION) ? [WILDCARD_PERMISSION] : [];
+    const added = permissions.filter((p) => !current.includes(p));
+    if ((await this.withheld(actor.role, [...guarded, ...added])).length) return { ok: false, error: 'forbidden' };
+
+    const role = await Role.findOneAndUpdate(
+      { name },
+      {
+        $set: {
+          description: data.description,
+          permissions,
+          ...(data.requireTwoFactor !== undefined ? { requireTwoFactor: data.requireTwoFactor } : {}),
+        },
+        $setOnInsert: { name, isSystem: false },
+      },
+      { upsert: true, new: true, runValidators: true }
+    ).lean();
+
+    await redisClient.del(ROLES_CACHE_KEY);
+    logger.info(`Role ${name} updated by ${actor._id}:`, permissions);
+    return { ok: true, role };
+  }
+
+  async deleteRole(name: string): Promise<RoleResult> {
+    const role = await Role.findOne({ name }).lean();
+    if (!role) return { ok: false, error: 'not_found' };
+    if (role.isSystem) return { ok: false, error: 'system_role' };
+    if (await User.exists({ role: name })) return { ok: false, error: 'in_use' };
+
+    await Role.deleteOne({ name });
+    await redisClient.del(ROLES_CACHE_KEY);
+    return { ok: true, role };
+  }
+
+  async assignRole(userId: string, roleName: string, actor: RoleActor): Promise<{ ok: true; user: any } | { ok: false; error: 'not_found' | 'unknown_role' | 'last_admin' | 'forbidden' }> {
+    const role = await Role.exists({ name: roleName });
+    if (!role && !SYSTEM_ROLE_NAMES.includes(roleName)) return { ok: false, error: 'unknown_role' };
+
+    const user = await User.findById(userId).select('-password');
+    if (!user) return { ok: false, error: 'not_found' };
+
+    // The new role may not grant more than the actor holds, nor may the actor demote someone above them
+    const [granted, current] = await Promise.all([this.permissionsFor(roleName), this.permissionsFor(user.role)]);
+    if ((await this.withheld(actor.role, [...granted, ...current])).length) return { ok: false, error: 'forbidden' };
+
+    // Keep at least one admin
+    if (user.role === 'admin' && roleName !== 'admin' && (await User.countDocuments({ role: 'admin' })) <= 1) {
+      return { ok: false, error: 'last_admin' };
+    }
+
+    const previousRole = user.role;
+    user.role = roleName;
+    await user.save();
+    await redisClient.del(`user:${userId}`);
+
+    await ModerationAction.create({
+      moderator: actor._id,
+      action: 'assign_role',
+      targetType: 'user',
+      targetId: user._id,
+      reason: `${previousRole} -> ${roleName}`,
+    });
+
+    return { ok: true, user };
+  }
+
+  // The permissions in the list that the role does not hold; '*' itself is only held by '*'
+  private async withheld(role: string | undefined, permissions: string[]): Promise<string[]> {
+    const held = await this.permissionsFor(role);
+    if (held.includes(WILDCARD_PERMISSION)) return [];
+    return [...new Set(permissions.filter((p) => !held.includes(p)))];
+  }
+}
+
+export const permissionService = new PermissionService();
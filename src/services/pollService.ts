@@ -0,0 +1,125 @@
+import { Thread, IThread } from '../models/Thread';
+import { PollBallot } from '../models/PollBallot';
+
+export interface PollView {
+  question: string;
+  options: Array<{ index: number; text: string; votes?: number; percentage?: number }>;
+  allowMultiple: boolean;
+  expiresAt?: Date;
+  isExpired: boolean;
+  resultsVisible: boolean;
+  totalVotes?: number;
+  userVote: number[] | null;
+}
+
+const isExpired = (poll: IThread['poll']): boolean =>
+  !!poll?.expiresAt && new Date(poll.expiresAt).getTime() <= Date.now();
+
+class PollService {
+  isExpired(poll: IThread['poll']): boolean {
+    return isExpired(poll);
+  }
+
+  resultsVisible(poll: IThread['poll'], hasVoted: boolean): boolean {
+    if (!poll) return false;
+    if (isExpired(poll)) return true;
+
+    switch (poll.resultsVisibility) {
+      case 'always':
+        return true;
+      case 'after_expiry':
+        return false;
+      default:
+        return hasVoted;
+    }
+  }
+
+  async getBallot(threadId: string, userId: string): Promise<number[] | null> {
+    const ballot = await PollBallot.findOne({ thread: threadId, user: userId }).select('options').lean();
+    return ballot ? ballot.options : null;
+  }
+
+  // Vote counts and percentages per option (percentages of all selections)
+  results(poll: NonNullable<IThread['poll']>) {
+    const totalSelections = poll.options.reduce((sum, option) => sum + (option.votes || 0), 0);
+
+    return {
+      options: poll.options.map((option, index) => ({
+        index,
+        votes: option.votes || 0,
+        percentage: totalSelections ? Math.round(((option.votes || 0) / totalSelections) * 1000) / 10 : 0
+      })),
+      totalVotes: poll.totalVotes
+    };
+  }
+
+  // Shape a poll for one viewer, hiding counts they are not allowed to see yet
+  present(poll: IThread['poll'], userVote: number[] | null = null): PollView | undefined {
+    if (!poll || !poll.question) return undefined;
+
+    const visible = this.resultsVisible(poll, !!userVote);
+    const counts = visible ? this.results(poll).options : [];
+
+    return {
+      question: poll.question,
+      options: poll.options.map((option, index) => ({
+        index,
+        text: option.text,
+        ...(visible ? { votes: counts[index].votes, percentage: counts[index].percentage } : {})
+      })),
+      allowMultiple: poll.allowMultiple,
+      expiresAt: poll.expiresAt,
+      isExpired: isExpired(poll),
+      resultsVisible: visible,
+      totalVotes: visible ? poll.totalVotes : undefined,
+      userVote
+    };
+  }
+
+  async presentForUser(thread: { _id: any; poll?: IThread['poll'] }, userId?: string): Promise<PollView | undefined> {
+    if (!thread.poll?.question) return undefined;
+    const userVote = userId ? await this.getBallot(thread._id.toString(), userId) : null;
+    return this.present(thread.poll, userVote);
+  }
+
+  // Record or replace a user's ballot and adjust the option counters.
+  // Returns false when the ballot is identical to the one already cast.
+  async castBallot(threadId: string, userId: string, options: number[]): Promise<boolean> {
+    const selected = [...new Set(options)].sort((a, b) => a - b);
+
+    // The swap is atomic, so each request sees exactly the ballot it replaced and the
+    // counter changes below add up however many requests race
+    const previous = await this.swapBallot(threadId, userId, selected);
+
+    const before = previous?.options || [];
+    const removed = before.filter((index) => !selected.includes(index));
+    const added = selected.filter((index) => !before.includes(index));
+    if (previous && removed.length === 0 && added.length === 0) return false;
+
+    const inc: Record<string, number> = {};
+    for (const index of removed) inc[`poll.options.${index}.votes`] = -1;
+    for (const index of added) inc[`poll.options.${index}.votes`] = 1;
+    if (!previous) inc['poll.totalVotes'] = 1;
+
+    await Thread.updateOne({ _id: threadId }, { $inc: inc });
+    return true;
+  }
+
+  private async swapBallot(threadId: string, userId: string, selected: number[]) {
+    const swap = () => PollBallot.findOneAndUpdate(
+      { thread: threadId, user: userId },
+      { $set: { options: selected } },
+      { upsert: true, new: false }
+    ).lean();
+
+    try {
+      return await swap();
+    } catch (error: any) {
+      // Two first votes raced and the other insert won; replace that ballot instead
+      if (error?.code !== 11000) throw error;
+      return swap();
+    }
+  }
+}
+
+export const pollService = new PollService();
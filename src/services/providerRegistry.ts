@@ -0,0 +1,175 @@
+import { logger } from '../utils/logger';
+import { sportsmonksService } from './sportsmonksService';
+import { cricketApiService } from './cricketApiService';
+import { footballApiService } from './footballApiService';
+import { databaseSportsProvider } from './databaseSportsProvider';
+import { Sport, SportsDataProvider, ProviderResult } from './sportsDataProvider';
+
+interface ProviderStats {
+  healthy: boolean | null; // null until the first health check
+  lastHealthCheck?: Date;
+  outcomes: boolean[]; // Most recent call results, newest last
+  quotaExhaustedUntil?: number;
+  lastError?: string;
+  lastLatencyMs?: number;
+}
+
+// Number of recent calls used to compute the error rate
+const OUTCOME_WINDOW = 20;
+
+// How long to skip a provider after it reports an exhausted quota or a plan restriction
+const RATE_LIMIT_COOLDOWN_MS = 15 * 60 * 1000;
+const FORBIDDEN_COOLDOWN_MS = 60 * 60 * 1000;
+
+const SPORTS: Sport[] = ['cricket', 'football'];
+
+class ProviderRegistry {
+  private stats = new Map<string, ProviderStats>();
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  // Providers are listed in preference order; the fallback is always tried last
+  constructor(private providers: SportsDataProvider[], private fallback: SportsDataProvider) {}
+
+  private getStats(provider: SportsDataProvider, sport: Sport): ProviderStats {
+    const key = `${provider.providerName}:${sport}`;
+    let stats = this.stats.get(key);
+    if (!stats) {
+      stats = { healthy: null, outcomes: [] };
+      this.stats.set(key, stats);
+    }
+    return stats;
+  }
+
+  private errorRate(stats: ProviderStats): number {
+    if (stats.outcomes.length === 0) return 0;
+    return stats.outcomes.filter((ok) => !ok).length / stats.outcomes.length;
+  }
+
+  private score(stats: ProviderStats): number {
+    return (stats.healthy === false ? -50 : 0) - this.errorRate(stats) * 100;
+  }
+
+  // Providers able to serve the sport right now, best first
+  rank(sport: Sport): SportsDataProvider[] {
+    const now = Date.now();
+
+    const candidates = this.providers
+      .map((provider, priority) => ({ provider, priority, stats: this.getStats(provider, sport) }))
+      .filter(({ provider, stats }) =>
+        provider.supportsSport(sport) && !(stats.quotaExhaustedUntil && stats.quotaExhaustedUntil > now)
+      )
+      .sort((a, b) => this.score(b.stats) - this.score(a.stats) || a.priority - b.priority)
+      .map(({ provider }) => provider);
+
+    return [...candidates, this.fallback];
+  }
+
+  private recordOutcome(stats: ProviderStats, ok: boolean, latencyMs: number): void {
+    stats.outcomes.push(ok);
+    if (stats.outcomes.length > OUTCOME_WINDOW) stats.outcomes.shift();
+    stats.lastLatencyMs = latencyMs;
+  }
+
+  private recordFailure(provider: SportsDataProvider, stats: ProviderStats, error: any, latencyMs: number): void {
+    this.recordOutcome(stats, false, latencyMs);
+    stats.lastError = error?.message || String(error);
+
+    const status = error?.response?.status;
+    if (status === 429) {
+      const retryAfter = Number(error.response.headers?.['retry-after']);
+      stats.quotaExhaustedUntil = Date.now() + (retryAfter > 0 ? retryAfter * 1000 : RATE_LIMIT_COOLDOWN_MS);
+      logger.warn(`${provider.providerName} quota exhausted, skipping it until ${new Date(stats.quotaExhaustedUntil).toISOString()}`);
+    } else if (status === 403) {
+      // Usually the subscription plan does not include this sport
+      stats.quotaExhaustedUntil = Date.now() + FORBIDDEN_COOLDOWN_MS;
+      logger.warn(`${provider.providerName} returned 403, skipping it for an hour`);
+    }
+  }
+
+  // Run an operation against the best provider, failing over down the ranking.
+  // `accept` lets callers move on from a provider that answered but had nothing useful
+  // (e.g. an unknown match ID) without counting it as an error.
+  async execute<T>(
+    sport: Sport,
+    operation: (provider: SportsDataProvider) => Promise<T>,
+    options: { includeFallback?: boolean; accept?: (data: T) => boolean } = {}
+  ): Promise<ProviderResult<T>> {
+    const includeFallback = options.includeFallback !== false;
+    const providers = this.rank(sport).filter((p) => includeFallback || p !== this.fallback);
+    let lastError: any = null;
+    let lastResult: ProviderResult<T> | null = null;
+
+    for (const provider of providers) {
+      const stats = this.getStats(provider, sport);
+      const startedAt = Date.now();
+      try {
+        const data = await operation(provider);
+        this.recordOutcome(stats, true, Date.now() - startedAt);
+        lastResult = { data, source: provider.providerName };
+        if (!options.accept || options.accept(data)) return lastResult;
+      } catch (error: any) {
+        this.recordFailure(provider, stats, error, Date.now() - startedAt);
+        lastError = error;
+        logger.warn(`Provider ${provider.providerName} failed for ${sport}, trying next:`, error?.message);
+      }
+    }
+
+    if (lastResult) return lastResult;
+    throw lastError || new Error(`No sports data provider available for ${sport}`);
+  }
+
+  async runHealthChecks(): Promise<void> {
+    for (const provider of [...this.providers, this.fallback]) {
+      for (const sport of SPORTS) {
+        if (!provider.supportsSport(sport)) continue;
+        const stats = this.getStats(provider, sport);
+        try {
+          stats.healthy = await provider.healthCheck(sport);
+        } catch {
+          stats.healthy = false;
+        }
+        stats.lastHealthCheck = new Date();
+      }
+    }
+  }
+
+  startHealthChecks(intervalMs = Number(process.env.PROVIDER_HEALTH_INTERVAL_MS) || 5 * 60 * 1000): void {
+    if (this.healthTimer) return;
+    this.runHealthChecks().catch((error) => logger.error('Provider health check failed:', error));
+    this.healthTimer = setInterval(() => {
+      this.runHealthChecks().catch((error) => logger.error('Provider health check failed:', error));
+    }, intervalMs);
+    this.healthTimer.unref();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  getStatus() {
+    return SPORTS.map((sport) => ({
+      sport,
+      ranking: this.rank(sport).map((provider) => {
+        const stats = this.getStats(provider, sport);
+        return {
+          provider: provider.providerName,
+          healthy: stats.healthy,
+          lastHealthCheck: stats.lastHealthCheck,
+          errorRate: Number(this.errorRate(stats).toFixed(2)),
+          recentCalls: stats.outcomes.length,
+          quotaExhaustedUntil: stats.quotaExhaustedUntil ? new Date(stats.quotaExhaustedUntil) : undefined,
+          lastError: stats.lastError,
+          lastLatencyMs: stats.lastLatencyMs,
+        };
+      }),
+    }));
+  }
+}
+
+export const providerRegistry = new ProviderRegistry(
+  [sportsmonksService, cricketApiService, footballApiService],
+  databaseSportsProvider
+);
@@ -0,0 +1,293 @@
+import mongoose from 'mongoose';
+import { Sanction, ISanction, SanctionType } from '../models/Sanction';
+import { ModerationAction } from '../models/ModerationAction';
+import { ModerationItem } from '../models/ModerationItem';
+import { User } from '../models/User';
+import { permissionService, WILDCARD_PERMISSION } from './permissionService';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+// Active sanctions are checked on every authenticated request, so keep them briefly in Redis
+const SANCTIONS_CACHE_TTL = 60;
+
+export interface IssueSanctionInput {
+  type: SanctionType;
+  reason: string;
+  durationMinutes?: number; // Omitted = permanent (suspensions always need one)
+  category?: string;
+  cooldownSeconds?: number;
+}
+
+export type SanctionResult =
+  | { ok: true; sanction: any }
+  | { ok: false; error: 'not_found' | 'forbidden' | 'invalid' | 'not_active' | 'appeal_exists' | 'no_appeal' };
+
+export interface SanctionModerator {
+  _id: any;
+  role?: string;
+}
+
+export type PostingCheck =
+  | { allowed: true; shadowHidden: boolean }
+  | { allowed: false; message: string; retryAfter?: number; expiresAt?: Date | null };
+
+class SanctionService {
+  private cacheKey(userId: string): string {
+    return `sanctions:${userId}`;
+  }
+
+  private activeFilter(userId: string) {
+    const now = new Date();
+    return {
+      user: new mongoose.Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+      startsAt: { $lte: now },
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    };
+  }
+
+  private async clearCache(userId: string): Promise<void> {
+    await redisClient.del(this.cacheKey(userId));
+  }
+
+  private async log(moderatorId: string, action: 'sanction' | 'lift_sanction' | 'review_appeal', sanction: any, reason?: string): Promise<void> {
+    await ModerationAction.create({
+      moderator: moderatorId,
+      action,
+      targetType: 'user',
+      targetId: sanction.user,
+      sanction: sanction._id,
+      reason,
+    });
+  }
+
+  // Active sanctions for a user; the cache never outlives the nearest expiry
+  async getActive(userId: string): Promise<ISanction[]> {
+    const cachedData = await redisClient.get(this.cacheKey(userId));
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    const sanctions = await Sanction.find(this.activeFilter(userId)).sort({ createdAt: -1 }).lean();
+
+    const nextExpiry = sanctions
+      .filter((s) => s.expiresAt)
+      .reduce((min, s) => Math.min(min, new Date(s.expiresAt as Date).getTime()), Infinity);
+    const ttl = Math.max(1, Math.min(SANCTIONS_CACHE_TTL, Math.ceil((nextExpiry - Date.now()) / 1000)));
+
+    try {
+      await redisClient.set(this.cacheKey(userId), JSON.stringify(sanctions), ttl);
+    } catch (error) {
+      logger.warn(`Could not cache sanctions for ${userId}:`, error);
+    }
+    return sanctions as any;
+  }
+
+  // A ban or suspension that should keep the user out entirely
+  async getAccessBlock(userId: string): Promise<ISanction | null> {
+    const sanctions = await this.getActive(userId);
+    return sanctions.find((s) => s.type === 'ban') || sanctions.find((s) => s.type === 'suspension') || null;
+  }
+
+  async isShadowBanned(userId: string): Promise<boolean> {
+    const sanctions = await this.getActive(userId);
+    return sanctions.some((s) => s.type === 'shadow_ban');
+  }
+
+  // Listing filter hiding held posts, and shadow-banned posts from everyone except their author
+  async visibilityClause(viewerId?: string): Promise<any> {
+    if (viewerId && await this.isShadowBanned(viewerId)) {
+      return {
+        heldForReview: { $ne: true },
+        $or: [{ shadowHidden: { $ne: true } }, { author: new mongoose.Types.ObjectId(viewerId) }]
+      };
+    }
+    return { shadowHidden: { $ne: true }, heldForReview: { $ne: true } };
+  }
+
+  // Mutes and cooldowns gate new threads and comments; a shadow-ban lets the post through hidden
+  async checkPosting(userId: string, category?: string): Promise<PostingCheck> {
+    const sanctions = await this.getActive(userId);
+
+    const mute = sanctions.find((s) => s.type === 'mute' && (!s.category || s.category === category));
+    if (mute) {
+      return {
+        allowed: false,
+        message: mute.category ? `You are muted in ${mute.category}` : 'You are muted',
+        expiresAt: mute.expiresAt,
+      };
+    }
+
+    const cooldown = sanctions
+      .filter((s) => s.type === 'cooldown' && s.cooldownSeconds)
+      .reduce((max, s) => Math.max(max, s.cooldownSeconds as number), 0);
+    if (cooldown) {
+      const key = `post_cooldown:${userId}`;
+      const until = Number(await redisClient.get(key));
+      if (until > Date.now()) {
+        return {
+          allowed: false,
+          message: 'You are posting too quickly, please wait before posting again',
+          retryAfter: Math.ceil((until - Date.now()) / 1000),
+        };
+      }
+      await redisClient.set(key, Date.now() + cooldown * 1000, cooldown);
+    }
+
+    return { allowed: true, shadowHidden: sanctions.some((s) => s.type === 'shadow_ban') };
+  }
+
+  // Staff (any role with permissions) need users.sanction_staff, and permanent bans need users.ban.
+  // Lifting a sanction takes the same authority as issuing it
+  private async mayHandle(moderator: SanctionModerator, targetPermissions: string[], type: SanctionType): Promise<boolean> {
+    if (targetPermissions.length > 0 && !(await permissionService.hasPermission(moderator.role, 'users.sanction_staff'))) return false;
+    if (type === 'ban' && !(await permissionService.hasPermission(moderator.role, 'users.ban'))) return false;
+    return true;
+  }
+
+  // Whether the moderator may lift or review this sanction; never their own
+  private async mayLift(sanction: ISanction, moderator: SanctionModerator): Promise<boolean> {
+    if (sanction.user.toString() === moderator._id.toString()) return false;
+    const target = await User.findById(sanction.user).select('role').lean();
+    return this.mayHandle(moderator, await permissionService.permissionsFor(target?.role), sanction.type);
+  }
+
+  async issue(userId: string, moderator: SanctionModerator, input: IssueSanctionInput): Promise<SanctionResult> {
+    const target = await User.findById(userId).select('role').lean();
+    if (!target) return { ok: false, error: 'not_found' };
+
+    // Full-access roles cannot be sanctioned at all
+    const targetPermissions = await permissionService.permissionsFor(target.role);
+    if (targetPermissions.includes(WILDCARD_PERMISSION) || !(await this.mayHandle(moderator, targetPermissions, input.type))) {
+      return { ok: false, error: 'forbidden' };
+    }
+    if (input.type === 'suspension' && !input.durationMinutes) return { ok: false, error: 'invalid' };
+    if (input.type === 'cooldown' && !input.cooldownSeconds) return { ok: false, error: 'invalid' };
+
+    const now = new Date();
+    const sanction = await Sanction.create({
+      user: userId,
+      type: input.type,
+      reason: input.reason,
+      issuedBy: moderator._id,
+      startsAt: now,
+      expiresAt: input.type !== 'ban' && input.durationMinutes
+        ? new Date(now.getTime() + input.durationMinutes * 60 * 1000)
+        : null,
+      category: input.type === 'mute' ? input.category : undefined,
+      cooldownSeconds: input.type === 'cooldown' ? input.cooldownSeconds : undefined,
+    });
+
+    await this.clearCache(userId);
+    await this.log(moderator._id.toString(), 'sanction', sanction, input.reason);
+
+    return { ok: true, sanction };
+  }
+
+  async revoke(sanctionId: string, moderator: SanctionModerator, reason?: string): Promise<SanctionResult> {
+    const existing = await Sanction.findById(sanctionId);
+    if (!existing) return { ok: false, error: 'not_found' };
+    if (!(await this.mayLift(existing, moderator))) return { ok: false, error: 'forbidden' };
+
+    const moderatorId = moderator._id.toString();
+    const sanction = await Sanction.findOneAndUpdate(
+      { _id: sanctionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedBy: moderatorId, revokeReason: reason } },
+      { new: true }
+    );
+    if (!sanction) return { ok: false, error: 'not_active' };
+
+    await this.clearCache(sanction.user.toString());
+    await this.log(moderatorId, 'lift_sanction', sanction, reason);
+
+    return { ok: true, sanction };
+  }
+
+  // One appeal per sanction, only while it is still in force
+  async submitAppeal(sanctionId: string, userId: string, note: string): Promise<SanctionResult> {
+    // Shadow-bans are never disclosed, so they cannot be appealed either
+    const sanction = await Sanction.findOne({ _id: sanctionId, user: userId, type: { $ne: 'shadow_ban' } });
+    if (!sanction) return { ok: false, error: 'not_found' };
+
+    const active = await Sanction.exists({ _id: sanctionId, ...this.activeFilter(userId) });
+    if (!active) return { ok: false, error: 'not_active' };
+    if (sanction.appeal?.status) return { ok: false, error: 'appeal_exists' };
+
+    sanction.appeal = { note, submittedAt: new Date(), status: 'pending' };
+    await sanction.save();
+
+    return { ok: true, sanction };
+  }
+
+  // Accepting an appeal lifts the sanction
+  async reviewAppeal(sanctionId: string, moderator: SanctionModerator, accept: boolean, response?: string): Promise<SanctionResult> {
+    const existing = await Sanction.findById(sanctionId);
+    if (!existing) return { ok: false, error: 'not_found' };
+    if (!(await this.mayLift(existing, moderator))) return { ok: false, error: 'forbidden' };
+
+    const moderatorId = moderator._id.toString();
+    const sanction = await Sanction.findOneAndUpdate(
+      { _id: sanctionId, 'appeal.status': 'pending' },
+      {
+        $set: {
+          'appeal.status': accept ? 'accepted' : 'rejected',
+          'appeal.reviewedBy': moderatorId,
+          'appeal.reviewedAt': new Date(),
+          'appeal.response': response,
+        },
+      },
+      { new: true }
+    );
+    if (!sanction) return { ok: false, error: 'no_appeal' };
+
+    await this.log(moderatorId, 'review_appeal', sanction, `${accept ? 'Accepted' : 'Rejected'}${response ? `: ${response}` : ''}`);
+
+    if (accept && !sanction.revokedAt) {
+      return this.revoke(sanctionId, moderator, 'Appeal accepted');
+    }
+    return { ok: true, sanction };
+  }
+
+  async listForUser(userId: string) {
+    return Sanction.find({ user: userId })
+      .populate('issuedBy', 'name avatar')
+      .populate('revokedBy', 'name avatar')
+      .populate('appeal.reviewedBy', 'name avatar')
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  async listPendingAppeals() {
+    return Sanction.find({ 'appeal.status': 'pending' })
+      .populate('user', 'name email avatar')
+      .populate('issuedBy', 'name avatar')
+      .sort({ 'appeal.submittedAt': 1 })
+      .lean();
+  }
+
+  // Sanctions, moderator actions on the account and moderation outcomes on the user's posts
+  async getHistory(userId: string) {
+    const [sanctions, actions, moderatedItems] = await Promise.all([
+      this.listForUser(userId),
+      ModerationAction.find({ targetType: 'user', targetId: userId })
+        .populate('moderator', 'name avatar')
+        .sort({ _id: -1 })
+        .limit(100)
+        .lean(),
+      ModerationItem.find({ author: userId, status: { $ne: 'pending' } })
+        .populate('resolvedBy', 'name avatar')
+        .sort({ resolvedAt: -1 })
+        .limit(50)
+        .lean(),
+    ]);
+
+    const now = Date.now();
+    const active = sanctions.filter((s: any) =>
+      !s.revokedAt && new Date(s.startsAt).getTime() <= now && (!s.expiresAt || new Date(s.expiresAt).getTime() > now)
+    );
+
+    return { sanctions, active, actions, moderatedItems };
+  }
+}
+
+export const sanctionService = new SanctionService();
@@ -0,0 +1,235 @@
+import { CricketMatch, IBattingEntry, IBowlingEntry, IInningsScorecard } from '../models/CricketMatch';
+import { IBallEvent } from '../models/BallEvent';
+import { ballEventService } from './ballEventService';
+import { redisClient } from '../utils/redis';
+
+// Wicket kinds credited to the bowler
+const BOWLER_WICKETS = ['bowled', 'caught', 'lbw', 'stumped', 'hit-wicket'];
+
+const SCORECARD_CACHE_TTL = 30;
+
+const formatOvers = (legalBalls: number): string => {
+  const overs = Math.floor(legalBalls / 6);
+  const balls = legalBalls % 6;
+  return balls ? `${overs}.${balls}` : `${overs}`;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const describeDismissal = (event: IBallEvent): string => {
+  const bowler = event.bowler.name;
+  const fielder = event.wicket?.fielder?.name;
+
+  switch (event.wicket?.kind) {
+    case 'bowled':
+      return `b ${bowler}`;
+    case 'caught':
+      return !fielder || fielder === bowler ? `c & b ${bowler}` : `c ${fielder} b ${bowler}`;
+    case 'lbw':
+      return `lbw b ${bowler}`;
+    case 'stumped':
+      return `st ${fielder || '?'} b ${bowler}`;
+    case 'run-out':
+      return fielder ? `run out (${fielder})` : 'run out';
+    case 'hit-wicket':
+      return `hit wicket b ${bowler}`;
+    case 'retired':
+      return 'retired';
+    default:
+      return 'out';
+  }
+};
+
+// Players listed for the batting side who never reached the crease
+const didNotBat = (match: any, team: string, batting: IBattingEntry[]): string[] => {
+  if (!match?.players?.length) return [];
+
+  const side = [match.teams?.home, match.teams?.away].find((t: any) => t && (t.name === team || t.id === team));
+  if (!side) return [];
+
+  const batted = new Set(batting.map((b) => b.id));
+  return match.players
+    .filter((p: any) => (p.team === side.id || p.team === side.name) && !batted.has(p.id))
+    .map((p: any) => p.name);
+};
+
+const buildInningsScorecard = (number: number, events: IBallEvent[], match: any): IInningsScorecard => {
+  const batting = new Map<string, IBattingEntry>();
+  const bowling = new Map<string, IBowlingEntry & { legalBalls: number }>();
+  const overConceded = new Map<string, { bowlerId: string; runs: number; legalBalls: number }>();
+  const extras = { byes: 0, legByes: 0, wides: 0, noBalls: 0, penalties: 0, total: 0 };
+  let runs = 0;
+  let wickets = 0;
+  let legalBalls = 0;
+
+  const batter = (player?: { id: string; name: string }) => {
+    if (!player) return undefined;
+    let entry = batting.get(player.id);
+    if (!entry) {
+      entry = { id: player.id, name: player.name, runs: 0, balls: 0, fours: 0, sixes: 0, strikeRate: 0, notOut: true };
+      batting.set(player.id, entry);
+    } else if (entry.name === 'Unknown' && player.name !== 'Unknown') {
+      entry.name = player.name;
+    }
+    return entry;
+  };
+
+  for (const event of events) {
+    const striker = batter(event.batter)!;
+    batter(event.nonStriker);
+
+    striker.runs += event.runs.batter;
+    if (event.extras?.type !== 'wide') striker.balls += 1;
+    if (event.isBoundary && event.runs.batter === 4) striker.fours += 1;
+    if (event.isBoundary && event.runs.batter === 6) striker.sixes += 1;
+
+    let bowler = bowling.get(event.bowler.id);
+    if (!bowler) {
+      bowler = { id: event.bowler.id, name: event.bowler.name, overs: '0', maidens: 0, runs: 0, wickets: 0, economy: 0, wides: 0, noBalls: 0, legalBalls: 0 };
+      bowling.set(event.bowler.id, bowler);
+    }
+
+    // Byes, leg byes and penalties are not charged to the bowler
+    const extraType = event.extras?.type;
+    const extraRuns = event.extras?.runs || 0;
+    const conceded = extraType === 'bye' || extraType === 'legbye' || extraType === 'penalty'
+      ? event.runs.total - extraRuns
+      : event.runs.total;
+
+    bowler.runs += conceded;
+    // Bowling figures count wide deliveries; the runs they cost are already in bowler.runs
+    if (extraType === 'wide') bowler.wides += 1;
+    if (extraType === 'noball') bowler.noBalls += 1;
+
+    if (extraType === 'bye') extras.byes += extraRuns;
+    if (extraType === 'legbye') extras.legByes += extraRuns;
+    if (extraType === 'wide') extras.wides += extraRuns;
+    if (extraType === 'noball') extras.noBalls += extraRuns;
+    if (extraType === 'penalty') extras.penalties += extraRuns;
+    extras.total += event.runs.extras;
+
+    const overKey = `${event.bowler.id}:${event.over}`;
+    const over = overConceded.get(overKey) || { bowlerId: event.bowler.id, runs: 0, legalBalls: 0 };
+    over.runs += conceded;
+
+    if (event.isLegal) {
+      legalBalls += 1;
+      bowler.legalBalls += 1;
+      over.legalBalls += 1;
+    }
+    overConceded.set(overKey, over);
+
+    runs += event.runs.total;
+
+    if (event.wicket) {
+      const out = batter(event.wicket.playerOut)!;
+      // A retired batter (retired hurt) is not out and does not count as a wicket
+      out.notOut = event.wicket.kind === 'retired';
+      out.dismissal = describeDismissal(event);
+
+      if (event.wicket.kind !== 'retired') wickets += 1;
+      if (BOWLER_WICKETS.includes(event.wicket.kind)) bowler.wickets += 1;
+    }
+  }
+
+  for (const over of overConceded.values()) {
+    if (over.legalBalls >= 6 && over.runs === 0) {
+      bowling.get(over.bowlerId)!.maidens += 1;
+    }
+  }
+
+  const battingCard = [...batting.values()].map((entry) => ({
+    ...entry,
+    strikeRate: entry.balls ? round((entry.runs / entry.balls) * 100) : 0,
+  }));
+
+  const team = events[0]?.battingTeam || `Innings ${number}`;
+
+  return {
+    number,
+    team,
+    batting: battingCard,
+    bowling: [...bowling.values()].map(({ legalBalls: balls, ...entry }) => ({
+      ...entry,
+      overs: formatOvers(balls),
+      economy: balls ? round(entry.runs / (balls / 6)) : 0,
+    })),
+    extras,
+    total: { runs, wickets, overs: formatOvers(legalBalls) },
+    didNotBat: didNotBat(match, team, battingCard),
+  };
+};
+
+class ScorecardService {
+  build(events: IBallEvent[], match?: any): IInningsScorecard[] {
+    const byInnings = new Map<number, IBallEvent[]>();
+    for (const event of events) {
+      if (!byInnings.has(event.innings)) byInnings.set(event.innings, []);
+      byInnings.get(event.innings)!.push(event);
+    }
+
+    return [...byInnings.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([number, inningsEvents]) => buildInningsScorecard(number, inningsEvents, match));
+  }
+
+  // Recompute the scorecard from stored ball events and save it (with innings totals) on the match.
+  // Only the ingestion job calls this; reads go through getScorecard() and never write the match.
+  async refresh(matchId: string): Promise<IInningsScorecard[] | null> {
+    const computed = await this.compute(matchId);
+    if (!computed) return null;
+    const { scorecard, match } = computed;
+
+    if (match) {
+      const innings = scorecard.map((card) => {
+        const [overs, balls = '0'] = card.total.overs.split('.');
+        const legalBalls = Number(overs) * 6 + Number(balls);
+        return {
+          number: card.number,
+          team: card.team,
+          runs: card.total.runs,
+          wickets: card.total.wickets,
+          overs: Number(overs),
+          balls: Number(balls),
+          runRate: legalBalls ? round(card.total.runs / (legalBalls / 6)) : 0,
+        };
+      });
+
+      await CricketMatch.updateOne({ matchId }, { $set: { scorecard, innings } });
+    }
+
+    await redisClient.del(`cricket_scorecard:${matchId}`);
+    return scorecard;
+  }
+
+  async getScorecard(matchId: string): Promise<IInningsScorecard[] | null> {
+    const cacheKey = `cricket_scorecard:${matchId}`;
+    const cachedData = await redisClient.get(cacheKey);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    // Built from ball events without saving; the cache absorbs repeated reads
+    let scorecard = (await this.compute(matchId))?.scorecard || null;
+    if (!scorecard) {
+      // No ball events (e.g. older matches): serve whatever was stored on the match
+      const match = await CricketMatch.findOne({ matchId }).select('scorecard').lean();
+      scorecard = match?.scorecard?.length ? match.scorecard : null;
+    }
+
+    if (scorecard) {
+      await redisClient.set(cacheKey, JSON.stringify(scorecard), SCORECARD_CACHE_TTL);
+    }
+    return scorecard;
+  }
+
+  private async compute(matchId: string): Promise<{ scorecard: IInningsScorecard[]; match: any } | null> {
+    const events = await ballEventService.getBalls(matchId);
+    if (events.length === 0) return null;
+
+    const match = await CricketMatch.findOne({ matchId }).lean();
+    return { scorecard: this.build(events, match), match };
+  }
+}
+
+export const scorecardService = new ScorecardService();
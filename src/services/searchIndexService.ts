@@ -0,0 +1,330 @@
+import { Model } from 'mongoose';
+import { Content, CONTENT_SEARCH_SOURCE } from '../models/Content';
+import { CricketMatch, CRICKET_MATCH_SEARCH_SOURCE } from '../models/CricketMatch';
+import { CricketTeam, CRICKET_TEAM_SEARCH_SOURCE } from '../models/CricketTeam';
+import { FootballMatch, FOOTBALL_MATCH_SEARCH_SOURCE } from '../models/FootballMatch';
+import { NewsArticle, NEWS_SEARCH_SOURCE } from '../models/NewsArticle';
+import { Thread, THREAD_SEARCH_SOURCE } from '../models/Thread';
+import {
+  esClient,
+  INDEX_DEFINITIONS,
+  isElasticsearchAvailable,
+  SEARCH_INDEX_NAMES,
+  SearchIndexName,
+  versionedIndexName
+} from '../utils/elasticsearch';
+import { SearchSource, syncSearchDocument } from '../utils/searchIndexing';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+const LOCK_TTL_SECONDS = 60 * 60;
+const PROGRESS_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_BATCH_SIZE = 500;
+
+// Indices backed by a collection, kept current by write hooks and replayed after a reindex
+type CollectionSource = { model: Model<any>; source: SearchSource };
+
+// Indices derived from other data; they are only refreshed by reindexing
+type DerivedSource = {
+  count: () => Promise<number>;
+  documents: (batchSize: number) => AsyncIterable<{ id: string; doc: Record<string, any> }>;
+};
+
+// Players are collected from match line-ups, with career totals across every indexed match
+const PLAYER_PIPELINE = [
+  { $unwind: '$players' },
+  {
+    $group: {
+      _id: '$players.id',
+      name: { $last: '$players.name' },
+      team: { $last: '$players.team' },
+      role: { $last: '$players.role' },
+      matchCount: { $sum: 1 },
+      totalRuns: { $sum: '$players.runs' },
+      totalWickets: { $sum: '$players.wickets' }
+    }
+  }
+];
+
+const players: DerivedSource = {
+  count: async () => (await CricketMatch.aggregate([...PLAYER_PIPELINE, { $count: 'total' }]))[0]?.total || 0,
+  async *documents(batchSize) {
+    for await (const player of CricketMatch.aggregate(PLAYER_PIPELINE).cursor({ batchSize })) {
+      const names = String(player.name).split(/\s+/);
+      yield {
+        id: String(player._id),
+        doc: {
+          id: String(player._id),
+          name: player.name,
+          team: player.team,
+          role: player.role,
+          matchCount: player.matchCount,
+          totalRuns: player.totalRuns,
+          totalWickets: player.totalWickets,
+          // "Kohli" should find "Virat Kohli" as well
+          suggest: { input: [player.name, ...names.slice(1)], weight: Math.min(10 + player.matchCount, 40) }
+        }
+      };
+    }
+  }
+};
+
+const SOURCES: Record<SearchIndexName, CollectionSource | DerivedSource> = {
+  content: { model: Content, source: CONTENT_SEARCH_SOURCE },
+  cricket_matches: { model: CricketMatch, source: CRICKET_MATCH_SEARCH_SOURCE },
+  cricket_teams: { model: CricketTeam, source: CRICKET_TEAM_SEARCH_SOURCE },
+  football_matches: { model: FootballMatch, source: FOOTBALL_MATCH_SEARCH_SOURCE },
+  news_articles: { model: NewsArticle, source: NEWS_SEARCH_SOURCE },
+  players,
+  threads: { model: Thread, source: THREAD_SEARCH_SOURCE },
+};
+
+const countSource = (source: CollectionSource | DerivedSource) =>
+  'model' in source ? source.model.countDocuments(source.source.filter) : source.count();
+
+async function* collectionDocuments({ model, source }: CollectionSource, batchSize: number) {
+  let query = model.find(source.filter);
+  if (source.populate) query = query.populate(source.populate.path, source.populate.select);
+  for await (const doc of query.cursor({ batchSize })) {
+    yield { id: doc._id.toString(), doc: doc.toSearchDocument() };
+  }
+}
+
+export interface ReindexProgress {
+  index: SearchIndexName;
+  target: string; // Versioned index being built
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  indexed: number;
+  failed: number;
+  caughtUp: number; // Documents re-synced after the alias switch because they changed mid-copy
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+export interface ReindexOptions {
+  batchSize?: number;
+  keepOld?: boolean; // Keep the previous versioned index instead of deleting it
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+export type ReindexResult =
+  | { ok: true; progress: ReindexProgress }
+  | { ok: false; error: 'unavailable' | 'in_progress' };
+
+export interface ConsistencyReport {
+  index: SearchIndexName;
+  mongo: number;
+  elasticsearch: number | null; // null when the index is missing or ES is down
+  difference: number | null;
+  inSync: boolean;
+}
+
+const lockKey = (name: SearchIndexName) => `lock:reindex:${name}`;
+const progressKey = (name: SearchIndexName) => `reindex_progress:${name}`;
+
+class SearchIndexService {
+  isSearchIndex(name: string): name is SearchIndexName {
+    return (SEARCH_INDEX_NAMES as string[]).includes(name);
+  }
+
+  // Rebuild an index from Mongo and wait for it to finish
+  async reindex(name: SearchIndexName, options: ReindexOptions = {}): Promise<ReindexResult> {
+    const lockToken = await this.begin(name);
+    if (typeof lockToken !== 'string') return lockToken;
+    return { ok: true, progress: await this.run(name, lockToken, options) };
+  }
+
+  // Same as reindex() but returns once the rebuild has started; poll getStatus() for progress
+  async startReindex(name: SearchIndexName, options: ReindexOptions = {}): Promise<ReindexResult> {
+    const lockToken = await this.begin(name);
+    if (typeof lockToken !== 'string') return lockToken;
+
+    const progress = this.initialProgress(name);
+    await this.saveProgress(progress);
+    this.run(name, lockToken, options, progress).catch((error) => {
+      logger.error(`Reindex of ${name} failed:`, error);
+    });
+    return { ok: true, progress };
+  }
+
+  // Which versioned indices each alias points at, with the last reindex run
+  async getStatus() {
+    return Promise.all(SEARCH_INDEX_NAMES.map(async (name) => {
+      let indices: string[] = [];
+      if (isElasticsearchAvailable()) {
+        try {
+          indices = (await esClient.indices.existsAlias({ name }))
+            ? Object.keys(await esClient.indices.getAlias({ name }))
+            : (await esClient.indices.exists({ index: name })) ? [name] : [];
+        } catch (error) {
+          logger.warn(`Could not read alias ${name}:`, error);
+        }
+      }
+
+      return {
+        index: name,
+        indices,
+        reindexing: await redisClient.exists(lockKey(name)),
+        lastRun: (await redisClient.get(progressKey(name))) as ReindexProgress | null,
+      };
+    }));
+  }
+
+  // Compare the number of searchable documents in Mongo with what each index holds
+  async checkConsistency(names: SearchIndexName[] = SEARCH_INDEX_NAMES): Promise<ConsistencyReport[]> {
+    return Promise.all(names.map(async (name) => {
+      const mongo = await countSource(SOURCES[name]);
+
+      let elasticsearch: number | null = null;
+      if (isElasticsearchAvailable()) {
+        try {
+          elasticsearch = (await esClient.count({ index: name })).count;
+        } catch (error) {
+          logger.warn(`Could not count documents in ${name}:`, error);
+        }
+      }
+
+      return {
+        index: name,
+        mongo,
+        elasticsearch,
+        difference: elasticsearch === null ? null : elasticsearch - mongo,
+        inSync: elasticsearch === mongo,
+      };
+    }));
+  }
+
+  private async begin(name: SearchIndexName): Promise<string | Extract<ReindexResult, { ok: false }>> {
+    if (!isElasticsearchAvailable()) return { ok: false, error: 'unavailable' };
+    const lockToken = await redisClient.acquireLock(lockKey(name), LOCK_TTL_SECONDS);
+    return lockToken || { ok: false, error: 'in_progress' };
+  }
+
+  private initialProgress(name: SearchIndexName): ReindexProgress {
+    return { index: name, target: versionedIndexName(name), status: 'running', total: 0, indexed: 0, failed: 0, caughtUp: 0, startedAt: new Date() };
+  }
+
+  // Build a new versioned index, switch the alias over in one step, then drop the old index
+  private async run(
+    name: SearchIndexName,
+    lockToken: string,
+    options: ReindexOptions,
+    progress: ReindexProgress = this.initialProgress(name)
+  ): Promise<ReindexProgress> {
+    const source = SOURCES[name];
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const report = async () => {
+      await this.saveProgress(progress);
+      await redisClient.expire(lockKey(name), LOCK_TTL_SECONDS);
+      options.onProgress?.(progress);
+    };
+
+    try {
+      const definition: any = INDEX_DEFINITIONS[name];
+      await esClient.indices.create({
+        index: progress.target,
+        body: {
+          ...definition,
+          // No refreshes while bulk loading; restored before the index goes live
+          settings: { ...definition.settings, refresh_interval: '-1' }
+        }
+      });
+
+      progress.total = await countSource(source);
+      await report();
+
+      let batch: Array<{ id: string; doc: Record<string, any> }> = [];
+      const flush = async () => {
+        if (batch.length === 0) return;
+        const response = await esClient.bulk({
+          body: batch.flatMap(({ id, doc }) => [{ index: { _index: progress.target, _id: id } }, doc])
+        });
+        const failed = response.errors ? response.items.filter((item: any) => item.index?.error).length : 0;
+        progress.failed += failed;
+        progress.indexed += batch.length - failed;
+        batch = [];
+        await report();
+      };
+
+      const documents = 'model' in source ? collectionDocuments(source, batchSize) : source.documents(batchSize);
+      for await (const entry of documents) {
+        batch.push(entry);
+        if (batch.length >= batchSize) await flush();
+      }
+      await flush();
+
+      await esClient.indices.putSettings({ index: progress.target, body: { index: { refresh_interval: '1s' } } });
+      await esClient.indices.refresh({ index: progress.target });
+
+      const previous = await this.switchAlias(name, progress.target);
+
+      // Writes made while copying went to the old index; replay them against the new one.
+      // Hard deletes in that window are not replayed and show up in the consistency check.
+      if ('model' in source) {
+        const changed = await source.model.find({ updatedAt: { $gte: progress.startedAt } }).distinct('_id');
+        for (const id of changed) {
+          await syncSearchDocument(source.model, source.source, id);
+          progress.caughtUp += 1;
+        }
+      }
+
+      if (!options.keepOld) {
+        for (const index of previous) {
+          await esClient.indices.delete({ index });
+        }
+      }
+
+      progress.status = 'completed';
+      logger.info(`Reindexed ${name} into ${progress.target}: ${progress.indexed} indexed, ${progress.failed} failed`);
+    } catch (error) {
+      // The alias still points at the old index; only the half-built one is removed
+      progress.status = 'failed';
+      progress.error = (error as Error).message;
+      await esClient.indices.delete({ index: progress.target, ignore: [404] }).catch(() => undefined);
+      logger.error(`Reindex of ${name} failed:`, error);
+    } finally {
+      progress.finishedAt = new Date();
+      await this.saveProgress(progress);
+      options.onProgress?.(progress);
+      await redisClient.releaseLock(lockKey(name), lockToken);
+    }
+
+    return progress;
+  }
+
+  // Atomically point the alias at the new index; returns the indices it pointed at before
+  private async switchAlias(name: SearchIndexName, target: string): Promise<string[]> {
+    if (await esClient.indices.existsAlias({ name })) {
+      const previous = Object.keys(await esClient.indices.getAlias({ name }));
+      await esClient.indices.updateAliases({
+        body: {
+          actions: [
+            ...previous.map((index) => ({ remove: { index, alias: name } })),
+            { add: { index: target, alias: name } }
+          ]
+        }
+      });
+      return previous;
+    }
+
+    // An index created before aliases were used holds the name itself and is replaced in the same request
+    const legacy = await esClient.indices.exists({ index: name });
+    await esClient.indices.updateAliases({
+      body: {
+        actions: [
+          ...(legacy ? [{ remove_index: { index: name } }] : []),
+          { add: { index: target, alias: name } }
+        ]
+      }
+    });
+    return [];
+  }
+
+  private async saveProgress(progress: ReindexProgress): Promise<void> {
+    await redisClient.set(progressKey(progress.index), progress, PROGRESS_TTL_SECONDS);
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
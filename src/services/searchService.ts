@@ -0,0 +1,243 @@
+import { Content } from '../models/Content';
+import { CricketMatch } from '../models/CricketMatch';
+import { CricketTeam } from '../models/CricketTeam';
+import { FootballMatch } from '../models/FootballMatch';
+import { NewsArticle } from '../models/NewsArticle';
+import { Thread, THREAD_SEARCH_SOURCE } from '../models/Thread';
+import { esClient, isElasticsearchAvailable, NEWS_INDEX } from '../utils/elasticsearch';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+export const SEARCH_GROUPS = ['news', 'threads', 'content', 'teams', 'players', 'matches'] as const;
+export type SearchGroup = typeof SEARCH_GROUPS[number];
+
+// Matches have no completion field; they are found through their teams instead
+export const SUGGEST_GROUPS: SearchGroup[] = ['news', 'threads', 'content', 'teams', 'players'];
+
+const SUGGEST_CACHE_TTL_SECONDS = 60;
+
+// Index (alias) and weighted fields searched for each result group
+const GROUP_QUERIES: Record<SearchGroup, { index: string; fields: string[] }> = {
+  news: { index: NEWS_INDEX, fields: ['title^3', 'summary^2', 'tags.text^2', 'body'] },
+  threads: { index: 'threads', fields: ['title^2', 'content', 'tags'] },
+  content: { index: 'content', fields: ['title^2', 'content', 'tags'] },
+  teams: { index: 'cricket_teams', fields: ['name^3', 'shortName^3', 'board', 'summary', 'keyPlayers'] },
+  players: { index: 'players', fields: ['name^2', 'name.folded^2', 'team'] },
+  matches: { index: 'cricket_matches,football_matches', fields: ['series', 'league', 'teams.home.name', 'teams.away.name', 'venue.name'] },
+};
+
+// Fields returned with each suggestion, enough to render and link it
+const SUGGEST_SOURCE_FIELDS = ['id', 'title', 'slug', 'name', 'shortName', 'flag', 'team', 'role', 'category'];
+
+// Suggestions come back with the versioned index name, e.g. news_articles_1712345678901
+const groupForIndex = (index: string): SearchGroup | undefined => {
+  const alias = index.replace(/_\d+$/, '');
+  return SUGGEST_GROUPS.find((group) => GROUP_QUERIES[group].index === alias);
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface SearchGroupResult {
+  total: number;
+  items: any[];
+}
+
+export interface GlobalSearchResult {
+  groups: Partial<Record<SearchGroup, SearchGroupResult>>;
+  took?: number;
+  degraded: boolean; // True when Elasticsearch was unavailable and Mongo answered instead
+}
+
+export interface Suggestion {
+  type: SearchGroup;
+  id: string;
+  text: string;
+  score: number;
+  [field: string]: any;
+}
+
+class SearchService {
+  // Top hits for every requested group in one round trip
+  async search(q: string, { types = [...SEARCH_GROUPS], limit = 5 }: { types?: SearchGroup[]; limit?: number } = {}): Promise<GlobalSearchResult> {
+    if (isElasticsearchAvailable()) {
+      try {
+        return await this.searchElasticsearch(q, types, limit);
+      } catch (error) {
+        logger.warn('Global search fallback to Mongo', error);
+      }
+    }
+    return { groups: await this.searchMongo(q, types, limit), degraded: true };
+  }
+
+  // Typeahead completions across the requested groups, highest weight first
+  async suggest(prefix: string, { types = SUGGEST_GROUPS, size = 8 }: { types?: SearchGroup[]; size?: number } = {}): Promise<{ suggestions: Suggestion[]; degraded: boolean }> {
+    const groups = types.filter((type) => SUGGEST_GROUPS.includes(type));
+    if (groups.length === 0) return { suggestions: [], degraded: false };
+
+    const cacheKey = `search_suggest:${groups.join(',')}:${size}:${prefix.toLowerCase()}`;
+    const cached = await redisClient.get(cacheKey);
+    if (cached) return cached;
+
+    if (isElasticsearchAvailable()) {
+      try {
+        const result = { suggestions: await this.suggestElasticsearch(prefix, groups, size), degraded: false };
+        await redisClient.set(cacheKey, result, SUGGEST_CACHE_TTL_SECONDS);
+        return result;
+      } catch (error) {
+        logger.warn('Search suggestions fallback to Mongo', error);
+      }
+    }
+    return { suggestions: await this.suggestMongo(prefix, groups, size), degraded: true };
+  }
+
+  private async searchElasticsearch(q: string, types: SearchGroup[], limit: number): Promise<GlobalSearchResult> {
+    const response = await esClient.msearch({
+      body: types.flatMap((type) => [
+        { index: GROUP_QUERIES[type].index },
+        {
+          query: {
+            multi_match: { query: q, fields: GROUP_QUERIES[type].fields, type: 'best_fields', fuzziness: 'AUTO', lenient: true }
+          },
+          _source: { excludes: ['suggest', 'body', 'content'] },
+          highlight: {
+            pre_tags: ['<mark>'],
+            post_tags: ['</mark>'],
+            fields: { '*': { number_of_fragments: 1, fragment_size: 120 } }
+          },
+          size: limit
+        }
+      ])
+    });
+
+    const groups: GlobalSearchResult['groups'] = {};
+    types.forEach((type, i) => {
+      const result = response.responses[i];
+      if (result.error) {
+        // One missing or broken index should not hide the other groups
+        logger.warn(`Global search of ${type} failed:`, result.error);
+        groups[type] = { total: 0, items: [] };
+        return;
+      }
+      groups[type] = {
+        total: result.hits.total.value,
+        items: result.hits.hits.map((hit: any) => ({
+          id: hit._id,
+          ...hit._source,
+          ...(type === 'matches' ? { sport: hit._index.startsWith('cricket') ? 'cricket' : 'football' } : {}),
+          score: hit._score,
+          highlight: hit.highlight || {}
+        }))
+      };
+    });
+
+    return { groups, took: response.took, degraded: false };
+  }
+
+  private async searchMongo(q: string, types: SearchGroup[], limit: number): Promise<GlobalSearchResult['groups']> {
+    const pattern = new RegExp(escapeRegex(q), 'i');
+    const page = async (find: Promise<any[]>, count: Promise<number>) => {
+      const [items, total] = await Promise.all([find, count]);
+      return { total, items };
+    };
+
+    const queries: Record<SearchGroup, () => Promise<SearchGroupResult>> = {
+      news: () => {
+        const filter = { $text: { $search: q }, state: 'published', isDeleted: false };
+        return page(
+          NewsArticle.find(filter, { score: { $meta: 'textScore' }, body: 0 }).sort({ score: { $meta: 'textScore' } }).limit(limit).lean(),
+          NewsArticle.countDocuments(filter)
+        );
+      },
+      threads: () => {
+        const filter = { ...THREAD_SEARCH_SOURCE.filter, title: pattern };
+        return page(
+          Thread.find(filter).select('title category tags flair author score commentCount createdAt').populate('author', 'name').sort({ score: -1 }).limit(limit).lean(),
+          Thread.countDocuments(filter)
+        );
+      },
+      content: () => {
+        const filter = { $text: { $search: q }, status: 'approved' };
+        return page(
+          Content.find(filter, { score: { $meta: 'textScore' }, content: 0 }).sort({ score: { $meta: 'textScore' } }).limit(limit).lean(),
+          Content.countDocuments(filter)
+        );
+      },
+      teams: () => {
+        const filter = { $or: [{ name: pattern }, { shortName: pattern }] };
+        return page(
+          CricketTeam.find(filter).select('slug name shortName flag board ranking').limit(limit).lean(),
+          CricketTeam.countDocuments(filter)
+        );
+      },
+      players: async () => {
+        const [result] = await CricketMatch.aggregate([
+          { $unwind: '$players' },
+          { $match: { 'players.name': pattern } },
+          { $group: { _id: '$players.id', name: { $last: '$players.name' }, team: { $last: '$players.team' }, role: { $last: '$players.role' }, matchCount: { $sum: 1 } } },
+          { $facet: { items: [{ $sort: { matchCount: -1 } }, { $limit: limit }], total: [{ $count: 'total' }] } }
+        ]);
+        return { total: result.total[0]?.total || 0, items: result.items.map(({ _id, ...player }: any) => ({ id: _id, ...player })) };
+      },
+      matches: async () => {
+        const teams = [{ 'teams.home.name': pattern }, { 'teams.away.name': pattern }];
+        const cricketFilter = { $or: [{ series: pattern }, ...teams] };
+        const footballFilter = { $or: [{ league: pattern }, ...teams] };
+        const fields = 'matchId series league teams venue status format startTime';
+        const [cricket, football] = await Promise.all([
+          page(CricketMatch.find(cricketFilter).select(fields).sort({ startTime: -1 }).limit(limit).lean(), CricketMatch.countDocuments(cricketFilter)),
+          page(FootballMatch.find(footballFilter).select(fields).sort({ startTime: -1 }).limit(limit).lean(), FootballMatch.countDocuments(footballFilter))
+        ]);
+        const items = [
+          ...cricket.items.map((match) => ({ ...match, sport: 'cricket' })),
+          ...football.items.map((match) => ({ ...match, sport: 'football' }))
+        ].sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+        return { total: cricket.total + football.total, items: items.slice(0, limit) };
+      },
+    };
+
+    const results = await Promise.all(types.map((type) => queries[type]()));
+    return Object.fromEntries(types.map((type, i) => [type, results[i]]));
+  }
+
+  private async suggestElasticsearch(prefix: string, groups: SearchGroup[], size: number): Promise<Suggestion[]> {
+    const response = await esClient.search({
+      index: groups.map((group) => GROUP_QUERIES[group].index).join(','),
+      body: {
+        _source: SUGGEST_SOURCE_FIELDS,
+        suggest: {
+          typeahead: {
+            prefix,
+            completion: { field: 'suggest', size, skip_duplicates: true, fuzzy: { fuzziness: prefix.length > 3 ? 1 : 0 } }
+          }
+        }
+      }
+    });
+
+    return response.suggest.typeahead[0].options
+      .map((option: any) => ({ type: groupForIndex(option._index), id: option._id, text: option.text, score: option._score, ...option._source }))
+      .filter((suggestion: Suggestion) => suggestion.type);
+  }
+
+  // Prefix matches on titles and names, without weighting or fuzziness
+  private async suggestMongo(prefix: string, groups: SearchGroup[], size: number): Promise<Suggestion[]> {
+    const pattern = new RegExp(`^${escapeRegex(prefix)}`, 'i');
+    const suggestions: Suggestion[] = [];
+
+    if (groups.includes('teams')) {
+      const teams = await CricketTeam.find({ $or: [{ name: pattern }, { shortName: pattern }] }).select('slug name shortName flag').limit(size).lean();
+      suggestions.push(...teams.map((team) => ({ type: 'teams' as const, id: team._id.toString(), text: team.name, score: 0, slug: team.slug, name: team.name, shortName: team.shortName, flag: team.flag })));
+    }
+    if (groups.includes('news')) {
+      const articles = await NewsArticle.find({ title: pattern, state: 'published', isDeleted: false }).select('title slug category').sort({ publishedAt: -1 }).limit(size).lean();
+      suggestions.push(...articles.map((article) => ({ type: 'news' as const, id: article._id.toString(), text: article.title, score: 0, title: article.title, slug: article.slug, category: article.category })));
+    }
+    if (groups.includes('threads')) {
+      const threads = await Thread.find({ ...THREAD_SEARCH_SOURCE.filter, title: pattern }).select('title category').sort({ score: -1 }).limit(size).lean();
+      suggestions.push(...threads.map((thread) => ({ type: 'threads' as const, id: thread._id.toString(), text: thread.title, score: 0, title: thread.title, category: thread.category })));
+    }
+
+    return suggestions.slice(0, size);
+  }
+}
+
+export const searchService = new SearchService();
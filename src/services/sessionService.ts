@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Session, SessionRevokeReason } from '../models/Session';
+import { User } from '../models/User';
+import { permissionService } from './permissionService';
+import { generateToken, generateRefreshToken, verifyRefreshToken } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+// A refresh token rotated out this recently is a concurrent refresh (two tabs), not a replay
+const REUSE_GRACE_SECONDS = Number(process.env.REFRESH_REUSE_GRACE_SECONDS) || 30;
+
+// Revoked session ids are remembered for as long as an access token issued for them can live, plus a margin
+// for clock skew; the lifetime is read from a freshly signed token so it follows JWT_EXPIRES_IN
+const REVOKED_MARKER_MARGIN_SECONDS = 5 * 60;
+
+const revokedMarkerTtl = (): number => {
+  const decoded = jwt.decode(generateToken('lifetime')) as { iat?: number; exp?: number } | null;
+  const lifetime = decoded?.exp && decoded.iat ? decoded.exp - decoded.iat : 24 * 60 * 60;
+  return lifetime + REVOKED_MARKER_MARGIN_SECONDS;
+};
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type RotateResult =
+  | ({ ok: true; userId: string } & SessionTokens)
+  | { ok: false; error: 'invalid' | 'revoked' | 'reused' | 'two_factor_required' };
+
+// "Firefox on macOS"-style label; good enough to recognise a device in a list
+const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    /okhttp|Dart|CFNetwork/i.test(userAgent) ? 'App' : 'Browser';
+
+  const os =
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iOS/.test(userAgent) ? 'iOS' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+const newTokenId = () => crypto.randomBytes(16).toString('hex');
+
+const expiryOf = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return new Date((decoded?.exp ?? Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60) * 1000);
+};
+
+class SessionService {
+  private revokedKey(sessionId: string): string {
+    return `session_revoked:${sessionId}`;
+  }
+
+  private async markRevoked(sessionIds: string[]): Promise<void> {
+    const ttl = revokedMarkerTtl();
+    for (const sessionId of sessionIds) {
+      try {
+        await redisClient.set(this.revokedKey(sessionId), 1, ttl);
+      } catch (error) {
+        logger.warn(`Could not mark session ${sessionId} as revoked:`, error);
+      }
+    }
+  }
+
+  // Checked on every authenticated request so revoked sessions lose their access tokens too.
+  // While Redis is down the session document answers instead, so an outage never revives a revoked session
+  async isRevoked(sessionId: string): Promise<boolean> {
+    if (redisClient.isReady()) return redisClient.exists(this.revokedKey(sessionId));
+    return !!(await Session.exists({ _id: sessionId, revokedAt: { $exists: true } }));
+  }
+
+  // Start a session at login and issue its first token pair
+  async create(userId: string, client: ClientInfo): Promise<SessionTokens> {
+    const session = new Session({
+      user: userId,
+      tokenId: newTokenId(),
+      userAgent: client.userAgent?.slice(0, 500),
+      device: describeDevice(client.userAgent),
+      ip: client.ip,
+      lastSeenAt: new Date(),
+    });
+
+    const sessionId = session._id.toString();
+    const refreshToken = generateRefreshToken(userId, sessionId, session.tokenId);
+    session.expiresAt = expiryOf(refreshToken);
+    await session.save();
+
+    return { token: generateToken(userId, sessionId), refreshToken, sessionId };
+  }
+
+  // Exchange a refresh token for a new pair; the old refresh token stops working.
+  // Presenting a rotated-out token again means it leaked, so the whole session is revoked
+  async rotate(refreshToken: string, client: ClientInfo): Promise<RotateResult> {
+    let decoded: any;
+    try {
+      decoded = verifyRefreshToken(refreshToken);
+    } catch {
+      return { ok: false, error: 'invalid' };
+    }
+    // Tokens issued before sessions existed carry no session id and are no longer accepted
+    if (!decoded?.sid || !decoded?.jti) return { ok: false, error: 'invalid' };
+
+    // Sessions from before the role required 2FA end here, so the user has to enroll on their next login
+    const user = await User.findById(decoded.userId).select('role twoFactor.enabled').lean();
+    if (user && !user.twoFactor?.enabled && (await permissionService.requiresTwoFactor(user.role))) {
+      await this.revoke(decoded.sid, decoded.userId, 'two_factor_required');
+      return { ok: false, error: 'two_factor_required' };
+    }
+
+    const tokenId = newTokenId();
+    const nextRefreshToken = generateRefreshToken(decoded.userId, decoded.sid, tokenId);
+    const now = new Date();
+
+    const session = await Session.findOneAndUpdate(
+      { _id: decoded.sid, user: decoded.userId, tokenId: decoded.jti, revokedAt: { $exists: false } },
+      {
+        $set: {
+          tokenId,
+          previousTokenId: decoded.jti,
+          rotatedAt: now,
+          lastSeenAt: now,
+          expiresAt: expiryOf(nextRefreshToken),
+          ...(client.ip ? { ip: client.ip } : {}),
+          ...(client.userAgent ? { userAgent: client.userAgent.slice(0, 500), device: describeDevice(client.userAgent) } : {}),
+        },
+      },
+      { new: true }
+    );
+
+    if (!session) return this.explainRotateFailure(decoded);
+
+    return {
+      ok: true,
+      userId: decoded.userId,
+      sessionId: decoded.sid,
+      token: generateToken(decoded.userId, decoded.sid),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  private async explainRotateFailure(decoded: any): Promise<RotateResult> {
+    const session = await Session.findOne({ _id: decoded.sid, user: decoded.userId });
+    if (!session) return { ok: false, error: 'invalid' };
+    if (session.revokedAt) return { ok: false, error: 'revoked' };
+
+    const withinGrace = session.previousTokenId === decoded.jti && session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < REUSE_GRACE_SECONDS * 1000;
+    if (withinGrace) return { ok: false, error: 'invalid' };
+
+    logger.warn(`Refresh token reuse detected for session ${session._id} of user ${decoded.userId}; revoking session`);
+    await this.revoke(session._id.toString(), decoded.userId, 'reuse_detected');
+    return { ok: false, error: 'reused' };
+  }
+
+  async list(userId: string) {
+    return Session.find({ user: userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+      .select('device userAgent ip lastSeenAt createdAt expiresAt')
+      .sort({ lastSeenAt: -1 })
+      .lean();
+  }
+
+  // Revoke one of the user's sessions; false when it does not exist or is already revoked
+  async revoke(sessionId: string, userId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const session = await Session.findOneAndUpdate(
+      { _id: sessionId, user: userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokeReason: reason } }
+    );
+    if (!session) return false;
+
+    await this.markRevoked([sessionId]);
+    return true;
+  }
+
+  // Sign out everywhere, optionally keeping the session making the request
+  async revokeAll(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+    const filter: any = { user: userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+    const sessions = await Session.find(filter).select('_id').lean();
+    if (sessions.length === 0) return 0;
+
+    const ids = sessions.map((s) => s._id);
+    await Session.updateMany({ _id: { $in: ids } }, { $set: { revokedAt: new Date(), revokeReason: reason } });
+    await this.markRevoked(ids.map((id) => id.toString()));
+    return ids.length;
+  }
+
+  // Owner and session of a signed refresh token, for logout
+  sessionIdOf(refreshToken: string): { userId: string; sessionId: string } | null {
+    try {
+      const decoded = verifyRefreshToken(refreshToken);
+      return decoded?.sid ? { userId: decoded.userId, sessionId: decoded.sid } : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const sessionService = new SessionService();
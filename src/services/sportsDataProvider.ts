@@ -0,0 +1,81 @@
+export type Sport = 'cricket' | 'football';
+
+export type NormalizedMatchStatus = 'live' | 'upcoming' | 'completed' | 'cancelled' | 'postponed';
+
+export interface NormalizedTeam {
+  id: string;
+  name: string;
+  shortName: string;
+  flag?: string;
+  logo?: string;
+}
+
+export interface NormalizedScore {
+  runs: number; // Goals for football
+  wickets: number;
+  overs: number;
+  balls: number;
+}
+
+// Single match shape served to clients regardless of which provider produced it
+export interface NormalizedMatch {
+  _id: string;
+  matchId: string;
+  sport: Sport;
+  name: string;
+  teams: {
+    home: NormalizedTeam;
+    away: NormalizedTeam;
+  };
+  venue: {
+    name: string;
+    city: string;
+    country: string;
+  };
+  status: NormalizedMatchStatus;
+  format?: string;
+  league?: string;
+  leagueId?: string;
+  series?: string;
+  season?: string;
+  startTime: Date;
+  currentScore?: {
+    home: NormalizedScore;
+    away: NormalizedScore;
+  };
+  score?: {
+    home: number;
+    away: number;
+  };
+  matchStarted: boolean;
+  matchEnded: boolean;
+  detailUrl: string;
+}
+
+export interface FetchOptions {
+  skipCache?: boolean;
+}
+
+// Implemented by every upstream sports data source (and the local database as last resort)
+export interface SportsDataProvider {
+  readonly providerName: string;
+  supportsSport(sport: Sport): boolean;
+  fetchLive(sport: Sport, options?: FetchOptions): Promise<NormalizedMatch[]>;
+  fetchUpcoming(sport: Sport): Promise<NormalizedMatch[]>;
+  fetchCompleted(sport: Sport): Promise<NormalizedMatch[]>;
+  fetchMatch(matchId: string, sport: Sport): Promise<NormalizedMatch | null>;
+  healthCheck(sport?: Sport): Promise<boolean>;
+}
+
+export interface ProviderResult<T> {
+  data: T;
+  source: string;
+}
+
+// Replaces an upstream error with a readable message but keeps its HTTP response,
+// so the provider registry still sees 429/403 and applies its cooldowns
+export const providerError = (message: string, error: any): Error =>
+  Object.assign(new Error(message), { response: error?.response, cause: error });
+
+// Unknown match IDs come back as 404; that is an answer, not a provider failure
+export const isNotFoundError = (error: any): boolean => error?.response?.status === 404;
@@ -1,15 +1,16 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { redisClient } from '../utils/redis';
+import { transformSportsMonksMatchToFrontend } from '../utils/sportsmonksTransformers';
+import { Sport, SportsDataProvider, NormalizedMatch, FetchOptions, isNotFoundError } from './sportsDataProvider';
 
 interface SportsMonksConfig {
   apiToken: string;
   timeout: number;
 }
 
-type Sport = 'cricket' | 'football';
-
-class SportsMonksService {
+class SportsMonksService implements SportsDataProvider {
+  readonly providerName = 'sportsmonks';
   private config: SportsMonksConfig;
   private clients: Map<Sport, any>;
 
@@ -93,10 +94,11 @@ class SportsMonksService {
   }
 
   // Get live matches for a specific sport
-  async getLiveMatches(sport: Sport = 'cricket'): Promise<any[]> {
+  // Pass skipCache to always hit the API (the cache is still refreshed)
+  async getLiveMatches(sport: Sport = 'cricket', options: { skipCache?: boolean } = {}): Promise<any[]> {
     try {
       const cacheKey = `sportsmonks:live_matches:${sport}`;
-      const cachedData = await redisClient.get(cacheKey);
+      const cachedData = options.skipCache ? null : await redisClient.get(cacheKey);
 
       if (cachedData) {
         logger.info(`Returning cached live ${sport} matches`);
@@ -372,6 +374,45 @@ class SportsMonksService {
     }
   }
 
+  // SportsDataProvider implementation (normalized matches)
+  supportsSport(_sport: Sport): boolean {
+    return !!this.config.apiToken;
+  }
+
+  async fetchLive(sport: Sport, options: FetchOptions = {}): Promise<NormalizedMatch[]> {
+    const matches = await this.getLiveMatches(sport, options);
+    return matches
+      .map((match: any) => transformSportsMonksMatchToFrontend(match, sport))
+      .filter((match: NormalizedMatch) => match.status === 'live');
+  }
+
+  async fetchUpcoming(sport: Sport): Promise<NormalizedMatch[]> {
+    const matches = await this.getUpcomingMatches(sport);
+    const now = new Date();
+    return matches
+      .map((match: any) => transformSportsMonksMatchToFrontend(match, sport))
+      .filter((match: NormalizedMatch) =>
+        match.status === 'upcoming' || (!match.matchStarted && !match.matchEnded && new Date(match.startTime) > now)
+      );
+  }
+
+  async fetchCompleted(sport: Sport): Promise<NormalizedMatch[]> {
+    const matches = await this.getCompletedMatches(sport);
+    return matches
+      .map((match: any) => transformSportsMonksMatchToFrontend(match, sport))
+      .filter((match: NormalizedMatch) => match.status === 'completed' || match.matchEnded);
+  }
+
+  async fetchMatch(matchId: string, sport: Sport): Promise<NormalizedMatch | null> {
+    try {
+      const match = await this.getMatchDetails(matchId, sport);
+      return match ? transformSportsMonksMatchToFrontend(match, sport) : null;
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
   // Health check for a specific sport
   async healthCheck(sport: Sport = 'cricket'): Promise<boolean> {
     try {
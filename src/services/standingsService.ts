@@ -0,0 +1,279 @@
+import { FootballMatch } from '../models/FootballMatch';
+import { footballApiService } from './footballApiService';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+interface SplitRecord {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+}
+
+export interface StandingRow extends SplitRecord {
+  position: number;
+  team: {
+    id: string;
+    name: string;
+    shortName: string;
+    logo?: string;
+  };
+  goalDifference: number;
+  form: string[]; // Last five results, most recent first ("W", "D", "L")
+  home: SplitRecord | null; // Null when the provider's totals replaced ours and it gave no home/away split
+  away: SplitRecord | null;
+  reconciled?: boolean; // Totals taken from the provider because it has played more games than we stored
+}
+
+export interface StandingsTable {
+  league: string;
+  leagueId?: string;
+  season: string;
+  table: StandingRow[];
+  reconciliation?: {
+    provider: string;
+    matchedTeams: number;
+    discrepancies: Array<{ team: string; field: string; ours: number; provider: number }>;
+  };
+  updatedAt: Date;
+}
+
+const STANDINGS_CACHE_TTL = 3600;
+const FORM_LENGTH = 5;
+
+const emptySplit = (): SplitRecord => ({ played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0 });
+
+const applyResult = (record: SplitRecord, scored: number, conceded: number): 'W' | 'D' | 'L' => {
+  record.played += 1;
+  record.goalsFor += scored;
+  record.goalsAgainst += conceded;
+
+  if (scored > conceded) {
+    record.won += 1;
+    record.points += 3;
+    return 'W';
+  }
+  if (scored === conceded) {
+    record.drawn += 1;
+    record.points += 1;
+    return 'D';
+  }
+  record.lost += 1;
+  return 'L';
+};
+
+const compareRows = (a: StandingRow, b: StandingRow): number =>
+  b.points - a.points ||
+  b.goalDifference - a.goalDifference ||
+  b.goalsFor - a.goalsFor ||
+  a.team.name.localeCompare(b.team.name);
+
+// Build the table from finished matches sorted oldest first; form is kept most recent first
+const computeTable = (matches: any[]): StandingRow[] => {
+  const rows = new Map<string, StandingRow>();
+
+  const row = (team: any): StandingRow => {
+    const key = team.id || team.name;
+    let entry = rows.get(key);
+    if (!entry) {
+      entry = {
+        position: 0,
+        team: { id: team.id, name: team.name, shortName: team.shortName, logo: team.logo || undefined },
+        ...emptySplit(),
+        goalDifference: 0,
+        form: [],
+        home: emptySplit(),
+        away: emptySplit(),
+      };
+      rows.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const match of matches) {
+    const home = row(match.teams.home);
+    const away = row(match.teams.away);
+    const homeGoals = match.score?.home || 0;
+    const awayGoals = match.score?.away || 0;
+
+    home.form.unshift(applyResult(home, homeGoals, awayGoals));
+    applyResult(home.home!, homeGoals, awayGoals);
+    away.form.unshift(applyResult(away, awayGoals, homeGoals));
+    applyResult(away.away!, awayGoals, homeGoals);
+  }
+
+  return [...rows.values()].map((entry) => ({
+    ...entry,
+    goalDifference: entry.goalsFor - entry.goalsAgainst,
+    form: entry.form.slice(0, FORM_LENGTH),
+  }));
+};
+
+// One football-data.org table row as a record
+const toSplit = (row: any): SplitRecord => ({
+  played: row.playedGames,
+  won: row.won,
+  drawn: row.draw,
+  lost: row.lost,
+  goalsFor: row.goalsFor,
+  goalsAgainst: row.goalsAgainst,
+  points: row.points,
+});
+
+const normalizeName = (name: string = ''): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+class StandingsService {
+  private cacheKey(league: string, season: string): string {
+    return `football_standings:${normalizeName(league)}:${season}`;
+  }
+
+  // Accepts a league name (as listed by /leagues) or a provider competition ID
+  private async resolveLeague(ref: string): Promise<{ league: string; leagueId?: string } | null> {
+    const escaped = ref.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = await FootballMatch.findOne({
+      $or: [{ leagueId: ref }, { league: new RegExp(`^${escaped}$`, 'i') }]
+    })
+      .sort({ startTime: -1 })
+      .select('league leagueId')
+      .lean();
+
+    return match ? { league: match.league, leagueId: match.leagueId } : null;
+  }
+
+  private async latestSeason(league: string): Promise<string | null> {
+    const match = await FootballMatch.findOne({ league, status: 'finished' })
+      .sort({ startTime: -1 })
+      .select('season')
+      .lean();
+    return match?.season || null;
+  }
+
+  // Compare with the provider table; the provider wins for teams it has seen more games for
+  private async reconcile(table: StandingRow[], competitionId: string): Promise<StandingsTable['reconciliation'] | undefined> {
+    if (!process.env.FOOTBALL_API_KEY) return undefined;
+
+    let standings: any[];
+    try {
+      standings = await footballApiService.getStandings(competitionId);
+    } catch (error: any) {
+      logger.warn(`Could not reconcile standings for competition ${competitionId}:`, error.message);
+      return undefined;
+    }
+
+    const total = standings.find((s: any) => s.type === 'TOTAL') || standings[0];
+    if (!total?.table?.length) return undefined;
+    const providerSplit = (type: 'HOME' | 'AWAY', team: any): SplitRecord | null => {
+      const rows = standings.find((s: any) => s.type === type)?.table || [];
+      const row = rows.find((r: any) => (team.id !== undefined && r.team?.id === team.id) || normalizeName(r.team?.name) === normalizeName(team.name));
+      return row ? toSplit(row) : null;
+    };
+
+    const findRow = (team: any) => table.find((row) =>
+      row.team.id === team?.id?.toString() || normalizeName(row.team.name) === normalizeName(team?.name)
+    );
+
+    // A table sharing no teams with ours belongs to a different competition
+    if (table.length > 0 && !total.table.some((providerRow: any) => findRow(providerRow.team))) {
+      logger.warn(`Provider standings for competition ${competitionId} do not match stored results, skipping reconciliation`);
+      return undefined;
+    }
+
+    const discrepancies: Array<{ team: string; field: string; ours: number; provider: number }> = [];
+    let matchedTeams = 0;
+
+    for (const providerRow of total.table) {
+      const team = providerRow.team || {};
+      let ours = findRow(team);
+
+      if (!ours) {
+        // Team with no stored results yet
+        ours = {
+          position: 0,
+          team: { id: team.id?.toString() || team.name, name: team.name, shortName: team.tla || team.shortName || team.name, logo: team.crest },
+          ...emptySplit(),
+          goalDifference: 0,
+          form: [],
+          home: emptySplit(),
+          away: emptySplit(),
+        };
+        table.push(ours);
+      } else {
+        matchedTeams += 1;
+      }
+
+      const providerTotals = toSplit(providerRow);
+
+      for (const [field, value] of Object.entries(providerTotals)) {
+        if (typeof value === 'number' && (ours as any)[field] !== value) {
+          discrepancies.push({ team: ours.team.name, field, ours: (ours as any)[field], provider: value });
+        }
+      }
+
+      if (providerTotals.played > ours.played) {
+        // The splits must add up to the new totals, so they come from the provider too (or are dropped)
+        Object.assign(ours, providerTotals, {
+          goalDifference: providerTotals.goalsFor - providerTotals.goalsAgainst,
+          home: providerSplit('HOME', team),
+          away: providerSplit('AWAY', team),
+          reconciled: true,
+        });
+        if (ours.form.length === 0 && providerRow.form) {
+          ours.form = providerRow.form.split(',').slice(0, FORM_LENGTH);
+        }
+      }
+    }
+
+    return { provider: 'football-data', matchedTeams, discrepancies };
+  }
+
+  // Compute the table and store it in the cache
+  async recalculate(league: string, season: string, leagueId?: string): Promise<StandingsTable> {
+    const matches = await FootballMatch.find({ league, season, status: 'finished' })
+      .sort({ startTime: 1 })
+      .select('teams score startTime')
+      .lean();
+
+    const table = computeTable(matches);
+    const reconciliation = leagueId ? await this.reconcile(table, leagueId) : undefined;
+
+    table.sort(compareRows).forEach((row, index) => {
+      row.position = index + 1;
+    });
+
+    const standings: StandingsTable = { league, leagueId, season, table, reconciliation, updatedAt: new Date() };
+    await redisClient.set(this.cacheKey(league, season), JSON.stringify(standings), STANDINGS_CACHE_TTL);
+
+    return standings;
+  }
+
+  async getStandings(ref: string, season?: string): Promise<StandingsTable | null> {
+    const resolved = await this.resolveLeague(ref);
+    if (!resolved) return null;
+
+    const targetSeason = season || await this.latestSeason(resolved.league);
+    if (!targetSeason) return null;
+
+    const cachedData = await redisClient.get(this.cacheKey(resolved.league, targetSeason));
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    return this.recalculate(resolved.league, targetSeason, resolved.leagueId);
+  }
+
+  // Called when a match finishes so the next read reflects the result
+  async handleMatchFinished(match: { league?: string; leagueId?: string; season?: string }): Promise<void> {
+    if (!match.league || !match.season) return;
+
+    try {
+      await this.recalculate(match.league, match.season, match.leagueId);
+    } catch (error) {
+      logger.error(`Failed to recalculate standings for ${match.league} ${match.season}:`, error);
+    }
+  }
+}
+
+export const standingsService = new StandingsService();
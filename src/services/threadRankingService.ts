@@ -0,0 +1,212 @@
+import cron from 'node-cron';
+import { Thread, IThread } from '../models/Thread';
+import { Vote } from '../models/Vote';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+const LOCK_KEY = 'lock:thread_ranking';
+const LOCK_TTL_SECONDS = 4 * 60;
+const KEY_PREFIX = 'thread_rank:';
+
+// Rankings expire if the job stops, and listings fall back to sorting in Mongo
+const RANKING_TTL_SECONDS = 60 * 60;
+
+// Threads kept per ranking; listings end after this many
+const RANKING_SIZE = Number(process.env.THREAD_RANKING_SIZE) || 1000;
+
+// Threads quiet for longer than this no longer compete for hot, rising or controversial
+const CANDIDATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const CANDIDATE_LIMIT = 20000;
+
+// Rising looks at votes cast in the last few hours on threads up to two days old
+const RISING_WINDOW_MS = 3 * 60 * 60 * 1000;
+const RISING_MAX_AGE_MS = 48 * 60 * 60 * 1000;
+
+// Every 45000 seconds (12.5 hours) of age is worth a tenfold difference in votes
+const HOT_EPOCH_SECONDS = 1577836800; // 2020-01-01
+const HOT_DECAY_SECONDS = 45000;
+
+// Pinned threads sort above everything else in every ranking
+const PINNED_BOOST = 1e12;
+
+const CATEGORIES: IThread['category'][] = ['cricket', 'football', 'general', 'news', 'discussion'];
+
+export const TOP_WINDOWS = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  all: 0,
+};
+
+export type TopWindow = keyof typeof TOP_WINDOWS;
+export type ThreadRanking = 'hot' | 'rising' | 'controversial' | `top:${TopWindow}`;
+
+// Only threads every viewer can see are ranked
+const PUBLIC_FILTER = { isDeleted: false, shadowHidden: { $ne: true }, heldForReview: { $ne: true } };
+
+type Candidate = Pick<IThread, 'category' | 'upvotes' | 'downvotes' | 'createdAt' | 'isPinned'> & { _id: any };
+
+const rankingKey = (ranking: ThreadRanking, category?: string) => `${KEY_PREFIX}${ranking}:${category || 'all'}`;
+
+// Logarithmic in net votes and linear in age, so new threads overtake old ones without decaying scores
+export const hotScore = (upvotes: number, downvotes: number, createdAt: Date): number => {
+  const net = upvotes - downvotes;
+  const order = Math.log10(Math.max(Math.abs(net), 1));
+  const seconds = new Date(createdAt).getTime() / 1000 - HOT_EPOCH_SECONDS;
+  return Math.sign(net) * order + seconds / HOT_DECAY_SECONDS;
+};
+
+// Many votes split close to evenly; a thread nobody voted against is not controversial
+export const controversialScore = (upvotes: number, downvotes: number): number => {
+  if (upvotes <= 0 || downvotes <= 0) return 0;
+  const balance = upvotes > downvotes ? downvotes / upvotes : upvotes / downvotes;
+  return Math.pow(upvotes + downvotes, balance);
+};
+
+// Net votes per hour over the recent window, damped for older threads
+export const risingScore = (recentNet: number, createdAt: Date, now = Date.now()): number => {
+  const ageHours = (now - new Date(createdAt).getTime()) / (60 * 60 * 1000);
+  return recentNet / (RISING_WINDOW_MS / (60 * 60 * 1000)) / Math.sqrt(Math.max(ageHours, 1));
+};
+
+class ThreadRankingService {
+  private task: cron.ScheduledTask | null = null;
+  private running = false;
+
+  // Recompute every five minutes, and once at startup so listings do not wait for the first tick
+  start(): void {
+    if (this.task) return;
+
+    const run = () => {
+      this.recompute().catch((error) => {
+        logger.error('Thread ranking run failed:', error);
+      });
+    };
+    this.task = cron.schedule(process.env.THREAD_RANKING_CRON || '*/5 * * * *', run);
+    run();
+
+    logger.info('Thread ranking started');
+  }
+
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      logger.info('Thread ranking stopped');
+    }
+  }
+
+  isRanked(ranking: string): ranking is ThreadRanking {
+    return ['hot', 'rising', 'controversial'].includes(ranking) ||
+      (ranking.startsWith('top:') && ranking.slice(4) in TOP_WINDOWS);
+  }
+
+  // One page of thread ids in ranked order, or null when the ranking has not been computed
+  async page(ranking: ThreadRanking, category: string | undefined, skip: number, limit: number): Promise<{ ids: string[]; total: number } | null> {
+    const key = rankingKey(ranking, category);
+    const total = await redisClient.zcard(key);
+    if (total === 0) return null;
+    return { ids: await redisClient.zrevrange(key, skip, skip + limit - 1), total };
+  }
+
+  // Rebuild every ranking for every category; returns the number of threads considered
+  async recompute(): Promise<number> {
+    if (this.running) return 0;
+
+    const lockToken = await redisClient.acquireLock(LOCK_KEY, LOCK_TTL_SECONDS);
+    if (!lockToken) {
+      logger.debug('Thread ranking lock held by another instance, skipping run');
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const now = Date.now();
+      const candidates: Candidate[] = await Thread.find({
+        ...PUBLIC_FILTER,
+        $or: [{ lastActivity: { $gte: new Date(now - CANDIDATE_WINDOW_MS) } }, { isPinned: true }]
+      })
+        .sort({ lastActivity: -1 })
+        .limit(CANDIDATE_LIMIT)
+        .select('category upvotes downvotes createdAt isPinned')
+        .lean();
+
+      const recentVotes = await this.recentVotes(candidates, now);
+
+      await this.store('hot', candidates, (t) => hotScore(t.upvotes, t.downvotes, t.createdAt));
+      await this.store('controversial', candidates, (t) => controversialScore(t.upvotes, t.downvotes));
+      await this.store(
+        'rising',
+        candidates.filter((t) => now - new Date(t.createdAt).getTime() <= RISING_MAX_AGE_MS && (recentVotes.get(t._id.toString()) || 0) > 0),
+        (t) => risingScore(recentVotes.get(t._id.toString()) || 0, t.createdAt, now)
+      );
+
+      for (const [window, ms] of Object.entries(TOP_WINDOWS) as Array<[TopWindow, number]>) {
+        await this.storeTop(window, ms ? new Date(now - ms) : null);
+      }
+
+      logger.debug(`Thread rankings recomputed from ${candidates.length} thread(s)`);
+      return candidates.length;
+    } finally {
+      this.running = false;
+      await redisClient.releaseLock(LOCK_KEY, lockToken);
+    }
+  }
+
+  // Net votes (up minus down) cast or changed within the rising window, by thread id
+  private async recentVotes(candidates: Candidate[], now: number): Promise<Map<string, number>> {
+    const young = candidates.filter((t) => now - new Date(t.createdAt).getTime() <= RISING_MAX_AGE_MS).map((t) => t._id);
+    if (young.length === 0) return new Map();
+
+    const votes = await Vote.aggregate([
+      { $match: { targetType: 'thread', targetId: { $in: young }, updatedAt: { $gte: new Date(now - RISING_WINDOW_MS) } } },
+      { $group: { _id: '$targetId', net: { $sum: { $cond: [{ $eq: ['$voteType', 'upvote'] }, 1, -1] } } } }
+    ]);
+    return new Map(votes.map((v) => [v._id.toString(), v.net]));
+  }
+
+  // Score the threads and write the overall ranking plus one per category
+  private async store(ranking: ThreadRanking, threads: Candidate[], score: (thread: Candidate) => number): Promise<void> {
+    const scored = threads.map((thread) => ({
+      member: thread._id.toString(),
+      score: score(thread) + (thread.isPinned ? PINNED_BOOST : 0),
+      category: thread.category
+    }));
+    scored.sort((a, b) => b.score - a.score);
+
+    await this.write(ranking, undefined, scored);
+    for (const category of CATEGORIES) {
+      await this.write(ranking, category, scored.filter((entry) => entry.category === category));
+    }
+  }
+
+  // Top is plain net votes, so it is read straight from the score index instead of the candidates
+  private async storeTop(window: TopWindow, since: Date | null): Promise<void> {
+    for (const category of [undefined, ...CATEGORIES]) {
+      const threads = await Thread.find({
+        ...PUBLIC_FILTER,
+        ...(category ? { category } : {}),
+        ...(since ? { createdAt: { $gte: since } } : {})
+      })
+        .sort({ isPinned: -1, score: -1, createdAt: -1 })
+        .limit(RANKING_SIZE)
+        .select('score isPinned')
+        .lean();
+
+      await this.write(`top:${window}`, category, threads.map((thread) => ({
+        member: thread._id.toString(),
+        score: thread.score + (thread.isPinned ? PINNED_BOOST : 0)
+      })));
+    }
+  }
+
+  private async write(ranking: ThreadRanking, category: string | undefined, entries: Array<{ member: string; score: number }>): Promise<void> {
+    await redisClient.replaceSortedSet(
+      rankingKey(ranking, category),
+      entries.slice(0, RANKING_SIZE).map(({ member, score }) => ({ member, score })),
+      RANKING_TTL_SECONDS
+    );
+  }
+}
+
+export const threadRankingService = new ThreadRankingService();
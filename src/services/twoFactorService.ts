@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User } from '../models/User';
+import { ModerationAction } from '../models/ModerationAction';
+import { permissionService } from './permissionService';
+import { sessionService } from './sessionService';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from '../utils/totp';
+import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'Sports Platform';
+const BACKUP_CODE_COUNT = 10;
+
+// Second-step tokens live just long enough to type a code
+const CHALLENGE_TTL = '5m';
+
+// Wrong codes allowed per user before the second step is locked for the window
+const MAX_ATTEMPTS = 5;
+const ATTEMPT_WINDOW_SECONDS = 15 * 60;
+
+export type ChallengePurpose = 'login' | 'enroll';
+
+export type TwoFactorResult =
+  | { ok: true; method?: 'totp' | 'backup_code'; backupCodes?: string[]; remainingBackupCodes?: number }
+  | { ok: false; error: 'not_found' | 'not_enabled' | 'already_enabled' | 'no_pending' | 'invalid_code' | 'too_many_attempts' | 'required' };
+
+// Secrets are encrypted at rest so a database dump alone cannot mint codes
+const encryptionKey = () =>
+  crypto.createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'default-secret-key').digest();
+
+const encrypt = (plain: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64')).join('.');
+};
+
+const decrypt = (payload: string): string => {
+  const [iv, tag, data] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+};
+
+// Challenge tokens use their own key so they can never pass as access tokens
+const challengeSecret = () => `${process.env.JWT_SECRET || 'default-secret-key'}:two-factor`;
+
+// Backup codes are hashed with a server key, so a database dump alone is not enough to brute-force them
+const backupCodeKey = () => `${process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'default-secret-key'}:backup-codes`;
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+const hashBackupCode = (code: string) => crypto.createHmac('sha256', backupCodeKey()).update(normalizeBackupCode(code)).digest('hex');
+
+// Hashes a stored code may have: 8-character codes issued before keyed hashing stay valid until regenerated
+const backupCodeHashes = (code: string): string[] => {
+  const normalized = normalizeBackupCode(code);
+  return normalized.length === 8
+    ? [hashBackupCode(code), crypto.createHash('sha256').update(normalized).digest('hex')]
+    : [hashBackupCode(code)];
+};
+
+// "1a2b3-c4d5e-6f7a8-b9c0d" style codes from 10 random bytes; shown once, stored hashed
+const generateBackupCodes = (): string[] =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => crypto.randomBytes(10).toString('hex').match(/.{5}/g)!.join('-'));
+
+class TwoFactorService {
+  issueChallenge(userId: string, purpose: ChallengePurpose): string {
+    return jwt.sign({ userId, purpose }, challengeSecret(), { expiresIn: CHALLENGE_TTL } as jwt.SignOptions);
+  }
+
+  // User id of a valid challenge token for the given step, or null
+  verifyChallenge(token: string, purpose: ChallengePurpose): string | null {
+    try {
+      const decoded = jwt.verify(token, challengeSecret()) as any;
+      return decoded.purpose === purpose ? decoded.userId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async isRequiredFor(user: { role?: string }): Promise<boolean> {
+    return permissionService.requiresTwoFactor(user.role);
+  }
+
+  // Create a fresh secret awaiting confirmation; the active secret (if any) stays in force until then
+  async beginEnrollment(userId: string): Promise<{ ok: false; error: 'not_found' | 'already_enabled' } | { ok: true; secret: string; otpauthUri: string }> {
+    const user = await User.findById(userId).select('email twoFactor.enabled');
+    if (!user) return { ok: false, error: 'not_found' };
+    if (user.twoFactor?.enabled) return { ok: false, error: 'already_enabled' };
+
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: userId }, { $set: { 'twoFactor.pendingSecret': encrypt(secret) } });
+
+    return { ok: true, secret, otpauthUri: totpProvisioningUri(secret, user.email, ISSUER) };
+  }
+
+  // The first valid code proves the authenticator app is set up; backup codes are returned once
+  async confirmEnrollment(userId: string, code: string): Promise<TwoFactorResult> {
+    const user = await User.findById(userId).select('+twoFactor.pendingSecret');
+    if (!user) return { ok: false, error: 'not_found' };
+    if (user.twoFactor?.enabled) return { ok: false, error: 'already_enabled' };
+    if (!user.twoFactor?.pendingSecret) return { ok: false, error: 'no_pending' };
+
+    if (await this.isLockedOut(userId)) return { ok: false, error: 'too_many_attempts' };
+
+    const secret = decrypt(user.twoFactor.pendingSecret);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      await this.recordFailure(userId);
+      return { ok: false, error: 'invalid_code' };
+    }
+
+    const backupCodes = generateBackupCodes();
+    await User.updateOne({ _id: userId }, {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.secret': user.twoFactor.pendingSecret,
+        'twoFactor.backupCodes': backupCodes.map(hashBackupCode),
+        'twoFactor.lastUsedStep': step,
+        'twoFactor.enabledAt': new Date(),
+      },
+      $unset: { 'twoFactor.pendingSecret': '' },
+    });
+    await this.clearFailures(userId);
+
+    return { ok: true, backupCodes };
+  }
+
+  // Second login step: a current TOTP code, or one of the backup codes (each works once)
+  async verify(userId: string, input: { code?: string; backupCode?: string }): Promise<TwoFactorResult> {
+    const user = await User.findById(userId).select('+twoFactor.secret +twoFactor.backupCodes +twoFactor.lastUsedStep');
+    if (!user) return { ok: false, error: 'not_found' };
+    if (!user.twoFactor?.enabled || !user.twoFactor.secret) return { ok: false, error: 'not_enabled' };
+
+    if (await this.isLockedOut(userId)) return { ok: false, error: 'too_many_attempts' };
+
+    if (input.code) {
+      const step = verifyTotp(decrypt(user.twoFactor.secret), input.code);
+      // Compare-and-set on the step so the same code cannot be used twice
+      const accepted = step !== null && (await User.updateOne(
+        { _id: userId, $or: [{ 'twoFactor.lastUsedStep': { $lt: step } }, { 'twoFactor.lastUsedStep': { $exists: false } }] },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+      )).modifiedCount === 1;
+
+      if (accepted) {
+        await this.clearFailures(userId);
+        return { ok: true, method: 'totp' };
+      }
+    } else if (input.backupCode) {
+      const hashes = backupCodeHashes(input.backupCode);
+      const updated = await User.findOneAndUpdate(
+        { _id: userId, 'twoFactor.backupCodes': { $in: hashes } },
+        { $pull: { 'twoFactor.backupCodes': { $in: hashes } } },
+        { new: true }
+      ).select('+twoFactor.backupCodes');
+
+      if (updated) {
+        await this.clearFailures(userId);
+        const remaining = updated.twoFactor.backupCodes.length;
+        logger.info(`User ${userId} signed in with a backup code; ${remaining} left`);
+        return { ok: true, method: 'backup_code', remainingBackupCodes: remaining };
+      }
+    }
+
+    await this.recordFailure(userId);
+    return { ok: false, error: 'invalid_code' };
+  }
+
+  // Replaces every backup code; needs a current TOTP code
+  async regenerateBackupCodes(userId: string, code: string): Promise<TwoFactorResult> {
+    const verified = await this.verify(userId, { code });
+    if ('error' in verified) return verified;
+
+    const backupCodes = generateBackupCodes();
+    await User.updateOne({ _id: userId }, { $set: { 'twoFactor.backupCodes': backupCodes.map(hashBackupCode) } });
+    return { ok: true, backupCodes };
+  }
+
+  // Users may turn 2FA off only when their role does not require it
+  async disable(userId: string, code: string): Promise<TwoFactorResult> {
+    const user = await User.findById(userId).select('role').lean();
+    if (!user) return { ok: false, error: 'not_found' };
+    if (await this.isRequiredFor(user)) return { ok: false, error: 'required' };
+
+    const verified = await this.verify(userId, { code });
+    if ('error' in verified) return verified;
+
+    await this.clear(userId);
+    return { ok: true };
+  }
+
+  // Account recovery by an admin when both the device and the backup codes are lost.
+  // The user is signed out everywhere and enrolls again on next login
+  async reset(userId: string, adminId: string, reason?: string): Promise<TwoFactorResult> {
+    const user = await User.findById(userId).select('_id twoFactor.enabled');
+    if (!user) return { ok: false, error: 'not_found' };
+    if (!user.twoFactor?.enabled) return { ok: false, error: 'not_enabled' };
+
+    await this.clear(userId);
+    await sessionService.revokeAll(userId, 'revoked');
+    await ModerationAction.create({
+      moderator: adminId,
+      action: 'reset_two_factor',
+      targetType: 'user',
+      targetId: user._id,
+      reason,
+    });
+    return { ok: true };
+  }
+
+  private async clear(userId: string): Promise<void> {
+    await User.updateOne({ _id: userId }, {
+      $set: { 'twoFactor.enabled': false, 'twoFactor.backupCodes': [] },
+      $unset: { 'twoFactor.secret': '', 'twoFactor.pendingSecret': '', 'twoFactor.lastUsedStep': '', 'twoFactor.enabledAt': '' },
+    });
+    await this.clearFailures(userId);
+  }
+
+  private attemptsKey(userId: string): string {
+    return `2fa_attempts:${userId}`;
+  }
+
+  private async isLockedOut(userId: string): Promise<boolean> {
+    return Number(await redisClient.get(this.attemptsKey(userId))) >= MAX_ATTEMPTS;
+  }
+
+  private async recordFailure(userId: string): Promise<void> {
+    try {
+      await redisClient.incr(this.attemptsKey(userId), ATTEMPT_WINDOW_SECONDS);
+    } catch (error) {
+      logger.warn(`Could not record failed 2FA attempt for ${userId}:`, error);
+    }
+  }
+
+  private async clearFailures(userId: string): Promise<void> {
+    await redisClient.del(this.attemptsKey(userId));
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
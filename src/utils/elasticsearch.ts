@@ -3,6 +3,8 @@ import { logger } from './logger';
 
 const ELASTICSEARCH_URL = process.env.ELASTICSEARCH_URL || 'http://localhost:9200';
 
+export const NEWS_INDEX = 'news_articles';
+
 // Create Elasticsearch client
 export const esClient = new Client({
   host: ELASTICSEARCH_URL,
@@ -12,6 +14,11 @@ export const esClient = new Client({
   pingTimeout: 3000,
 });
 
+let available = false;
+
+// False until connectElasticsearch succeeds; lets write hooks skip ES entirely in development
+export const isElasticsearchAvailable = () => available;
+
 export const connectElasticsearch = async (): Promise<void> => {
   try {
     // Test connection
@@ -21,6 +28,7 @@ export const connectElasticsearch = async (): Promise<void> => {
     }
 
     logger.info('Elasticsearch connected successfully');
+    available = true;
 
     // Create indices if they don't exist
     await createIndices();
@@ -30,185 +38,337 @@ export const connectElasticsearch = async (): Promise<void> => {
   }
 };
 
-// Create necessary indices
-const createIndices = async (): Promise<void> => {
-  try {
-    // Content index
-    const contentIndexExists = await esClient.indices.exists({ index: 'content' });
-    if (!contentIndexExists) {
-      await esClient.indices.create({
-        index: 'content',
-        body: {
-          mappings: {
-            properties: {
-              title: {
-                type: 'text',
-                analyzer: 'standard',
-                fields: {
-                  keyword: {
-                    type: 'keyword'
-                  }
-                }
-              },
-              content: {
-                type: 'text',
-                analyzer: 'standard'
-              },
-              type: {
-                type: 'keyword'
-              },
-              category: {
-                type: 'keyword'
-              },
-              tags: {
-                type: 'keyword'
-              },
-              status: {
-                type: 'keyword'
-              },
-              featured: {
-                type: 'boolean'
-              },
-              views: {
-                type: 'integer'
-              },
-              likes: {
-                type: 'integer'
-              },
-              publishedAt: {
-                type: 'date'
-              },
-              createdAt: {
-                type: 'date'
-              },
-              contributor: {
-                type: 'object',
-                properties: {
-                  id: { type: 'keyword' },
-                  name: { type: 'text' },
-                  email: { type: 'keyword' }
-                }
-              }
+const matchTeamMapping = {
+  type: 'object',
+  properties: {
+    id: { type: 'keyword' },
+    name: { type: 'text' },
+    shortName: { type: 'keyword' }
+  }
+};
+
+// Typeahead field read by /api/search/suggest; documents fill it with { input: [...], weight }
+const suggestMapping = { type: 'completion' };
+
+const venueMapping = {
+  type: 'object',
+  properties: {
+    name: { type: 'text' },
+    city: { type: 'keyword' },
+    country: { type: 'keyword' }
+  }
+};
+
+// Settings and mappings of every search index. Each name is an alias over a versioned index
+// (e.g. content_1760000000000) so a changed definition can be rolled out by reindexing.
+export const INDEX_DEFINITIONS = {
+  content: {
+    mappings: {
+      properties: {
+        title: {
+          type: 'text',
+          analyzer: 'standard',
+          fields: {
+            keyword: {
+              type: 'keyword'
             }
+          }
+        },
+        content: {
+          type: 'text',
+          analyzer: 'standard'
+        },
+        type: {
+          type: 'keyword'
+        },
+        category: {
+          type: 'keyword'
+        },
+        tags: {
+          type: 'keyword'
+        },
+        status: {
+          type: 'keyword'
+        },
+        featured: {
+          type: 'boolean'
+        },
+        views: {
+          type: 'integer'
+        },
+        likes: {
+          type: 'integer'
+        },
+        publishedAt: {
+          type: 'date'
+        },
+        createdAt: {
+          type: 'date'
+        },
+        contributor: {
+          type: 'object',
+          properties: {
+            id: { type: 'keyword' },
+            name: { type: 'text' },
+            email: { type: 'keyword' }
+          }
+        },
+        suggest: suggestMapping
+      }
+    },
+    settings: {
+      number_of_shards: 1,
+      number_of_replicas: 0,
+      analysis: {
+        analyzer: {
+          custom_analyzer: {
+            type: 'custom',
+            tokenizer: 'standard',
+            filter: ['lowercase', 'stop', 'snowball']
+          }
+        }
+      }
+    }
+  },
+
+  cricket_matches: {
+    mappings: {
+      properties: {
+        matchId: { type: 'keyword' },
+        series: { type: 'text' },
+        teams: {
+          type: 'object',
+          properties: {
+            home: matchTeamMapping,
+            away: matchTeamMapping
+          }
+        },
+        venue: venueMapping,
+        status: { type: 'keyword' },
+        format: { type: 'keyword' },
+        startTime: { type: 'date' },
+        endTime: { type: 'date' }
+      }
+    }
+  },
+
+  football_matches: {
+    mappings: {
+      properties: {
+        matchId: { type: 'keyword' },
+        league: { type: 'text' },
+        season: { type: 'keyword' },
+        teams: {
+          type: 'object',
+          properties: {
+            home: matchTeamMapping,
+            away: matchTeamMapping
+          }
+        },
+        venue: venueMapping,
+        status: { type: 'keyword' },
+        startTime: { type: 'date' },
+        endTime: { type: 'date' }
+      }
+    }
+  },
+
+  // Article text is stemmed and accent-folded; the body is indexed without its HTML
+  [NEWS_INDEX]: {
+    settings: {
+      number_of_shards: 1,
+      number_of_replicas: 0,
+      analysis: {
+        filter: {
+          english_stop: { type: 'stop', stopwords: '_english_' },
+          english_stemmer: { type: 'stemmer', language: 'english' },
+          english_possessive: { type: 'stemmer', language: 'possessive_english' }
+        },
+        analyzer: {
+          news_text: {
+            type: 'custom',
+            tokenizer: 'standard',
+            filter: ['english_possessive', 'lowercase', 'asciifolding', 'english_stop', 'english_stemmer']
           },
-          settings: {
-            number_of_shards: 1,
-            number_of_replicas: 0,
-            analysis: {
-              analyzer: {
-                custom_analyzer: {
-                  type: 'custom',
-                  tokenizer: 'standard',
-                  filter: ['lowercase', 'stop', 'snowball']
-                }
-              }
-            }
+          news_html: {
+            type: 'custom',
+            char_filter: ['html_strip'],
+            tokenizer: 'standard',
+            filter: ['english_possessive', 'lowercase', 'asciifolding', 'english_stop', 'english_stemmer']
+          }
+        },
+        normalizer: {
+          lowercase_keyword: {
+            type: 'custom',
+            filter: ['lowercase', 'asciifolding']
           }
         }
-      });
-      logger.info('Content index created');
+      }
+    },
+    mappings: {
+      properties: {
+        id: { type: 'keyword' },
+        title: {
+          type: 'text',
+          analyzer: 'news_text',
+          fields: {
+            keyword: { type: 'keyword', ignore_above: 256 }
+          }
+        },
+        summary: { type: 'text', analyzer: 'news_text' },
+        body: { type: 'text', analyzer: 'news_html' },
+        slug: { type: 'keyword' },
+        type: { type: 'keyword' },
+        category: { type: 'keyword' },
+        tags: {
+          type: 'keyword',
+          normalizer: 'lowercase_keyword',
+          fields: {
+            text: { type: 'text', analyzer: 'news_text' }
+          }
+        },
+        author: {
+          type: 'object',
+          properties: {
+            id: { type: 'keyword' },
+            name: { type: 'text', fields: { keyword: { type: 'keyword' } } }
+          }
+        },
+        heroImage: { type: 'keyword', index: false },
+        readingTimeMinutes: { type: 'integer' },
+        publishedAt: { type: 'date' },
+        suggest: suggestMapping
+      }
     }
+  },
 
-    // Cricket matches index
-    const cricketIndexExists = await esClient.indices.exists({ index: 'cricket_matches' });
-    if (!cricketIndexExists) {
-      await esClient.indices.create({
-        index: 'cricket_matches',
-        body: {
-          mappings: {
-            properties: {
-              matchId: { type: 'keyword' },
-              series: { type: 'text' },
-              teams: {
-                type: 'object',
-                properties: {
-                  home: {
-                    type: 'object',
-                    properties: {
-                      id: { type: 'keyword' },
-                      name: { type: 'text' },
-                      shortName: { type: 'keyword' }
-                    }
-                  },
-                  away: {
-                    type: 'object',
-                    properties: {
-                      id: { type: 'keyword' },
-                      name: { type: 'text' },
-                      shortName: { type: 'keyword' }
-                    }
-                  }
-                }
-              },
-              venue: {
-                type: 'object',
-                properties: {
-                  name: { type: 'text' },
-                  city: { type: 'keyword' },
-                  country: { type: 'keyword' }
-                }
-              },
-              status: { type: 'keyword' },
-              format: { type: 'keyword' },
-              startTime: { type: 'date' },
-              endTime: { type: 'date' }
-            }
+  // Community threads; counters are refreshed on reindex rather than on every vote
+  threads: {
+    settings: {
+      number_of_shards: 1,
+      number_of_replicas: 0
+    },
+    mappings: {
+      properties: {
+        id: { type: 'keyword' },
+        title: {
+          type: 'text',
+          analyzer: 'english',
+          fields: {
+            keyword: { type: 'keyword', ignore_above: 256 }
+          }
+        },
+        content: { type: 'text', analyzer: 'english' },
+        category: { type: 'keyword' },
+        tags: { type: 'keyword' },
+        flair: { type: 'keyword' },
+        author: {
+          type: 'object',
+          properties: {
+            id: { type: 'keyword' },
+            name: { type: 'text', fields: { keyword: { type: 'keyword' } } }
+          }
+        },
+        score: { type: 'integer' },
+        commentCount: { type: 'integer' },
+        isPinned: { type: 'boolean' },
+        createdAt: { type: 'date' },
+        lastActivity: { type: 'date' },
+        suggest: suggestMapping
+      }
+    }
+  },
+
+  cricket_teams: {
+    mappings: {
+      properties: {
+        slug: { type: 'keyword' },
+        name: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+        shortName: { type: 'keyword', normalizer: 'lowercase_keyword' },
+        flag: { type: 'keyword', index: false },
+        board: { type: 'text' },
+        summary: { type: 'text', analyzer: 'english' },
+        keyPlayers: { type: 'text' },
+        ranking: {
+          type: 'object',
+          properties: {
+            test: { type: 'integer' },
+            odi: { type: 'integer' },
+            t20: { type: 'integer' }
+          }
+        },
+        suggest: suggestMapping
+      }
+    },
+    settings: {
+      analysis: {
+        normalizer: {
+          lowercase_keyword: {
+            type: 'custom',
+            filter: ['lowercase', 'asciifolding']
           }
         }
-      });
-      logger.info('Cricket matches index created');
+      }
+    }
+  },
+
+  // Built from match line-ups; there is no player collection
+  players: {
+    mappings: {
+      properties: {
+        id: { type: 'keyword' },
+        name: {
+          type: 'text',
+          fields: {
+            keyword: { type: 'keyword' },
+            folded: { type: 'text', analyzer: 'folded' }
+          }
+        },
+        team: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+        role: { type: 'keyword' },
+        matchCount: { type: 'integer' },
+        totalRuns: { type: 'integer' },
+        totalWickets: { type: 'integer' },
+        suggest: suggestMapping
+      }
+    },
+    settings: {
+      analysis: {
+        analyzer: {
+          folded: {
+            type: 'custom',
+            tokenizer: 'standard',
+            filter: ['lowercase', 'asciifolding']
+          }
+        }
+      }
     }
+  }
+};
+
+export type SearchIndexName = keyof typeof INDEX_DEFINITIONS;
+
+export const SEARCH_INDEX_NAMES = Object.keys(INDEX_DEFINITIONS) as SearchIndexName[];
+
+// A fresh concrete index behind the alias `name`
+export const versionedIndexName = (name: SearchIndexName) => `${name}_${Date.now()}`;
+
+// Create the missing indices, each as a versioned index behind its alias
+const createIndices = async (): Promise<void> => {
+  try {
+    for (const name of SEARCH_INDEX_NAMES) {
+      // Also true when the name is an alias or an index created before aliases were used
+      if (await esClient.indices.exists({ index: name })) continue;
 
-    // Football matches index
-    const footballIndexExists = await esClient.indices.exists({ index: 'football_matches' });
-    if (!footballIndexExists) {
       await esClient.indices.create({
-        index: 'football_matches',
+        index: versionedIndexName(name),
         body: {
-          mappings: {
-            properties: {
-              matchId: { type: 'keyword' },
-              league: { type: 'text' },
-              season: { type: 'keyword' },
-              teams: {
-                type: 'object',
-                properties: {
-                  home: {
-                    type: 'object',
-                    properties: {
-                      id: { type: 'keyword' },
-                      name: { type: 'text' },
-                      shortName: { type: 'keyword' }
-                    }
-                  },
-                  away: {
-                    type: 'object',
-                    properties: {
-                      id: { type: 'keyword' },
-                      name: { type: 'text' },
-                      shortName: { type: 'keyword' }
-                    }
-                  }
-                }
-              },
-              venue: {
-                type: 'object',
-                properties: {
-                  name: { type: 'text' },
-                  city: { type: 'keyword' },
-                  country: { type: 'keyword' }
-                }
-              },
-              status: { type: 'keyword' },
-              startTime: { type: 'date' },
-              endTime: { type: 'date' }
-            }
-          }
+          ...INDEX_DEFINITIONS[name],
+          aliases: { [name]: {} }
         }
       });
-      logger.info('Football matches index created');
+      logger.info(`Search index ${name} created`);
     }
-
   } catch (error) {
     logger.error('Error creating Elasticsearch indices:', error);
     throw error;
@@ -264,44 +424,138 @@ export const searchContent = async (query: string, filters: any = {}, size = 20,
   }
 };
 
-export const searchMatches = async (sport: string, query: string, filters: any = {}, size = 20) => {
-  try {
-    const index = sport === 'cricket' ? 'cricket_matches' : 'football_matches';
-    
-    const searchBody = {
-      query: {
-        bool: {
-          must: [
-            {
-              multi_match: {
-                query: query,
-                fields: ['series', 'teams.home.name', 'teams.away.name', 'venue.name'],
-                type: 'best_fields'
-              }
-            }
-          ],
-          filter: [
-            ...Object.entries(filters).map(([key, value]) => ({ term: { [key]: value } }))
+export interface NewsSearchFilters {
+  category?: string;
+  type?: string;
+  tag?: string;
+  author?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface NewsSearchOptions {
+  size?: number;
+  from?: number;
+  sort?: 'relevance' | 'newest';
+}
+
+export type FacetBucket = { value: string; count: number };
+
+export interface NewsSearchFacets {
+  category: FacetBucket[];
+  type: FacetBucket[];
+  tag: FacetBucket[];
+  author: FacetBucket[];
+  date: FacetBucket[];
+}
+
+// Filter clause per facet, so each facet can be counted with every filter except its own
+const newsFacetFilters = (filters: NewsSearchFilters): Record<keyof NewsSearchFacets, any[]> => ({
+  category: filters.category ? [{ term: { category: filters.category } }] : [],
+  type: filters.type ? [{ term: { type: filters.type } }] : [],
+  tag: filters.tag ? [{ term: { tags: filters.tag } }] : [],
+  author: filters.author ? [{ term: { 'author.id': filters.author } }] : [],
+  date: filters.dateFrom || filters.dateTo
+    ? [{ range: { publishedAt: { ...(filters.dateFrom ? { gte: filters.dateFrom } : {}), ...(filters.dateTo ? { lte: filters.dateTo } : {}) } } }]
+    : [],
+});
+
+const NEWS_TERM_FACETS: Record<Exclude<keyof NewsSearchFacets, 'date'>, { field: string; size: number }> = {
+  category: { field: 'category', size: 10 },
+  type: { field: 'type', size: 10 },
+  tag: { field: 'tags', size: 20 },
+  author: { field: 'author.id', size: 10 },
+};
+
+// Full-text news search with facet counts and highlighted snippets
+export const searchNews = async (query: string, filters: NewsSearchFilters = {}, options: NewsSearchOptions = {}) => {
+  const { size = 20, from = 0, sort = 'relevance' } = options;
+  const facetFilters = newsFacetFilters(filters);
+  const allFilters = Object.values(facetFilters).flat();
+  const filtersExcept = (facet: keyof NewsSearchFacets) =>
+    Object.entries(facetFilters).filter(([name]) => name !== facet).flatMap(([, clauses]) => clauses);
+
+  const aggs: Record<string, any> = {};
+  for (const [facet, { field, size: facetSize }] of Object.entries(NEWS_TERM_FACETS)) {
+    aggs[facet] = {
+      filter: { bool: { filter: filtersExcept(facet as keyof NewsSearchFacets) } },
+      aggs: { values: { terms: { field, size: facetSize } } }
+    };
+  }
+  aggs.date = {
+    filter: { bool: { filter: filtersExcept('date') } },
+    aggs: {
+      values: {
+        date_range: {
+          field: 'publishedAt',
+          keyed: false,
+          ranges: [
+            { key: 'last_24h', from: 'now-24h' },
+            { key: 'last_7d', from: 'now-7d' },
+            { key: 'last_30d', from: 'now-30d' },
+            { key: 'last_year', from: 'now-1y' }
           ]
         }
-      },
-      sort: [
-        { startTime: { order: 'desc' } }
-      ],
-      size
-    };
+      }
+    }
+  };
 
+  try {
     const response = await esClient.search({
-      index,
-      body: searchBody
+      index: NEWS_INDEX,
+      body: {
+        query: {
+          multi_match: {
+            query,
+            fields: ['title^3', 'summary^2', 'tags.text^2', 'body'],
+            type: 'best_fields',
+            fuzziness: 'AUTO'
+          }
+        },
+        // Applied after the aggregations so facet counts are not narrowed by their own selection
+        post_filter: { bool: { filter: allFilters } },
+        aggs,
+        highlight: {
+          pre_tags: ['<mark>'],
+          post_tags: ['</mark>'],
+          fields: {
+            title: { number_of_fragments: 0 },
+            summary: { number_of_fragments: 0 },
+            body: { fragment_size: 160, number_of_fragments: 3 }
+          }
+        },
+        sort: sort === 'newest'
+          ? [{ publishedAt: { order: 'desc' } }, { _score: { order: 'desc' } }]
+          : [{ _score: { order: 'desc' } }, { publishedAt: { order: 'desc' } }],
+        _source: { excludes: ['body'] },
+        size,
+        from
+      }
     });
 
+    const buckets = (facet: string): FacetBucket[] =>
+      (response.aggregations?.[facet]?.values?.buckets || [])
+        .filter((bucket: any) => bucket.doc_count > 0)
+        .map((bucket: any) => ({ value: String(bucket.key), count: bucket.doc_count }));
+
     return {
-      hits: response.hits.hits.map((hit: any) => hit._source),
-      total: response.hits.total.value
+      hits: response.hits.hits.map((hit: any) => ({
+        ...hit._source,
+        score: hit._score,
+        highlight: hit.highlight || {}
+      })),
+      total: response.hits.total.value,
+      took: response.took,
+      facets: {
+        category: buckets('category'),
+        type: buckets('type'),
+        tag: buckets('tag'),
+        author: buckets('author'),
+        date: buckets('date')
+      } as NewsSearchFacets
     };
   } catch (error) {
-    logger.error('Elasticsearch match search error:', error);
+    logger.error('Elasticsearch news search error:', error);
     throw error;
   }
 };
@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { logger } from './logger';
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+// Anything that can deliver a rendered email; select with MAIL_TRANSPORT
+export interface MailTransport {
+  name: string;
+  send(message: OutgoingEmail & { from: string }): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  async send(message: OutgoingEmail & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message to MAIL_FILE_DIR as JSON plus an .html preview; for local development and tests
+export class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private dir: string = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'logs', 'mail')) {}
+
+  async send(message: OutgoingEmail & { from: string }): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const base = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}`;
+    await fs.writeFile(path.join(this.dir, `${base}.json`), JSON.stringify(message, null, 2));
+    await fs.writeFile(path.join(this.dir, `${base}.html`), message.html);
+  }
+}
+
+// Logs the text part only
+export class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: OutgoingEmail & { from: string }): Promise<void> {
+    logger.info(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (transport) return transport;
+
+  const configured = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (configured) {
+    case 'smtp':
+      transport = new SmtpTransport();
+      break;
+    case 'file':
+      transport = new FileTransport();
+      break;
+    case 'console':
+      transport = new ConsoleTransport();
+      break;
+    default:
+      logger.warn(`Unknown MAIL_TRANSPORT "${configured}", falling back to console`);
+      transport = new ConsoleTransport();
+  }
+  return transport;
+};
+
+// Swap the transport at runtime, e.g. to capture mail in tests
+export const setMailTransport = (custom: MailTransport): void => {
+  transport = custom;
+};
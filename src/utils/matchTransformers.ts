@@ -1,4 +1,6 @@
 import { ICricketMatch } from '../models/CricketMatch';
+import { IFootballMatch } from '../models/FootballMatch';
+import { NormalizedMatch } from '../services/sportsDataProvider';
 
 /**
  * Transform Cricket Data API response to your database schema
@@ -108,6 +110,7 @@ export function transformApiMatchToFrontend(apiMatch: any): any {
   return {
     _id: matchId,
     matchId: matchId,
+    sport: 'cricket',
     ...transformed,
     name: apiMatch.name || `${transformed.teams?.home.name} vs ${transformed.teams?.away.name}`,
     status: transformed.status,
@@ -118,3 +121,196 @@ export function transformApiMatchToFrontend(apiMatch: any): any {
   };
 }
 
+
+/**
+ * Transform football-data.org match response to the FootballMatch schema
+ */
+export function transformFootballApiMatchToDbSchema(apiMatch: any): Partial<IFootballMatch> {
+  const statusMap: Record<string, IFootballMatch['status']> = {
+    SCHEDULED: 'scheduled',
+    TIMED: 'scheduled',
+    IN_PLAY: 'live',
+    PAUSED: 'live',
+    LIVE: 'live',
+    FINISHED: 'finished',
+    AWARDED: 'finished',
+    POSTPONED: 'postponed',
+    SUSPENDED: 'postponed',
+    CANCELLED: 'cancelled',
+  };
+
+  const mapTeam = (team: any = {}, fallback: string) => ({
+    id: team.id?.toString() || team.name || '',
+    name: team.name || fallback,
+    logo: team.crest || '',
+    shortName: team.tla || team.shortName || (team.name?.substring(0, 3).toUpperCase() || fallback),
+  });
+
+  const fullTime = apiMatch.score?.fullTime || {};
+  const halfTime = apiMatch.score?.halfTime;
+  const season = apiMatch.season || {};
+  const seasonLabel = season.startDate && season.endDate
+    ? `${season.startDate.substring(0, 4)}/${season.endDate.substring(0, 4)}`
+    : (season.startDate?.substring(0, 4) || 'Unknown Season');
+
+  return {
+    matchId: apiMatch.id?.toString() || '',
+    league: apiMatch.competition?.name || 'Unknown League',
+    leagueId: apiMatch.competition?.id?.toString(),
+    season: seasonLabel,
+    teams: {
+      home: mapTeam(apiMatch.homeTeam, 'Home'),
+      away: mapTeam(apiMatch.awayTeam, 'Away'),
+    },
+    venue: {
+      name: apiMatch.venue || 'Unknown Venue',
+      city: apiMatch.area?.name || 'Unknown',
+      country: apiMatch.area?.name || 'Unknown',
+    },
+    status: statusMap[apiMatch.status] || 'scheduled',
+    startTime: apiMatch.utcDate ? new Date(apiMatch.utcDate) : new Date(),
+    score: {
+      home: fullTime.home ?? 0,
+      away: fullTime.away ?? 0,
+      ...(halfTime && halfTime.home !== null && halfTime.home !== undefined
+        ? { halftime: { home: halfTime.home, away: halfTime.away } }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Transform football-data.org match response to frontend format
+ */
+export function transformFootballApiMatchToFrontend(apiMatch: any): NormalizedMatch {
+  return transformFootballDocToFrontend(transformFootballApiMatchToDbSchema(apiMatch));
+}
+
+/**
+ * Transform a stored CricketMatch document to frontend format
+ */
+export function transformCricketDocToFrontend(doc: any): NormalizedMatch {
+  const matchId = doc.matchId || doc._id?.toString();
+
+  return {
+    _id: doc._id?.toString() || matchId,
+    matchId,
+    sport: 'cricket',
+    name: `${doc.teams?.home?.name} vs ${doc.teams?.away?.name}`,
+    teams: doc.teams,
+    venue: doc.venue,
+    status: doc.status,
+    format: doc.format,
+    series: doc.series,
+    startTime: doc.startTime,
+    currentScore: doc.currentScore,
+    matchStarted: doc.status === 'live' || doc.status === 'completed',
+    matchEnded: doc.status === 'completed',
+    detailUrl: `/cricket/match/${matchId}`,
+  };
+}
+
+/**
+ * Transform a stored FootballMatch document to frontend format
+ */
+export function transformFootballDocToFrontend(doc: any): NormalizedMatch {
+  const matchId = doc.matchId || doc._id?.toString();
+  const statusMap: Record<string, NormalizedMatch['status']> = {
+    live: 'live',
+    finished: 'completed',
+    scheduled: 'upcoming',
+    postponed: 'postponed',
+    cancelled: 'cancelled',
+  };
+  const status = statusMap[doc.status] || 'upcoming';
+  const goals = (value: number) => ({ runs: value || 0, wickets: 0, overs: 0, balls: 0 });
+
+  return {
+    _id: doc._id?.toString() || matchId,
+    matchId,
+    sport: 'football',
+    name: `${doc.teams?.home?.name} vs ${doc.teams?.away?.name}`,
+    teams: doc.teams,
+    venue: doc.venue,
+    status,
+    league: doc.league,
+    leagueId: doc.leagueId,
+    season: doc.season,
+    startTime: doc.startTime,
+    // Live goals follow the cricket shape (runs = goals), final scores use score
+    currentScore: status === 'live' && doc.score
+      ? { home: goals(doc.score.home), away: goals(doc.score.away) }
+      : undefined,
+    score: status === 'completed' && doc.score ? { home: doc.score.home, away: doc.score.away } : undefined,
+    matchStarted: status === 'live' || status === 'completed',
+    matchEnded: status === 'completed',
+    detailUrl: `/football/match/${matchId}`,
+  };
+}
+
+/**
+ * Transform a normalized match to the CricketMatch schema
+ */
+export function transformNormalizedToCricketDb(match: NormalizedMatch): Partial<ICricketMatch> {
+  const formats = ['test', 'odi', 't20i', 't20', 'first-class', 'list-a'];
+  const toTeam = (team: any, fallback: string) => ({
+    id: team?.id || team?.name || '',
+    name: team?.name || fallback,
+    flag: team?.flag || '🏏',
+    shortName: team?.shortName || fallback,
+  });
+
+  return {
+    matchId: match.matchId,
+    series: match.series || match.league || 'Unknown Series',
+    teams: {
+      home: toTeam(match.teams?.home, 'Team 1'),
+      away: toTeam(match.teams?.away, 'Team 2'),
+    },
+    venue: match.venue,
+    status: match.status === 'postponed' ? 'upcoming' : match.status,
+    format: (formats.includes(match.format || '') ? match.format : 't20') as ICricketMatch['format'],
+    startTime: new Date(match.startTime),
+    currentScore: match.currentScore,
+  };
+}
+
+/**
+ * Transform a normalized match to the FootballMatch schema
+ */
+export function transformNormalizedToFootballDb(match: NormalizedMatch): Partial<IFootballMatch> {
+  const statusMap: Record<NormalizedMatch['status'], IFootballMatch['status']> = {
+    live: 'live',
+    completed: 'finished',
+    upcoming: 'scheduled',
+    postponed: 'postponed',
+    cancelled: 'cancelled',
+  };
+  const toTeam = (team: any, fallback: string) => ({
+    id: team?.id || team?.name || '',
+    name: team?.name || fallback,
+    logo: team?.logo || '',
+    shortName: team?.shortName || fallback,
+  });
+
+  // Live goals are reported in currentScore.runs, final scores in score
+  const goals = match.score || {
+    home: match.currentScore?.home?.runs || 0,
+    away: match.currentScore?.away?.runs || 0,
+  };
+
+  return {
+    matchId: match.matchId,
+    league: match.league || match.series || 'Unknown League',
+    leagueId: match.leagueId,
+    season: match.season || 'Unknown Season',
+    teams: {
+      home: toTeam(match.teams?.home, 'Home'),
+      away: toTeam(match.teams?.away, 'Away'),
+    },
+    venue: match.venue,
+    status: statusMap[match.status] || 'scheduled',
+    startTime: new Date(match.startTime),
+    score: { home: goals.home, away: goals.away },
+  };
+}
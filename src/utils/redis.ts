@@ -125,6 +125,30 @@ class RedisClient {
     }
   }
 
+  // Seconds until the key expires; 0 when it is missing or has no expiry
+  public async ttl(key: string): Promise<number> {
+    try {
+      return Math.max(await this.client.ttl(key), 0);
+    } catch (error) {
+      logger.error(`Redis TTL error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  // Counter whose TTL starts with the first increment (fixed-window rate limits)
+  public async incr(key: string, ttl?: number): Promise<number> {
+    try {
+      const count = await this.client.incr(key);
+      if (ttl && count === 1) {
+        await this.client.expire(key, ttl);
+      }
+      return count;
+    } catch (error) {
+      logger.error(`Redis INCR error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
   // Hash methods for complex data
   public async hset(key: string, field: string, value: any): Promise<void> {
     try {
@@ -197,6 +221,120 @@ class RedisClient {
     }
   }
 
+  // Sorted set methods for precomputed rankings
+  // Swap in a whole sorted set at once, so readers never see it half written
+  public async replaceSortedSet(key: string, entries: Array<{ member: string; score: number }>, ttl?: number): Promise<void> {
+    try {
+      const tmpKey = `${key}:tmp`;
+      const pipeline = this.client.multi().del(tmpKey);
+      if (entries.length === 0) {
+        pipeline.del(key);
+      } else {
+        pipeline.zadd(tmpKey, ...entries.flatMap(({ member, score }) => [score, member])).rename(tmpKey, key);
+        if (ttl) pipeline.expire(key, ttl);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      logger.error(`Redis sorted set replace error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  // Members from highest to lowest score; stop is inclusive
+  public async zrevrange(key: string, start: number, stop: number): Promise<string[]> {
+    try {
+      return await this.client.zrevrange(key, start, stop);
+    } catch (error) {
+      logger.error(`Redis ZREVRANGE error for key ${key}:`, error);
+      return [];
+    }
+  }
+
+  public async zcard(key: string): Promise<number> {
+    try {
+      return await this.client.zcard(key);
+    } catch (error) {
+      logger.error(`Redis ZCARD error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  // Distributed locks (SET NX with TTL); returns the lock token when acquired
+  public async acquireLock(key: string, ttl: number): Promise<string | null> {
+    try {
+      const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+      const result = await this.client.set(key, token, 'EX', ttl, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      logger.error(`Redis lock acquire error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  // Only release the lock if it is still held by the given token
+  public async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      await this.client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        1,
+        key,
+        token
+      );
+    } catch (error) {
+      logger.error(`Redis lock release error for key ${key}:`, error);
+    }
+  }
+
+  // Push back the expiry of a lock still held by the given token; false when it was lost
+  public async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    try {
+      const result = await this.client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('expire', KEYS[1], ARGV[2]) else return 0 end",
+        1,
+        key,
+        token,
+        ttl
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error(`Redis lock extend error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  // Set the key only when its value differs; returns true when it changed
+  public async setIfChanged(key: string, value: any, ttl: number): Promise<boolean> {
+    try {
+      const serializedValue = JSON.stringify(value);
+      const result = await this.client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then redis.call('expire', KEYS[1], ARGV[2]) return 0 else redis.call('setex', KEYS[1], ARGV[2], ARGV[1]) return 1 end",
+        1,
+        key,
+        serializedValue,
+        ttl
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error(`Redis SET-IF-CHANGED error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  // Pub/sub
+  public async publish(channel: string, message: any): Promise<number> {
+    try {
+      return await this.client.publish(channel, JSON.stringify(message));
+    } catch (error) {
+      logger.error(`Redis PUBLISH error for channel ${channel}:`, error);
+      throw error;
+    }
+  }
+
+  // New connection with the same options, for subscribers and the Socket.IO adapter
+  public duplicate(): Redis {
+    return this.client.duplicate();
+  }
+
   // Pattern-based operations
   public async keys(pattern: string): Promise<string[]> {
     try {
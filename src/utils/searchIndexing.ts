@@ -0,0 +1,97 @@
+import { Model, Schema, Types } from 'mongoose';
+import { esClient, isElasticsearchAvailable, SearchIndexName } from './elasticsearch';
+import { logger } from './logger';
+
+// How a collection maps onto its search index; shared by the write hooks and the reindexer
+export interface SearchSource {
+  index: SearchIndexName;
+  filter: Record<string, any>; // Documents outside the filter are kept out of the index
+  populate?: { path: string; select: string };
+  fields: string[]; // Top-level paths whose updates change the indexed document
+}
+
+// Top-level paths written by an update such as { $set: { 'a.b': 1 }, $inc: { c: 1 }, d: 2 }
+const updatedPaths = (update: any): string[] => {
+  if (!update) return [];
+  if (Array.isArray(update)) return ['*']; // Aggregation pipeline updates can touch anything
+  return Object.entries(update).flatMap(([key, value]) =>
+    key.startsWith('$') ? Object.keys(value || {}) : [key]
+  ).map((path) => path.split('.')[0]);
+};
+
+const touchesSearchFields = (update: any, source: SearchSource) =>
+  updatedPaths(update).some((path) => path === '*' || source.fields.includes(path));
+
+// Re-read the document and index it, or remove it when it no longer matches the source filter
+export const syncSearchDocument = async (model: Model<any>, source: SearchSource, id: Types.ObjectId | string): Promise<void> => {
+  if (!isElasticsearchAvailable()) return;
+
+  let query = model.findOne({ _id: id, ...source.filter });
+  if (source.populate) query = query.populate(source.populate.path, source.populate.select);
+  const doc = await query;
+
+  if (doc) {
+    await esClient.index({ index: source.index, id: id.toString(), body: doc.toSearchDocument() });
+  } else {
+    await esClient.delete({ index: source.index, id: id.toString(), ignore: [404] });
+  }
+};
+
+// Search is best effort; a failed sync never fails the write and is repaired by the next reindex.
+// Writes that skip middleware, such as Model.bulkWrite, call this for the documents they touched
+export const syncSearchDocuments = (model: Model<any>, source: SearchSource, ids: Array<Types.ObjectId | string>) => {
+  for (const id of ids) {
+    syncSearchDocument(model, source, id).catch((error) => {
+      logger.warn(`Could not sync ${source.index} document ${id}:`, error);
+    });
+  }
+};
+
+// Mongoose plugin keeping `source.index` in step with the collection. The model must implement toSearchDocument().
+export const searchIndexPlugin = (schema: Schema, source: SearchSource) => {
+  schema.post('save', function (doc: any) {
+    syncSearchDocuments(doc.constructor as Model<any>, source, [doc._id]);
+  });
+
+  schema.post('insertMany', function (this: any, docs: any[]) {
+    syncSearchDocuments(this, source, docs.map((doc) => doc._id));
+  });
+
+  schema.post('findOneAndUpdate', function (this: any, doc: any) {
+    if (!touchesSearchFields(this.getUpdate(), source)) return;
+    if (doc) {
+      syncSearchDocuments(this.model, source, [doc._id]);
+    } else if (this.getOptions().upsert && isElasticsearchAvailable()) {
+      // An upsert asking for the document before the update gets null when it inserts, so look the new one up
+      this.model.findOne(this.getFilter()).select('_id').lean()
+        .then((inserted: any) => inserted && syncSearchDocuments(this.model, source, [inserted._id]))
+        .catch((error: any) => logger.warn(`Could not find upserted ${source.index} document:`, error));
+    }
+  });
+
+  schema.post(['findOneAndDelete', 'findOneAndReplace'], function (this: any, doc: any) {
+    if (doc) syncSearchDocuments(this.model, source, [doc._id]);
+  });
+
+  schema.post('deleteOne', { document: true, query: false }, function (doc: any) {
+    syncSearchDocuments(doc.constructor as Model<any>, source, [doc._id]);
+  });
+
+  // Bulk writes do not return documents, so the affected ids are collected up front
+  schema.pre(['updateOne', 'updateMany', 'deleteOne', 'deleteMany'], { document: false, query: true }, async function (this: any) {
+    if (!isElasticsearchAvailable()) return;
+    const isDelete = this.op === 'deleteOne' || this.op === 'deleteMany';
+    if (!isDelete && !touchesSearchFields(this.getUpdate(), source)) return;
+
+    if (this.op === 'updateOne' || this.op === 'deleteOne') {
+      const doc = await this.model.findOne(this.getFilter()).select('_id').lean();
+      this._searchSyncIds = doc ? [doc._id] : [];
+    } else {
+      this._searchSyncIds = await this.model.find(this.getFilter()).distinct('_id');
+    }
+  });
+
+  schema.post(['updateOne', 'updateMany', 'deleteOne', 'deleteMany'], { document: false, query: true }, function (this: any) {
+    if (this._searchSyncIds?.length) syncSearchDocuments(this.model, source, this._searchSyncIds);
+  });
+};
@@ -1,6 +1,14 @@
-import { Server as SocketIOServer } from 'socket.io';
+import crypto from 'crypto';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
 import { logger } from './logger';
 import { redisClient } from './redis';
+import { notificationService } from '../services/notificationService';
+import { pollService } from '../services/pollService';
+import { permissionService } from '../services/permissionService';
+import { Thread, IThread } from '../models/Thread';
+import { resolveAccessToken } from '../middleware/auth';
 
 // Socket.IO event types
 interface ServerToClientEvents {
@@ -11,6 +19,10 @@ interface ServerToClientEvents {
   wicketFallen: (data: any) => void;
   newContent: (data: any) => void;
   notification: (data: any) => void;
+  reportCreated: (data: any) => void;
+  moderationItemUpdated: (data: any) => void;
+  sessionExpired: (data: any) => void;
+  pollUpdated: (data: any) => void;
 }
 
 interface ClientToServerEvents {
@@ -18,20 +30,106 @@ interface ClientToServerEvents {
   leaveMatch: (matchId: string) => void;
   subscribeToTeam: (teamId: string) => void;
   unsubscribeFromTeam: (teamId: string) => void;
+  reauthenticate: (token: string) => void;
+  joinModerationFeed: () => void;
+  leaveModerationFeed: () => void;
+  joinPoll: (threadId: string) => void;
+  leavePoll: (threadId: string) => void;
 }
 
 interface InterServerEvents {
   ping: () => void;
 }
 
-export const initializeSocketIO = (io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents>) => {
+interface SocketData {
+  userId?: string;
+  role?: string;
+  tokenExpiresAt?: number; // ms since epoch
+}
+
+type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// Room fed with new thread/comment reports, restricted to roles with this permission
+export const MODERATION_REPORTS_ROOM = 'moderation:reports';
+const MODERATION_PERMISSION = 'moderation.queue';
+
+// Live poll results; sockets join only once the results are visible to them
+const pollRoom = (threadId: string) => `poll:${threadId}`;
+
+// Anonymous sockets may only use public rooms (scores, teams); set SOCKET_ALLOW_ANONYMOUS=false to require a token
+const allowAnonymous = () => process.env.SOCKET_ALLOW_ANONYMOUS !== 'false';
+
+const expiryTimers = new Map<string, NodeJS.Timeout>();
+
+const extractHandshakeToken = (socket: AppSocket): string | undefined => {
+  const { auth, headers, query } = socket.handshake;
+  if (auth && typeof auth.token === 'string' && auth.token) {
+    return auth.token.replace(/^Bearer\s+/i, '');
+  }
+  if (headers.authorization && headers.authorization.startsWith('Bearer')) {
+    return headers.authorization.split(' ')[1];
+  }
+  if (typeof query.token === 'string' && query.token) {
+    return query.token;
+  }
+  return undefined;
+};
+
+// Same checks as the HTTP authenticate middleware; throws when the token cannot be used
+const authenticateSocketToken = async (socket: AppSocket, token: string): Promise<void> => {
+  const { user, decoded } = await resolveAccessToken(token);
+  if (!user) throw new Error('User no longer exists');
+  if (!user.isVerified) throw new Error('Email not verified');
+
+  socket.data.userId = user._id.toString();
+  socket.data.role = user.role;
+  socket.data.tokenExpiresAt = decoded.exp ? decoded.exp * 1000 : undefined;
+};
+
+// Disconnect the socket once its access token expires, unless it reauthenticates first
+const scheduleExpiry = (socket: AppSocket) => {
+  const existing = expiryTimers.get(socket.id);
+  if (existing) clearTimeout(existing);
+  expiryTimers.delete(socket.id);
+
+  if (!socket.data.tokenExpiresAt) return;
+
+  // setTimeout overflows past ~24.8 days; long-lived tokens are simply not timed out
+  const delay = Math.max(socket.data.tokenExpiresAt - Date.now(), 0);
+  if (delay > 2 ** 31 - 1) return;
+
+  expiryTimers.set(socket.id, setTimeout(() => {
+    expiryTimers.delete(socket.id);
+    socket.emit('sessionExpired', { message: 'Access token expired' });
+    socket.disconnect(true);
+  }, delay));
+};
+
+const clearExpiry = (socketId: string) => {
+  const timer = expiryTimers.get(socketId);
+  if (timer) clearTimeout(timer);
+  expiryTimers.delete(socketId);
+};
+
+let ioInstance: SocketIOServer | null = null;
+
+// Access the Socket.IO server from controllers and background jobs
+export const getIO = (): SocketIOServer | null => ioInstance;
+
+export const initializeSocketIO = (io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) => {
+  ioInstance = io as unknown as SocketIOServer;
+
   // Middleware for authentication
   io.use(async (socket, next) => {
     try {
-      // You can add JWT authentication here
-      // const token = socket.handshake.auth.token;
-      // const decoded = jwt.verify(token, process.env.JWT_SECRET);
-      // socket.userId = decoded.userId;
+      const token = extractHandshakeToken(socket);
+
+      if (!token) {
+        if (allowAnonymous()) return next();
+        return next(new Error('Authentication required'));
+      }
+
+      await authenticateSocketToken(socket, token);
       next();
     } catch (error) {
       logger.error('Socket authentication error:', error);
@@ -40,7 +138,68 @@ export const initializeSocketIO = (io: SocketIOServer<ClientToServerEvents, Serv
   });
 
   io.on('connection', (socket) => {
-    logger.info(`Client connected: ${socket.id}`);
+    logger.info(`Client connected: ${socket.id}${socket.data.userId ? ` (user ${socket.data.userId})` : ''}`);
+
+    // Personal room for notifications
+    if (socket.data.userId) {
+      socket.join(`user:${socket.data.userId}`);
+      scheduleExpiry(socket);
+    }
+
+    // Swap in a fresh access token without reconnecting
+    socket.on('reauthenticate', async (token: string) => {
+      try {
+        const previousUserId = socket.data.userId;
+        await authenticateSocketToken(socket, token);
+
+        if (previousUserId && previousUserId !== socket.data.userId) {
+          socket.leave(`user:${previousUserId}`);
+        }
+        await socket.join(`user:${socket.data.userId}`);
+
+        if (!(await permissionService.hasPermission(socket.data.role, MODERATION_PERMISSION))) {
+          socket.leave(MODERATION_REPORTS_ROOM);
+        }
+        scheduleExpiry(socket);
+      } catch (error) {
+        logger.warn(`Socket ${socket.id} failed to reauthenticate:`, error);
+        socket.emit('sessionExpired', { message: 'Invalid access token' });
+        socket.disconnect(true);
+      }
+    });
+
+    // Live reports feed for moderators
+    socket.on('joinModerationFeed', async () => {
+      if (!socket.data.userId || !(await permissionService.hasPermission(socket.data.role, MODERATION_PERMISSION))) {
+        socket.emit('notification', { type: 'error', message: 'Insufficient permissions' });
+        return;
+      }
+      await socket.join(MODERATION_REPORTS_ROOM);
+      logger.info(`Socket ${socket.id} joined moderation feed`);
+    });
+
+    socket.on('leaveModerationFeed', () => {
+      socket.leave(MODERATION_REPORTS_ROOM);
+    });
+
+    // Live poll results, only for sockets allowed to see them
+    socket.on('joinPoll', async (threadId: string) => {
+      try {
+        const thread = await Thread.findById(threadId).select('poll').lean();
+        if (!thread?.poll?.question) return;
+
+        const userVote = socket.data.userId ? await pollService.getBallot(threadId, socket.data.userId) : null;
+        if (!pollService.resultsVisible(thread.poll, !!userVote)) return;
+
+        await socket.join(pollRoom(threadId));
+      } catch (error) {
+        logger.error('Error joining poll room:', error);
+      }
+    });
+
+    socket.on('leavePoll', (threadId: string) => {
+      socket.leave(pollRoom(threadId));
+    });
 
     // Handle joining match rooms
     socket.on('joinMatch', async (matchId: string) => {
@@ -49,9 +208,9 @@ export const initializeSocketIO = (io: SocketIOServer<ClientToServerEvents, Serv
         logger.info(`Socket ${socket.id} joined match ${matchId}`);
         
         // Send current match data if available
-        const matchData = await redisClient.get(`match:${matchId}`);
+        const matchData = await redisClient.get(`live:match:${matchId}`);
         if (matchData) {
-          socket.emit('liveScoreUpdate', matchData);
+          socket.emit('liveScoreUpdate', JSON.parse(matchData));
         }
       } catch (error) {
         logger.error(`Error joining match ${matchId}:`, error);
@@ -84,6 +243,7 @@ export const initializeSocketIO = (io: SocketIOServer<ClientToServerEvents, Serv
 
     // Handle disconnection
     socket.on('disconnect', (reason) => {
+      clearExpiry(socket.id);
       logger.info(`Client disconnected: ${socket.id}, reason: ${reason}`);
     });
 
@@ -93,41 +253,80 @@ export const initializeSocketIO = (io: SocketIOServer<ClientToServerEvents, Serv
     });
   });
 
-  // Set up Redis pub/sub for real-time updates
-  setupRedisPubSub(io);
-
   logger.info('Socket.IO initialized successfully');
 };
 
-// Redis pub/sub setup for real-time updates
-const setupRedisPubSub = (io: SocketIOServer) => {
-  // This would typically be set up with a separate Redis client for pub/sub
-  // For now, we'll use a simple polling mechanism
-  setInterval(async () => {
-    try {
-      // Get live matches from Redis
-      const liveMatches = await redisClient.keys('live:match:*');
-      
-      for (const matchKey of liveMatches) {
-        const matchData = await redisClient.get(matchKey);
-        if (matchData) {
-          const matchId = matchKey.replace('live:match:', '');
-          
-          // Emit to all clients in the match room
-          io.to(`match:${matchId}`).emit('liveScoreUpdate', matchData);
-          
-          // Emit to team subscribers
-          const match = JSON.parse(matchData);
-          if (match.teams) {
-            io.to(`team:${match.teams.home.id}`).emit('liveScoreUpdate', matchData);
-            io.to(`team:${match.teams.away.id}`).emit('liveScoreUpdate', matchData);
-          }
-        }
-      }
-    } catch (error) {
-      logger.error('Error in Redis pub/sub setup:', error);
+// Score changes are published here by whichever process ingests them; every worker
+// subscribes and emits to its own local sockets, so each client gets one update
+export const LIVE_SCORES_CHANNEL = 'live:scores';
+const LIVE_MATCH_TTL_SECONDS = 3600;
+
+// Fields that change on every poll without the score changing
+const VOLATILE_FIELDS = new Set(['lastUpdated', 'updatedAt', 'fetchedAt', 'cachedAt']);
+
+let pubSubClients: Redis[] = [];
+
+const fingerprint = (data: any): string => {
+  const stable = JSON.stringify(data, (key, value) => (VOLATILE_FIELDS.has(key) ? undefined : value));
+  return crypto.createHash('sha1').update(stable).digest('hex');
+};
+
+const emitLiveScoreLocally = (io: SocketIOServer, matchId: string, data: any) => {
+  io.local.to(`match:${matchId}`).emit('liveScoreUpdate', data);
+
+  if (data?.teams) {
+    const teamRooms = [data.teams.home?.id, data.teams.away?.id].filter(Boolean).map((id) => `team:${id}`);
+    if (teamRooms.length > 0) {
+      io.local.to(teamRooms).emit('liveScoreUpdate', data);
     }
-  }, 5000); // Check every 5 seconds
+  }
+};
+
+// Redis adapter (shared rooms across cluster workers) plus the live score subscriber.
+// Call after Redis is connected.
+export const setupRedisPubSub = async (io: SocketIOServer): Promise<void> => {
+  try {
+    const pubClient = redisClient.duplicate();
+    const subClient = redisClient.duplicate();
+    const scoresClient = redisClient.duplicate();
+    pubSubClients = [pubClient, subClient, scoresClient];
+
+    await Promise.all(pubSubClients.map((client) => client.connect()));
+
+    io.adapter(createAdapter(pubClient, subClient));
+
+    await scoresClient.subscribe(LIVE_SCORES_CHANNEL);
+    scoresClient.on('message', (channel, message) => {
+      if (channel !== LIVE_SCORES_CHANNEL) return;
+      try {
+        const { matchId, data } = JSON.parse(message);
+        emitLiveScoreLocally(io, matchId, data);
+      } catch (error) {
+        logger.error('Invalid live score message:', error);
+      }
+    });
+
+    logger.info('Socket.IO Redis adapter and live score subscriber ready');
+  } catch (error) {
+    // Without Redis each worker still serves its own sockets
+    logger.error('Failed to set up Socket.IO Redis pub/sub, continuing without it:', error);
+  }
+};
+
+export const closeRedisPubSub = async (): Promise<void> => {
+  await Promise.all(pubSubClients.map((client) => client.quit().catch(() => undefined)));
+  pubSubClients = [];
+};
+
+// Store the latest snapshot and publish it, but only if the match actually changed.
+// Returns true when an update was published.
+export const publishLiveScore = async (matchId: string, data: any): Promise<boolean> => {
+  const changed = await redisClient.setIfChanged(`live:hash:${matchId}`, fingerprint(data), LIVE_MATCH_TTL_SECONDS);
+  if (!changed) return false;
+
+  await redisClient.set(`live:match:${matchId}`, JSON.stringify(data), LIVE_MATCH_TTL_SECONDS);
+  await redisClient.publish(LIVE_SCORES_CHANNEL, { matchId, data });
+  return true;
 };
 
 // Utility functions for broadcasting updates
@@ -147,6 +346,28 @@ export const broadcastNewContent = (io: SocketIOServer, content: any) => {
   io.emit('newContent', content);
 };
 
+export const broadcastModerationReport = (io: SocketIOServer, report: any) => {
+  io.to(MODERATION_REPORTS_ROOM).emit('reportCreated', report);
+};
+
+// Queue changes (new entries, claims, decisions) so open moderator queues stay in sync
+export const broadcastModerationItemUpdate = (io: SocketIOServer, item: any) => {
+  io.to(MODERATION_REPORTS_ROOM).emit('moderationItemUpdated', item);
+};
+
+// Push fresh counts to everyone watching the poll; the voter's sockets join first
+// since casting a ballot is what lets them see the results. Polls whose results stay
+// hidden until they close (after_expiry) broadcast nothing while they are open.
+export const broadcastPollUpdate = (io: SocketIOServer, threadId: string, poll: NonNullable<IThread['poll']>, voterId?: string) => {
+  if (!pollService.resultsVisible(poll, true)) return;
+
+  const results = pollService.results(poll);
+  if (voterId) {
+    io.in(`user:${voterId}`).socketsJoin(pollRoom(threadId));
+  }
+  io.to(pollRoom(threadId)).emit('pollUpdated', { threadId, ...results });
+};
+
 // Match event handlers
 export const handleMatchStart = (io: SocketIOServer, matchId: string, matchData: any) => {
   // Store in Redis
@@ -160,6 +381,9 @@ export const handleMatchStart = (io: SocketIOServer, matchId: string, matchData:
     broadcastTeamUpdate(io, matchData.teams.home.id, matchData);
     broadcastTeamUpdate(io, matchData.teams.away.id, matchData);
   }
+
+  // Notify fans who follow either team
+  notificationService.notifyTeamMatchStarting(matchId, matchData);
   
   logger.info(`Match started: ${matchId}`);
 };
@@ -1,3 +1,5 @@
+import { IBallEvent, WicketKind } from '../models/BallEvent';
+
 /**
  * Transform SportsMonks API response to frontend format
  */
@@ -53,12 +55,14 @@ export function transformSportsMonksMatchToFrontend(apiMatch: any, sport: 'crick
       id: homeParticipant.id?.toString() || '',
       name: homeParticipant.name || 'Team 1',
       flag: homeParticipant.image_path ? `🏏` : '🏏', // You might want to use actual flag images
+      logo: homeParticipant.image_path || undefined,
       shortName: homeParticipant.short_code || homeParticipant.name?.substring(0, 3).toUpperCase() || 'T1',
     },
     away: {
       id: awayParticipant.id?.toString() || '',
       name: awayParticipant.name || 'Team 2',
       flag: awayParticipant.image_path ? `🏏` : '🏏',
+      logo: awayParticipant.image_path || undefined,
       shortName: awayParticipant.short_code || awayParticipant.name?.substring(0, 3).toUpperCase() || 'T2',
     },
   };
@@ -113,12 +117,15 @@ export function transformSportsMonksMatchToFrontend(apiMatch: any, sport: 'crick
   return {
     _id: apiMatch.id?.toString(),
     matchId: apiMatch.id?.toString(),
+    sport,
     name: apiMatch.name || `${teams.home.name} vs ${teams.away.name}`,
     teams,
     venue: venueData,
     status,
     format: sport === 'cricket' ? format : undefined,
     league: sport === 'football' ? apiMatch.league?.name : undefined,
+    leagueId: sport === 'football' ? apiMatch.league_id?.toString() : undefined,
+    season: apiMatch.season?.name,
     startTime: apiMatch.starting_at ? new Date(apiMatch.starting_at) : new Date(),
     currentScore,
     score,
@@ -129,3 +136,94 @@ export function transformSportsMonksMatchToFrontend(apiMatch: any, sport: 'crick
   };
 }
 
+
+
+/**
+ * Transform a SportsMonks cricket commentary ball to the BallEvent schema.
+ * Returns null for entries that are not deliveries (e.g. end-of-over notes).
+ */
+export function transformSportsMonksBallToEvent(entry: any, matchId: string): Partial<IBallEvent> | null {
+  const score = entry.score || {};
+  if (entry.ball === undefined || entry.ball === null || !entry.id) return null;
+
+  const toPlayer = (player: any, fallbackId: any) => {
+    const id = player?.id?.toString() || fallbackId?.toString();
+    if (!id) return undefined;
+    return { id, name: player?.fullname || player?.name || 'Unknown' };
+  };
+
+  // SportsMonks encodes the delivery as "<overs>.<ball>", e.g. 12.3
+  const [overPart, ballPart = '0'] = entry.ball.toString().split('.');
+  const over = Number(overPart) || 0;
+  const ball = Number(ballPart) || 0;
+
+  const scoreName = (score.name || '').toLowerCase();
+  let extras: IBallEvent['extras'];
+  if (score.noball) {
+    extras = { type: 'noball', runs: (score.noball || 0) + (score.noball_runs || 0) };
+  } else if (scoreName.includes('wide')) {
+    extras = { type: 'wide', runs: score.runs || 1 };
+  } else if (score.bye) {
+    extras = { type: 'bye', runs: score.bye };
+  } else if (score.leg_bye) {
+    extras = { type: 'legbye', runs: score.leg_bye };
+  } else if (scoreName.includes('penalty')) {
+    extras = { type: 'penalty', runs: score.runs || 5 };
+  }
+
+  const extraRuns = extras?.runs || 0;
+  const total = extras?.type === 'wide' || extras?.type === 'penalty'
+    ? extraRuns
+    : (score.runs || 0) + (extras?.type === 'noball' ? extraRuns : 0);
+
+  let wicket: IBallEvent['wicket'];
+  if (score.is_wicket || score.out) {
+    const kinds: Array<[string, WicketKind]> = [
+      ['bowled', 'bowled'],
+      ['catch', 'caught'],
+      ['lbw', 'lbw'],
+      ['run out', 'run-out'],
+      ['stump', 'stumped'],
+      ['hit wicket', 'hit-wicket'],
+      ['retired', 'retired'],
+    ];
+    const kind = kinds.find(([needle]) => scoreName.includes(needle))?.[1] || 'other';
+    const playerOut = toPlayer(entry.batsmanout, entry.batsmanout_id) || toPlayer(entry.batsman, entry.batsman_id);
+    const fielder = toPlayer(entry.catchstump, entry.catchstump_id) || toPlayer(entry.runoutby, entry.runout_by_id);
+
+    if (playerOut) {
+      wicket = { kind, playerOut, fielder };
+    }
+  }
+
+  const batter = toPlayer(entry.batsman, entry.batsman_id);
+  const bowler = toPlayer(entry.bowler, entry.bowler_id);
+  if (!batter || !bowler) return null;
+
+  const nonStrikerId = [entry.batsman_one_on_creeze_id, entry.batsman_two_on_creeze_id]
+    .find((id) => id && id.toString() !== batter.id);
+
+  return {
+    matchId,
+    innings: Number((entry.scoreboard || 'S1').toString().replace(/\D/g, '')) || 1,
+    battingTeam: entry.team?.name || entry.team_id?.toString(),
+    over,
+    ball,
+    sequence: Number(entry.id) || 0,
+    batter,
+    nonStriker: nonStrikerId ? { id: nonStrikerId.toString(), name: 'Unknown' } : undefined,
+    bowler,
+    runs: {
+      batter: Math.max(total - extraRuns, 0),
+      extras: extraRuns,
+      total,
+    },
+    extras,
+    isLegal: score.ball !== false && extras?.type !== 'wide' && extras?.type !== 'noball',
+    isBoundary: !!(score.four || score.six),
+    wicket,
+    commentary: entry.comment || score.name,
+    source: 'sportsmonks',
+    providerEventId: entry.id.toString(),
+  };
+}